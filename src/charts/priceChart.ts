@@ -0,0 +1,121 @@
+import { PriceCandle } from '../fetchers/priceHistory';
+import { encodePng } from './png';
+
+type Color = [number, number, number];
+
+const BACKGROUND: Color = [19, 23, 34];
+const GRID: Color = [42, 46, 57];
+const UP: Color = [38, 166, 154];
+const DOWN: Color = [239, 83, 80];
+const MIGRATION: Color = [255, 193, 7];
+const GRID_LINES = 4;
+const PADDING = 16;
+
+export interface PriceChartOptions {
+  width?: number;
+  height?: number;
+}
+
+/**
+ * Draws a candlestick chart of the bonding curve price history, ending with a marker at migration.
+ * Pure JS so it renders headless without native canvas libraries.
+ * @returns A PNG, or null when there are too few candles to draw
+ */
+export function renderPriceChart(candles: PriceCandle[], options: PriceChartOptions = {}): Buffer | null {
+  const { width = 800, height = 400 } = options;
+  if (candles.length < 2) {
+    return null;
+  }
+
+  const canvas = new Canvas(width, height, BACKGROUND);
+  const plot = { x: PADDING, y: PADDING, width: width - PADDING * 3, height: height - PADDING * 2 };
+
+  // At least 2px per candle (1px body + gap), merging neighbouring candles when there are more
+  const bars = resampleCandles(candles, Math.floor(plot.width / 2));
+  const low = Math.min(...bars.map(bar => bar.low));
+  const high = Math.max(...bars.map(bar => bar.high));
+  const margin = (high - low) * 0.05 || high * 0.05;
+  const min = low - margin;
+  const max = high + margin;
+  const toY = (price: number) => Math.round(plot.y + (1 - (price - min) / (max - min)) * (plot.height - 1));
+
+  for (let i = 0; i <= GRID_LINES; i++) {
+    canvas.fillRect(plot.x, Math.round(plot.y + (i / GRID_LINES) * (plot.height - 1)), plot.width, 1, GRID);
+  }
+
+  const slot = plot.width / bars.length;
+  const bodyWidth = Math.max(1, Math.floor(slot * 0.7));
+  bars.forEach((bar, index) => {
+    const color = bar.close >= bar.open ? UP : DOWN;
+    const left = Math.round(plot.x + index * slot + (slot - bodyWidth) / 2);
+    const center = left + Math.floor(bodyWidth / 2);
+    const top = toY(Math.max(bar.open, bar.close));
+    const bottom = toY(Math.min(bar.open, bar.close));
+
+    canvas.fillRect(center, toY(bar.high), 1, toY(bar.low) - toY(bar.high) + 1, color);
+    canvas.fillRect(left, top, bodyWidth, bottom - top + 1, color);
+  });
+
+  // Dashed marker just after the last candle, where the token migrated
+  const markerX = Math.min(width - PADDING, Math.round(plot.x + plot.width + PADDING / 2));
+  for (let y = plot.y; y < plot.y + plot.height; y += 8) {
+    canvas.fillRect(markerX, y, 2, 4, MIGRATION);
+  }
+  canvas.fillRect(markerX - 3, toY(bars[bars.length - 1].close) - 3, 8, 7, MIGRATION);
+
+  return encodePng(width, height, canvas.pixels);
+}
+
+/**
+ * Merges consecutive candles so at most `maxBars` remain
+ */
+export function resampleCandles(candles: PriceCandle[], maxBars: number): PriceCandle[] {
+  if (candles.length <= maxBars) {
+    return candles;
+  }
+
+  const size = Math.ceil(candles.length / maxBars);
+  const merged: PriceCandle[] = [];
+  for (let i = 0; i < candles.length; i += size) {
+    const group = candles.slice(i, i + size);
+    merged.push({
+      timestamp: group[0].timestamp,
+      open: group[0].open,
+      high: Math.max(...group.map(candle => candle.high)),
+      low: Math.min(...group.map(candle => candle.low)),
+      close: group[group.length - 1].close,
+      volume: group.reduce((sum, candle) => sum + candle.volume, 0),
+    });
+  }
+  return merged;
+}
+
+class Canvas {
+  readonly pixels: Uint8Array;
+  private width: number;
+  private height: number;
+
+  constructor(width: number, height: number, background: Color) {
+    this.width = width;
+    this.height = height;
+    this.pixels = new Uint8Array(width * height * 4);
+    this.fillRect(0, 0, width, height, background);
+  }
+
+  fillRect(x: number, y: number, width: number, height: number, [r, g, b]: Color): void {
+    const x0 = Math.max(0, x);
+    const y0 = Math.max(0, y);
+    const x1 = Math.min(this.width, x + width);
+    const y1 = Math.min(this.height, y + height);
+
+    for (let row = y0; row < y1; row++) {
+      for (let column = x0; column < x1; column++) {
+        const offset = (row * this.width + column) * 4;
+        this.pixels[offset] = r;
+        this.pixels[offset + 1] = g;
+        this.pixels[offset + 2] = b;
+        this.pixels[offset + 3] = 255;
+      }
+    }
+  }
+}
@@ -0,0 +1,57 @@
+import bs58 from 'bs58';
+
+// Anchor account discriminator: sha256("account:BondingCurve")[0..8]
+export const BONDING_CURVE_DISCRIMINATOR = [23, 183, 248, 55, 96, 216, 172, 96] as const;
+
+// Real token reserves a new pump.fun curve starts with (793.1M tokens, 6 decimals).
+// The curve completes when they reach zero.
+export const INITIAL_REAL_TOKEN_RESERVES = BigInt('793100000000000');
+
+export interface BondingCurveState {
+  virtualTokenReserves: bigint;
+  virtualSolReserves: bigint;
+  realTokenReserves: bigint;
+  realSolReserves: bigint;
+  tokenTotalSupply: bigint;
+  complete: boolean;
+  creator?: string;
+}
+
+/**
+ * Decodes a pump.fun BondingCurve account. Returns null for other accounts.
+ */
+export function decodeBondingCurve(data: Buffer): BondingCurveState | null {
+  // discriminator + 5 x u64 + bool
+  if (data.length < 49 || !BONDING_CURVE_DISCRIMINATOR.every((byte, index) => data[index] === byte)) {
+    return null;
+  }
+
+  const state: BondingCurveState = {
+    virtualTokenReserves: data.readBigUInt64LE(8),
+    virtualSolReserves: data.readBigUInt64LE(16),
+    realTokenReserves: data.readBigUInt64LE(24),
+    realSolReserves: data.readBigUInt64LE(32),
+    tokenTotalSupply: data.readBigUInt64LE(40),
+    complete: data[48] === 1,
+  };
+
+  // Newer curves also store the creator
+  if (data.length >= 81) {
+    state.creator = bs58.encode(data.subarray(49, 81));
+  }
+
+  return state;
+}
+
+/**
+ * Bonding curve progress in percent (0-100), based on how many of the initial real tokens were sold.
+ */
+export function getBondingCurveProgress(state: BondingCurveState): number {
+  if (state.complete) {
+    return 100;
+  }
+
+  const sold = INITIAL_REAL_TOKEN_RESERVES - state.realTokenReserves;
+  const progress = Number((sold * BigInt(10000)) / INITIAL_REAL_TOKEN_RESERVES) / 100;
+  return Math.min(Math.max(progress, 0), 100);
+}
@@ -0,0 +1,96 @@
+import bs58 from 'bs58';
+
+export interface FlatInstruction {
+  programId: string;
+  accounts: string[];
+  data?: Buffer;
+  // Index of the top-level instruction this belongs to
+  outerIndex: number;
+  // Position inside that instruction's inner instructions, undefined for the top-level one
+  innerIndex?: number;
+}
+
+/**
+ * Flattens top-level and inner instructions of a transaction into one list,
+ * resolving account keys to base58 strings.
+ * Works for jsonParsed transactions (`getParsedTransaction`) as well as the raw
+ * form where instructions reference accounts by index.
+ */
+export function flattenInstructions(tx: any): FlatInstruction[] {
+  const message = tx?.transaction?.message;
+  if (!message) {
+    return [];
+  }
+
+  const accountKeys = getAccountKeys(tx);
+  const flat: FlatInstruction[] = [];
+  const instructions: any[] = message.instructions || [];
+
+  const innerByIndex = new Map<number, any[]>();
+  (tx.meta?.innerInstructions || []).forEach((inner: any) => {
+    innerByIndex.set(inner.index, inner.instructions || []);
+  });
+
+  instructions.forEach((ix, outerIndex) => {
+    flat.push({ ...normalizeInstruction(ix, accountKeys), outerIndex });
+    (innerByIndex.get(outerIndex) || []).forEach((innerIx, innerIndex) => {
+      flat.push({ ...normalizeInstruction(innerIx, accountKeys), outerIndex, innerIndex });
+    });
+  });
+
+  return flat;
+}
+
+export function getAccountKeys(tx: any): string[] {
+  const message = tx?.transaction?.message;
+  const keys: any[] = message?.accountKeys || message?.staticAccountKeys || [];
+  const accountKeys = keys.map(toBase58);
+
+  // Versioned transactions append keys loaded from lookup tables
+  const loaded = tx?.meta?.loadedAddresses;
+  if (loaded && !keys.some(key => key?.source === 'lookupTable')) {
+    accountKeys.push(...(loaded.writable || []).map(toBase58), ...(loaded.readonly || []).map(toBase58));
+  }
+
+  return accountKeys;
+}
+
+export function hasDiscriminator(data: Buffer | undefined, discriminator: readonly number[]): boolean {
+  if (!data || data.length < discriminator.length) {
+    return false;
+  }
+  return discriminator.every((byte, index) => data[index] === byte);
+}
+
+function normalizeInstruction(ix: any, accountKeys: string[]): Omit<FlatInstruction, 'outerIndex'> {
+  const programId = ix.programId !== undefined
+    ? toBase58(ix.programId)
+    : accountKeys[ix.programIdIndex] || '';
+
+  const rawAccounts: any[] = ix.accounts || [];
+  const accounts = rawAccounts.map(account =>
+    typeof account === 'number' ? accountKeys[account] || '' : toBase58(account)
+  );
+
+  // Parsed instructions (system, token, ...) carry no raw data
+  let data: Buffer | undefined;
+  if (typeof ix.data === 'string') {
+    try {
+      data = Buffer.from(bs58.decode(ix.data));
+    } catch {
+      data = undefined;
+    }
+  }
+
+  return { programId, accounts, data };
+}
+
+function toBase58(key: any): string {
+  if (typeof key === 'string') {
+    return key;
+  }
+  if (key?.pubkey !== undefined) {
+    return toBase58(key.pubkey);
+  }
+  return key?.toBase58?.() || key?.toString?.() || '';
+}
@@ -0,0 +1,58 @@
+import { flattenInstructions, hasDiscriminator } from './instructions';
+
+// Subset of the pump.fun program IDL needed to decode migrations.
+// The discriminator is Anchor's sha256("global:migrate")[0..8].
+export const PUMP_FUN_MIGRATE_DISCRIMINATOR = [155, 234, 231, 146, 236, 158, 162, 30] as const;
+
+export const PUMP_FUN_MIGRATE_ACCOUNTS = [
+  'global',
+  'withdrawAuthority',
+  'mint',
+  'bondingCurve',
+  'associatedBondingCurve',
+  'user',
+  'systemProgram',
+  'tokenProgram',
+  'pumpAmm',
+  'pool',
+  'poolAuthority',
+  'poolAuthorityMintAccount',
+  'poolAuthorityWsolAccount',
+  'ammGlobalConfig',
+  'wsolMint',
+  'lpMint',
+  'userPoolTokenAccount',
+  'poolBaseTokenAccount',
+  'poolQuoteTokenAccount',
+  'token2022Program',
+  'associatedTokenProgram',
+  'pumpAmmEventAuthority',
+  'eventAuthority',
+  'program',
+] as const;
+
+export type PumpFunMigrateAccountName = typeof PUMP_FUN_MIGRATE_ACCOUNTS[number];
+
+export interface DecodedMigrateInstruction {
+  accounts: Partial<Record<PumpFunMigrateAccountName, string>>;
+  outerIndex: number;
+  innerIndex?: number;
+}
+
+/**
+ * Finds pump.fun `migrate` instructions in a transaction, including ones invoked
+ * through CPI, and maps their accounts to the names from the IDL.
+ */
+export function decodeMigrateInstructions(tx: any, pumpFunProgramId: string): DecodedMigrateInstruction[] {
+  return flattenInstructions(tx)
+    .filter(ix => ix.programId === pumpFunProgramId && hasDiscriminator(ix.data, PUMP_FUN_MIGRATE_DISCRIMINATOR))
+    .map(ix => {
+      const accounts: DecodedMigrateInstruction['accounts'] = {};
+      PUMP_FUN_MIGRATE_ACCOUNTS.forEach((name, index) => {
+        if (ix.accounts[index]) {
+          accounts[name] = ix.accounts[index];
+        }
+      });
+      return { accounts, outerIndex: ix.outerIndex, innerIndex: ix.innerIndex };
+    });
+}
@@ -0,0 +1,106 @@
+import { flattenInstructions, getAccountKeys, hasDiscriminator } from './instructions';
+
+export const PUMP_SWAP_PROGRAM_ID = 'pAMMBay6oceH9fJKBRHGP5D4bD4sWpmSwMn52FMfXEA';
+
+// Subset of the PumpSwap AMM IDL needed to decode pool creation.
+// The discriminator is Anchor's sha256("global:create_pool")[0..8].
+export const CREATE_POOL_DISCRIMINATOR = [233, 146, 209, 142, 207, 104, 64, 188] as const;
+
+export const CREATE_POOL_ACCOUNTS = [
+  'pool',
+  'globalConfig',
+  'creator',
+  'baseMint',
+  'quoteMint',
+  'lpMint',
+  'userBaseTokenAccount',
+  'userQuoteTokenAccount',
+  'userPoolTokenAccount',
+  'poolBaseTokenAccount',
+  'poolQuoteTokenAccount',
+  'systemProgram',
+  'token2022Program',
+  'baseTokenProgram',
+  'quoteTokenProgram',
+  'associatedTokenProgram',
+  'eventAuthority',
+  'program',
+] as const;
+
+export type CreatePoolAccountName = typeof CREATE_POOL_ACCOUNTS[number];
+
+export interface DecodedCreatePoolInstruction {
+  accounts: Partial<Record<CreatePoolAccountName, string>>;
+  // Raw instruction arguments (smallest units)
+  baseAmountIn?: bigint;
+  quoteAmountIn?: bigint;
+}
+
+export interface PoolDeposit {
+  // UI amounts actually deposited into the pool, from pre/post token balances
+  baseAmount?: number;
+  quoteAmount?: number;
+}
+
+/**
+ * Finds the AMM `create_pool` instruction in a transaction (usually an inner
+ * instruction of the pump.fun migrate) and maps its accounts and amounts.
+ */
+export function decodeCreatePoolInstruction(tx: any, ammProgramId: string = PUMP_SWAP_PROGRAM_ID): DecodedCreatePoolInstruction | null {
+  const ix = flattenInstructions(tx).find(instruction =>
+    instruction.programId === ammProgramId && hasDiscriminator(instruction.data, CREATE_POOL_DISCRIMINATOR)
+  );
+  if (!ix || !ix.data) {
+    return null;
+  }
+
+  const accounts: DecodedCreatePoolInstruction['accounts'] = {};
+  CREATE_POOL_ACCOUNTS.forEach((name, index) => {
+    if (ix.accounts[index]) {
+      accounts[name] = ix.accounts[index];
+    }
+  });
+
+  // Args: index (u16), base_amount_in (u64), quote_amount_in (u64), ...
+  const args = ix.data.subarray(CREATE_POOL_DISCRIMINATOR.length);
+  const decoded: DecodedCreatePoolInstruction = { accounts };
+  if (args.length >= 18) {
+    decoded.baseAmountIn = args.readBigUInt64LE(2);
+    decoded.quoteAmountIn = args.readBigUInt64LE(10);
+  }
+
+  return decoded;
+}
+
+/**
+ * Computes how many base and quote tokens ended up in the pool's token accounts.
+ */
+export function getPoolDeposit(tx: any, createPool: DecodedCreatePoolInstruction): PoolDeposit {
+  return {
+    baseAmount: getTokenBalanceChange(tx, createPool.accounts.poolBaseTokenAccount),
+    quoteAmount: getTokenBalanceChange(tx, createPool.accounts.poolQuoteTokenAccount),
+  };
+}
+
+function getTokenBalanceChange(tx: any, tokenAccount?: string): number | undefined {
+  if (!tokenAccount) {
+    return undefined;
+  }
+
+  const accountIndex = getAccountKeys(tx).indexOf(tokenAccount);
+  if (accountIndex < 0) {
+    return undefined;
+  }
+
+  const find = (balances: any[] | null | undefined) =>
+    (balances || []).find(balance => balance.accountIndex === accountIndex);
+  const pre = find(tx.meta?.preTokenBalances);
+  const post = find(tx.meta?.postTokenBalances);
+  if (!post) {
+    return undefined;
+  }
+
+  const decimals = post.uiTokenAmount.decimals;
+  const change = BigInt(post.uiTokenAmount.amount) - BigInt(pre?.uiTokenAmount.amount || '0');
+  return Number(change) / 10 ** decimals;
+}
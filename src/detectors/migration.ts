@@ -1,18 +1,27 @@
 import { ParsedTransactionWithMeta } from '@solana/web3.js';
 import { Config } from '../utils/config';
+import { decodeMigrateInstructions, DecodedMigrateInstruction } from '../decoders/pumpFun';
+import { FetchScheduler, RateLimitError, parseRetryAfter } from '../fetchers/scheduler';
 
 export interface MigrationDetectionResult {
   isMigration: boolean;
   tokenMint?: string;
   signature?: string;
+  accounts?: DecodedMigrateInstruction['accounts'];
 }
 
+// Exact log line emitted by the pump.fun program for `migrate`
+// (MigrateBondingCurveCreator and friends log a different instruction name)
+const MIGRATE_LOG = 'Program log: Instruction: Migrate';
+
 export interface JupiterTokenData {
   id: string;
   name?: string;
   symbol?: string;
   icon?: string;
   decimals?: number;
+  // Creator wallet
+  dev?: string;
   organicScore?: number;
   organicScoreLabel?: string;
   mcap?: number;
@@ -47,9 +56,18 @@ export interface JupiterTokenData {
 
 export class MigrationDetector {
   private config: Config;
+  private jupiterScheduler?: FetchScheduler;
 
-  constructor(config: Config) {
+  constructor(config: Config, jupiterScheduler?: FetchScheduler) {
     this.config = config;
+    this.jupiterScheduler = jupiterScheduler;
+  }
+
+  // Pre-filter for log notifications: check if logs indicate a potential migration
+  // Only match the exact "Instruction: Migrate" log, not MigrateBondingCurveCreator, CollectCreatorFee, etc.
+  hasMigrationIndicators(logs: string[]): boolean {
+    if (!logs || !Array.isArray(logs)) return false;
+    return logs.some(log => log.trim() === MIGRATE_LOG);
   }
 
   detectMigrationFromTransaction(tx: ParsedTransactionWithMeta, signature: string): MigrationDetectionResult {
@@ -57,56 +75,20 @@ export class MigrationDetector {
       return { isMigration: false };
     }
 
-    const instructions = tx.transaction.message.instructions || [];
-    const logMessages = tx.meta.logMessages || [];
-
-    // Check for migration indicators
-    // Only detect actual migrations with "Instruction: Migrate", not fee collection transactions
-    const hasMigrateInstruction = this.hasMigrateInstruction(instructions, logMessages);
-    
-    // Exclude fee collection transactions - they should not be detected as migrations
-    const hasCollectFee = logMessages.some(log => 
-      log.includes('Instruction: CollectCreatorFee') ||
-      log.includes('Instruction: MigrateBondingCurveCreator') ||
-      log.includes('Instruction: DistributeCreatorFees')
-    );
-
-    // Only detect if we have the actual migrate instruction AND it's not a fee collection
-    const isMigration = hasMigrateInstruction && !hasCollectFee;
-
-    if (!isMigration) {
+    // Decode the pump.fun `migrate` instruction by its Anchor discriminator (top-level or CPI)
+    const [migrate] = decodeMigrateInstructions(tx, this.config.pumpFunProgramId);
+    if (!migrate) {
       return { isMigration: false };
     }
 
-    // Extract token mint from instructions or account keys
-    const tokenMint = this.extractTokenMint(tx.transaction, instructions);
-
     return {
       isMigration: true,
-      tokenMint,
+      tokenMint: migrate.accounts.mint,
       signature,
+      accounts: migrate.accounts,
     };
   }
 
-  private hasMigrateInstruction(instructions: any[], logMessages: string[]): boolean {
-    // Check log messages for the specific "Instruction: Migrate" log
-    // This is the actual migration instruction, not CollectCreatorFee or MigrateBondingCurveCreator
-    const hasMigrateLog = logMessages.some(log => 
-      log.includes('Instruction: Migrate')
-    );
-
-    if (hasMigrateLog) {
-      return true;
-    }
-
-    // Check instructions for migrate program ID
-    return instructions.some(ix => {
-      const programId = ix.programId || ix.program;
-      return programId === this.config.pumpFunProgramId && 
-             (ix.data?.includes('migrate') || ix.parsed?.type === 'migrate');
-    });
-  }
-
   private hasPoolCreation(instructions: any[], logMessages: string[]): boolean {
     // Check for pool creation on Pump.fun AMM
     const poolCreationLogs = logMessages.filter(log =>
@@ -146,69 +128,6 @@ export class MigrationDetector {
     });
   }
 
-  private extractTokenMint(tx: any, instructions: any[]): string | undefined {
-    const accountKeys = tx?.message?.accountKeys || [];
-    const accountKeysArray = accountKeys.map((key: any) => 
-      typeof key === 'string' ? key : key.pubkey?.toString() || key.toString()
-    );
-
-    // For pump.fun migrations, the bonding curve address (which is the token mint) 
-    // typically ends with "pump" and is usually in the first few account keys
-    // Look for addresses ending with "pump" first
-    for (const account of accountKeysArray) {
-      if (typeof account === 'string' && account.endsWith('pump') && account.length === 44) {
-        return account;
-      }
-    }
-
-    // Try to extract token mint from instructions
-    for (const ix of instructions) {
-      if (ix.parsed?.type === 'transfer' || ix.parsed?.type === 'transferChecked') {
-        const mint = ix.parsed?.info?.mint || ix.parsed?.info?.tokenMint;
-        if (mint) {
-          return mint;
-        }
-      }
-
-      // Check for mint in account keys
-      if (ix.parsed?.info?.mint) {
-        return ix.parsed.info.mint;
-      }
-
-      // Check accounts array in instruction for pump addresses
-      if ('accounts' in ix && Array.isArray(ix.accounts)) {
-        for (const accountIndex of ix.accounts) {
-          const index = typeof accountIndex === 'number' ? accountIndex : parseInt(accountIndex.toString());
-          if (index >= 0 && index < accountKeysArray.length) {
-            const account = accountKeysArray[index];
-            if (typeof account === 'string' && account.endsWith('pump') && account.length === 44) {
-              return account;
-            }
-          }
-        }
-      }
-    }
-
-    // Fallback: look for valid Solana addresses in account keys (but prioritize pump addresses)
-    for (const account of accountKeysArray) {
-      if (typeof account === 'string' && account.length === 44) {
-        // Skip system program and known program addresses
-        if (account === '11111111111111111111111111111111' || 
-            account === 'TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA' ||
-            account === 'TokenzQdBNbLqP5VEhdkAS6EPFLC1PHnBqCXEpPxuEb' ||
-            account === 'ATokenGPvbdGVxr1b2hvZbsiqW5xWH25efTNsLJA8knL' ||
-            account === this.config.pumpFunProgramId ||
-            account === this.config.pumpFunAmmProgramId) {
-          continue;
-        }
-        // Return first valid-looking address that's not a known program
-        return account;
-      }
-    }
-
-    return undefined;
-  }
-
   /**
    * Fetches token organic score from Jupiter API
    * @param tokenMint The token mint address
@@ -223,8 +142,15 @@ export class MigrationDetector {
         }
       };
 
-      const url = `https://api.jup.ag/tokens/v2/search?query=${tokenMint}`;
-      const response = await fetch(url, options);
+      const url = `${this.config.jupiterApiUrl}/tokens/v2/search?query=${tokenMint}`;
+      const request = async () => {
+        const response = await fetch(url, options);
+        if (response.status === 429) {
+          throw new RateLimitError('Jupiter API rate limited (429)', parseRetryAfter(response.headers.get('retry-after')));
+        }
+        return response;
+      };
+      const response = this.jupiterScheduler ? await this.jupiterScheduler.schedule(request) : await request();
 
       if (!response.ok) {
         if (response.status === 400 || response.status === 500) {
@@ -0,0 +1,79 @@
+import { FetchScheduler, RateLimitError, parseRetryAfter } from './scheduler';
+
+// One-minute candles covering roughly the last day on the bonding curve
+const CANDLE_LIMIT = 1000;
+
+export interface PriceCandle {
+  // Unix ms at the start of the candle
+  timestamp: number;
+  // Prices in SOL per token
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+}
+
+/**
+ * Fetches a token's bonding curve OHLCV history from the pump.fun frontend API
+ */
+export class PriceHistoryFetcher {
+  private apiUrl: string;
+  private scheduler?: FetchScheduler;
+
+  constructor(apiUrl: string, scheduler?: FetchScheduler) {
+    this.apiUrl = apiUrl;
+    this.scheduler = scheduler;
+  }
+
+  /**
+   * @returns Candles oldest first, or an empty list when the history is unavailable
+   */
+  async fetchCandles(tokenMint: string): Promise<PriceCandle[]> {
+    try {
+      const url = `${this.apiUrl}/candlesticks/${tokenMint}?offset=0&limit=${CANDLE_LIMIT}&timeframe=1`;
+      const request = async () => {
+        const response = await fetch(url, { signal: AbortSignal.timeout(5000) });
+        if (response.status === 429) {
+          throw new RateLimitError('pump.fun API rate limited (429)', parseRetryAfter(response.headers.get('retry-after')));
+        }
+        return response;
+      };
+      const response = this.scheduler ? await this.scheduler.schedule(request) : await request();
+
+      if (!response.ok) {
+        console.warn(`⚠️  pump.fun candles request for ${tokenMint} failed with status ${response.status}`);
+        return [];
+      }
+
+      const data = await response.json();
+      if (!Array.isArray(data)) {
+        return [];
+      }
+      return data
+        .map(toCandle)
+        .filter((candle): candle is PriceCandle => candle !== null)
+        .sort((a, b) => a.timestamp - b.timestamp);
+    } catch (error: any) {
+      console.error(`❌ Error fetching price history for ${tokenMint}:`, error.message);
+      return [];
+    }
+  }
+}
+
+function toCandle(item: any): PriceCandle | null {
+  const candle = {
+    // The API reports candle times in seconds
+    timestamp: Number(item?.timestamp) * 1000,
+    open: Number(item?.open),
+    high: Number(item?.high),
+    low: Number(item?.low),
+    close: Number(item?.close),
+    volume: Number(item?.volume) || 0,
+  };
+  const prices = [candle.open, candle.high, candle.low, candle.close];
+  if (!Number.isFinite(candle.timestamp) || prices.some(price => !Number.isFinite(price) || price <= 0)) {
+    return null;
+  }
+  return candle;
+}
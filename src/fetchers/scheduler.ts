@@ -0,0 +1,330 @@
+import { Connection, FetchFn } from '@solana/web3.js';
+import { Config } from '../utils/config';
+import { BackoffOptions, getBackoffDelay } from '../utils/backoff';
+
+export interface FetchSchedulerOptions {
+  // Used in logs, e.g. "rpc" or "jupiter"
+  name: string;
+  // Max tasks in flight at once
+  concurrency: number;
+  // Token bucket refill rate (requests per second) and size (max burst)
+  ratePerSecond: number;
+  burst?: number;
+  // Retries for rate limited (429) and transient network errors
+  maxRetries?: number;
+  backoff?: BackoffOptions;
+  // Tasks still queued after this long are dropped (0 = never)
+  staleAfterMs?: number;
+}
+
+export interface ScheduleOptions {
+  // Higher runs first; equal priorities run in FIFO order
+  priority?: number;
+  // Overrides the scheduler's staleAfterMs for this task (0 = never stale)
+  staleAfterMs?: number;
+}
+
+export interface FetchSchedulerStats {
+  queued: number;
+  active: number;
+  completed: number;
+  failed: number;
+  retried: number;
+  rateLimited: number;
+  droppedStale: number;
+}
+
+// Thrown for HTTP 429 responses so the scheduler can honor Retry-After
+export class RateLimitError extends Error {
+  retryAfterMs?: number;
+
+  constructor(message: string, retryAfterMs?: number) {
+    super(message);
+    this.name = 'RateLimitError';
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+// Thrown for server errors from clients whose error shape isTransientError doesn't recognize
+export class TransientError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TransientError';
+  }
+}
+
+// Rejection for tasks that waited in the queue longer than their staleAfterMs
+export class StaleTaskError extends Error {
+  constructor(name: string) {
+    super(`${name} task dropped as stale`);
+    this.name = 'StaleTaskError';
+  }
+}
+
+interface QueuedTask {
+  run: () => Promise<unknown>;
+  resolve: (value: any) => void;
+  reject: (error: unknown) => void;
+  priority: number;
+  sequence: number;
+  enqueuedAt: number;
+  staleAfterMs: number;
+  attempt: number;
+}
+
+/**
+ * Runs async tasks (RPC/API calls) with bounded concurrency, a token-bucket rate limit,
+ * priority ordering and retries with backoff that honor 429 Retry-After.
+ */
+export class FetchScheduler {
+  private options: Required<FetchSchedulerOptions>;
+  private queue: QueuedTask[] = [];
+  private active: number = 0;
+  private tokens: number;
+  private lastRefill: number = Date.now();
+  private sequence: number = 0;
+  // Set after a 429 so nothing is sent until the upstream's Retry-After has passed
+  private pausedUntil: number = 0;
+  private wakeTimeout: NodeJS.Timeout | null = null;
+  private stats: FetchSchedulerStats = {
+    queued: 0,
+    active: 0,
+    completed: 0,
+    failed: 0,
+    retried: 0,
+    rateLimited: 0,
+    droppedStale: 0,
+  };
+
+  constructor(options: FetchSchedulerOptions) {
+    this.options = {
+      burst: Math.max(1, Math.ceil(options.ratePerSecond)),
+      maxRetries: 3,
+      backoff: { baseMs: 500, maxMs: 30000 },
+      staleAfterMs: 0,
+      ...options,
+    };
+    this.tokens = this.options.burst;
+  }
+
+  /**
+   * Queues a task; resolves with its result, or rejects with its last error
+   * (or a StaleTaskError if it waited too long to start)
+   */
+  schedule<T>(task: () => Promise<T>, options: ScheduleOptions = {}): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      this.enqueue({
+        run: task,
+        resolve,
+        reject,
+        priority: options.priority ?? 0,
+        sequence: this.sequence++,
+        enqueuedAt: Date.now(),
+        staleAfterMs: options.staleAfterMs ?? this.options.staleAfterMs,
+        attempt: 0,
+      });
+    });
+  }
+
+  getStats(): FetchSchedulerStats {
+    return { ...this.stats, queued: this.queue.length, active: this.active };
+  }
+
+  // Rejects everything still queued, e.g. on shutdown
+  clear(): void {
+    if (this.wakeTimeout) {
+      clearTimeout(this.wakeTimeout);
+      this.wakeTimeout = null;
+    }
+    const queued = this.queue;
+    this.queue = [];
+    queued.forEach(task => task.reject(new Error(`${this.options.name} scheduler cleared`)));
+  }
+
+  private enqueue(task: QueuedTask): void {
+    // Keep the queue sorted by priority (desc), then sequence (asc)
+    let index = this.queue.length;
+    while (index > 0 && this.comesBefore(task, this.queue[index - 1])) {
+      index--;
+    }
+    this.queue.splice(index, 0, task);
+    this.pump();
+  }
+
+  private comesBefore(a: QueuedTask, b: QueuedTask): boolean {
+    return a.priority > b.priority || (a.priority === b.priority && a.sequence < b.sequence);
+  }
+
+  private pump(): void {
+    while (this.queue.length > 0 && this.active < this.options.concurrency) {
+      const now = Date.now();
+      const task = this.queue[0];
+
+      // Retries keep their place; only first attempts can go stale
+      if (task.attempt === 0 && task.staleAfterMs > 0 && now - task.enqueuedAt > task.staleAfterMs) {
+        this.queue.shift();
+        this.stats.droppedStale++;
+        task.reject(new StaleTaskError(this.options.name));
+        continue;
+      }
+
+      if (now < this.pausedUntil) {
+        this.wakeAfter(this.pausedUntil - now);
+        return;
+      }
+
+      this.refill(now);
+      if (this.tokens < 1) {
+        this.wakeAfter(Math.ceil(((1 - this.tokens) / this.options.ratePerSecond) * 1000));
+        return;
+      }
+
+      this.tokens--;
+      this.queue.shift();
+      this.execute(task);
+    }
+  }
+
+  private refill(now: number): void {
+    const elapsed = (now - this.lastRefill) / 1000;
+    this.tokens = Math.min(this.options.burst, this.tokens + elapsed * this.options.ratePerSecond);
+    this.lastRefill = now;
+  }
+
+  private wakeAfter(delayMs: number): void {
+    if (this.wakeTimeout) {
+      return;
+    }
+    this.wakeTimeout = setTimeout(() => {
+      this.wakeTimeout = null;
+      this.pump();
+    }, delayMs);
+  }
+
+  private async execute(task: QueuedTask): Promise<void> {
+    this.active++;
+    try {
+      const result = await task.run();
+      this.stats.completed++;
+      task.resolve(result);
+    } catch (error) {
+      this.handleFailure(task, error);
+    } finally {
+      this.active--;
+      this.pump();
+    }
+  }
+
+  private handleFailure(task: QueuedTask, error: unknown): void {
+    const rateLimited = isRateLimitError(error);
+    if (rateLimited) {
+      this.stats.rateLimited++;
+    }
+
+    if (!(rateLimited || isTransientError(error)) || task.attempt >= this.options.maxRetries) {
+      this.stats.failed++;
+      task.reject(error);
+      return;
+    }
+
+    task.attempt++;
+    this.stats.retried++;
+    const delay = getRetryAfterMs(error) ?? getBackoffDelay(task.attempt, this.options.backoff);
+
+    // Back off the whole scheduler on 429s, not just this task
+    if (rateLimited) {
+      this.pausedUntil = Math.max(this.pausedUntil, Date.now() + delay);
+    }
+
+    setTimeout(() => this.enqueue(task), delay);
+  }
+}
+
+export interface FetchSchedulers {
+  rpc: FetchScheduler;
+  jupiter: FetchScheduler;
+  birdeye: FetchScheduler;
+  dexScreener: FetchScheduler;
+  pumpFun: FetchScheduler;
+}
+
+/**
+ * One scheduler per upstream API, sized from config
+ */
+export function createFetchSchedulers(config: Config): FetchSchedulers {
+  return {
+    rpc: new FetchScheduler({
+      name: 'rpc',
+      concurrency: config.fetchConcurrency,
+      ratePerSecond: config.rpcRateLimit,
+      // Live signatures are useless once the migration alert would be late anyway
+      staleAfterMs: 30000,
+    }),
+    jupiter: new FetchScheduler({ name: 'jupiter', concurrency: 2, ratePerSecond: config.jupiterRateLimit }),
+    birdeye: new FetchScheduler({ name: 'birdeye', concurrency: 1, ratePerSecond: config.birdeyeRateLimit }),
+    dexScreener: new FetchScheduler({ name: 'dexscreener', concurrency: 2, ratePerSecond: config.dexScreenerRateLimit }),
+    pumpFun: new FetchScheduler({ name: 'pumpfun', concurrency: 1, ratePerSecond: config.pumpFunRateLimit }),
+  };
+}
+
+/**
+ * A Connection that leaves 429 handling to the scheduler (web3.js would otherwise retry on its own)
+ */
+export function createRpcConnection(url: string): Connection {
+  const rateLimitAwareFetch = async (input: any, init?: any) => {
+    const response = await fetch(input, init);
+    if (response.status === 429) {
+      throw new RateLimitError(`429 Too Many Requests from ${new URL(response.url || input).host}`, parseRetryAfter(response.headers.get('retry-after')));
+    }
+    return response;
+  };
+
+  return new Connection(url, {
+    commitment: 'confirmed',
+    disableRetryOnRateLimit: true,
+    fetch: rateLimitAwareFetch as unknown as FetchFn,
+  });
+}
+
+// Retry-After is either delay-seconds or an HTTP date
+export function parseRetryAfter(value: string | null | undefined): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+  const seconds = Number(value);
+  if (!isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(value);
+  return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+export function isRateLimitError(error: any): boolean {
+  if (error instanceof RateLimitError || error?.response?.status === 429) {
+    return true;
+  }
+  // Only a leading status code: signatures, slots and amounts in other messages can contain "429"
+  const message = String(error?.message || '');
+  return /^429\b/.test(message) || message.includes('Too Many Requests');
+}
+
+// Network failures and 5xx responses, worth retrying (possibly on another endpoint)
+export function isTransientError(error: any): boolean {
+  if (error instanceof TransientError || error?.response?.status >= 500) {
+    return true;
+  }
+  const code = error?.code || error?.cause?.code;
+  if (['ECONNREFUSED', 'ECONNRESET', 'ENOTFOUND', 'ETIMEDOUT', 'ECONNABORTED'].includes(code)) {
+    return true;
+  }
+  const message = String(error?.message || '');
+  return message.includes('fetch failed') || message.includes('ECONNREFUSED') ||
+    message.includes('ENOTFOUND') || message.includes('ETIMEDOUT') || /^5\d\d\b/.test(message);
+}
+
+function getRetryAfterMs(error: any): number | undefined {
+  if (error instanceof RateLimitError) {
+    return error.retryAfterMs;
+  }
+  return parseRetryAfter(error?.response?.headers?.['retry-after']);
+}
@@ -1,14 +1,21 @@
 import axios from 'axios';
 import { Connection, PublicKey } from '@solana/web3.js';
 import { TokenData } from '../types';
+import { FetchScheduler, FetchSchedulers } from './scheduler';
 
 export class TokenDataFetcher {
   private connection: Connection;
   private birdeyeApiKey?: string;
+  private schedulers: Partial<FetchSchedulers>;
 
-  constructor(rpcUrl: string = 'https://api.mainnet-beta.solana.com', birdeyeApiKey?: string) {
+  constructor(
+    rpcUrl: string = 'https://api.mainnet-beta.solana.com',
+    birdeyeApiKey?: string,
+    schedulers: Partial<FetchSchedulers> = {}
+  ) {
     this.connection = new Connection(rpcUrl, 'confirmed');
     this.birdeyeApiKey = birdeyeApiKey;
+    this.schedulers = schedulers;
   }
 
   async fetchTokenData(mintAddress: string): Promise<TokenData | null> {
@@ -51,9 +58,9 @@ export class TokenDataFetcher {
 
       // Try to fetch metadata from Jupiter token list or other sources
       try {
-        const response = await axios.get(`https://token.jup.ag/strict`, {
+        const response = await this.throttle(this.schedulers.jupiter, () => axios.get(`https://token.jup.ag/strict`, {
           timeout: 5000,
-        });
+        }));
         const token = response.data.find((t: any) => t.address === mintAddress);
         if (token) {
           return {
@@ -70,7 +77,7 @@ export class TokenDataFetcher {
       // Try Birdeye API if available
       if (this.birdeyeApiKey) {
         try {
-          const response = await axios.get(
+          const response = await this.throttle(this.schedulers.birdeye, () => axios.get(
             `https://public-api.birdeye.so/defi/token_overview?address=${mintAddress}`,
             {
               headers: {
@@ -78,7 +85,7 @@ export class TokenDataFetcher {
               },
               timeout: 5000,
             }
-          );
+          ));
           const data = response.data?.data;
           if (data) {
             return {
@@ -113,7 +120,7 @@ export class TokenDataFetcher {
     // Try Birdeye API first
     if (this.birdeyeApiKey) {
       try {
-        const response = await axios.get(
+        const response = await this.throttle(this.schedulers.birdeye, () => axios.get(
           `https://public-api.birdeye.so/defi/price?address=${mintAddress}`,
           {
             headers: {
@@ -121,7 +128,7 @@ export class TokenDataFetcher {
             },
             timeout: 5000,
           }
-        );
+        ));
         const data = response.data?.data;
         if (data) {
           return {
@@ -137,12 +144,12 @@ export class TokenDataFetcher {
 
     // Try Jupiter price API
     try {
-      const response = await axios.get(
+      const response = await this.throttle(this.schedulers.jupiter, () => axios.get(
         `https://price.jup.ag/v4/price?ids=${mintAddress}`,
         {
           timeout: 5000,
         }
-      );
+      ));
       const priceData = response.data?.data?.[mintAddress];
       if (priceData) {
         return {
@@ -155,12 +162,12 @@ export class TokenDataFetcher {
 
     // Try DexScreener as fallback
     try {
-      const response = await axios.get(
+      const response = await this.throttle(this.schedulers.dexScreener, () => axios.get(
         `https://api.dexscreener.com/latest/dex/tokens/${mintAddress}`,
         {
           timeout: 5000,
         }
-      );
+      ));
       const pairs = response.data?.pairs;
       if (pairs && pairs.length > 0) {
         const pair = pairs[0];
@@ -176,11 +183,9 @@ export class TokenDataFetcher {
 
     return {};
   }
-}
-
-
-
-
-
-
 
+  // Runs an API call through its rate-limited scheduler when one is configured
+  private throttle<T>(scheduler: FetchScheduler | undefined, request: () => Promise<T>): Promise<T> {
+    return scheduler ? scheduler.schedule(request) : request();
+  }
+}
@@ -0,0 +1,189 @@
+import { AlertFilters } from '../types';
+import { JupiterTokenData } from '../detectors/migration';
+import { assessRisk, isRiskLevel, RISK_LEVEL_RANK } from '../risk/assessment';
+
+const ORGANIC_LABEL_RANK: Record<string, number> = {
+  low: 1,
+  medium: 2,
+  high: 3,
+};
+
+const NUMERIC_FILTERS: Record<string, keyof AlertFilters> = {
+  min_mcap: 'minMcap',
+  min_liquidity: 'minLiquidity',
+  min_holders: 'minHolders',
+  min_organic_score: 'minOrganicScore',
+};
+
+export const FILTER_USAGE =
+  'Usage:\n' +
+  '/filter min_mcap <usd>\n' +
+  '/filter min_liquidity <usd>\n' +
+  '/filter min_holders <count>\n' +
+  '/filter min_organic_score <score>\n' +
+  '/filter organic_label <low|medium|high>\n' +
+  '/filter max_risk <low|medium|high>\n' +
+  '/filter <name> off - remove a filter\n' +
+  '/filter clear - remove all filters';
+
+export type FilterCommandResult =
+  | { ok: true; filters: AlertFilters; message: string }
+  | { ok: false; message: string };
+
+/**
+ * Applies a `/filter <name> <value>` command to the current filters.
+ * Returns the updated filters or a message explaining what was wrong.
+ */
+export function applyFilterCommand(current: AlertFilters, args: string): FilterCommandResult {
+  const [name, value] = args.trim().split(/\s+/);
+  const filterName = (name || '').toLowerCase();
+
+  if (filterName === 'clear') {
+    return { ok: true, filters: {}, message: 'All filters cleared.' };
+  }
+
+  if (!filterName || value === undefined) {
+    return { ok: false, message: FILTER_USAGE };
+  }
+
+  const filters: AlertFilters = { ...current };
+  const isOff = value.toLowerCase() === 'off';
+
+  if (filterName === 'organic_label') {
+    if (isOff) {
+      delete filters.organicLabel;
+      return { ok: true, filters, message: 'organic_label filter removed.' };
+    }
+    const label = value.toLowerCase();
+    if (!hasOwn(ORGANIC_LABEL_RANK, label)) {
+      return { ok: false, message: 'organic_label must be one of: low, medium, high' };
+    }
+    filters.organicLabel = label as AlertFilters['organicLabel'];
+    return { ok: true, filters, message: `organic_label set to ${label}.` };
+  }
+
+  if (filterName === 'max_risk') {
+    if (isOff) {
+      delete filters.maxRisk;
+      return { ok: true, filters, message: 'max_risk filter removed.' };
+    }
+    const level = value.toLowerCase();
+    if (!isRiskLevel(level)) {
+      return { ok: false, message: 'max_risk must be one of: low, medium, high' };
+    }
+    filters.maxRisk = level;
+    return { ok: true, filters, message: `max_risk set to ${level}.` };
+  }
+
+  const key = hasOwn(NUMERIC_FILTERS, filterName) ? NUMERIC_FILTERS[filterName] : undefined;
+  if (!key) {
+    return { ok: false, message: `Unknown filter "${filterName}".\n\n${FILTER_USAGE}` };
+  }
+
+  if (isOff) {
+    delete filters[key];
+    return { ok: true, filters, message: `${filterName} filter removed.` };
+  }
+
+  const amount = parseFloat(value.replace(/[,_]/g, ''));
+  if (isNaN(amount) || amount < 0) {
+    return { ok: false, message: `${filterName} must be a positive number.` };
+  }
+
+  (filters as Record<string, number>)[key] = amount;
+  return { ok: true, filters, message: `${filterName} set to ${amount.toLocaleString()}.` };
+}
+
+/**
+ * Parses filters written as "min_mcap=50000,max_risk=medium" (the /filter names), e.g. from the environment.
+ * Throws when a filter name or value is invalid.
+ */
+export function parseFilterList(spec: string): AlertFilters {
+  return spec
+    .split(',')
+    .map(entry => entry.trim())
+    .filter(entry => entry.length > 0)
+    .reduce<AlertFilters>((filters, entry) => {
+      const [name, value] = entry.split('=').map(part => part.trim());
+      if (!value) {
+        throw new Error(`Missing value for filter "${name}" (expected ${name}=<value>)`);
+      }
+      const result = applyFilterCommand(filters, `${name} ${value}`);
+      if (!result.ok) {
+        throw new Error(result.message.split('\n')[0]);
+      }
+      return result.filters;
+    }, {});
+}
+
+/**
+ * Checks Jupiter metrics against a chat's filters.
+ * A token without Jupiter data only passes when the chat has no filters.
+ */
+export function matchesFilters(filters: AlertFilters | undefined, jupiterData?: JupiterTokenData | null): boolean {
+  if (!filters || !hasFilters(filters)) {
+    return true;
+  }
+
+  if (!jupiterData) {
+    return false;
+  }
+
+  if (filters.minMcap !== undefined && (jupiterData.mcap || 0) < filters.minMcap) {
+    return false;
+  }
+
+  if (filters.minLiquidity !== undefined && (jupiterData.liquidity || 0) < filters.minLiquidity) {
+    return false;
+  }
+
+  if (filters.minHolders !== undefined && (jupiterData.holderCount || 0) < filters.minHolders) {
+    return false;
+  }
+
+  if (filters.minOrganicScore !== undefined && (jupiterData.organicScore || 0) < filters.minOrganicScore) {
+    return false;
+  }
+
+  if (filters.organicLabel) {
+    const rank = ORGANIC_LABEL_RANK[jupiterData.organicScoreLabel?.toLowerCase() || ''] || 0;
+    if (rank < ORGANIC_LABEL_RANK[filters.organicLabel]) {
+      return false;
+    }
+  }
+
+  if (filters.maxRisk) {
+    // Tokens without audit data can't be verified, so they don't pass a risk filter
+    const risk = assessRisk(jupiterData);
+    if (!risk || RISK_LEVEL_RANK[risk.level] > RISK_LEVEL_RANK[filters.maxRisk]) {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+export function hasFilters(filters: AlertFilters | undefined): boolean {
+  return !!filters && Object.values(filters).some(value => value !== undefined);
+}
+
+export function describeFilters(filters: AlertFilters | undefined): string {
+  if (!filters || !hasFilters(filters)) {
+    return 'Filters: none (all migrations)';
+  }
+
+  const lines: string[] = [];
+  if (filters.minMcap !== undefined) lines.push(`• min_mcap: $${filters.minMcap.toLocaleString()}`);
+  if (filters.minLiquidity !== undefined) lines.push(`• min_liquidity: $${filters.minLiquidity.toLocaleString()}`);
+  if (filters.minHolders !== undefined) lines.push(`• min_holders: ${filters.minHolders.toLocaleString()}`);
+  if (filters.minOrganicScore !== undefined) lines.push(`• min_organic_score: ${filters.minOrganicScore}`);
+  if (filters.organicLabel) lines.push(`• organic_label: ${filters.organicLabel}+`);
+  if (filters.maxRisk) lines.push(`• max_risk: ${filters.maxRisk}`);
+
+  return `Filters:\n${lines.join('\n')}`;
+}
+
+// Filter names and values come from users, so inherited keys like "constructor" must not match
+function hasOwn(object: object, key: string): boolean {
+  return Object.prototype.hasOwnProperty.call(object, key);
+}
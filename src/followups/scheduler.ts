@@ -0,0 +1,151 @@
+import { MigrationDetector, JupiterTokenData } from '../detectors/migration';
+import { TokenDataFetcher } from '../fetchers/tokenData';
+import { TelegramBotHandler } from '../telegram/bot';
+import { FollowUpRecord, FollowUpRepository, MetricsSnapshot } from '../storage/followUps';
+import { MigrationTransaction, SentAlert, TokenData } from '../types';
+import { getBackoffDelay } from '../utils/backoff';
+
+// How often pending follow-ups are checked
+const CHECK_INTERVAL_MS = 10000;
+// Failed follow-ups are retried with backoff, then dropped
+const MAX_ATTEMPTS = 3;
+const RETRY_BACKOFF = { baseMs: 60000, maxMs: 600000 };
+
+/**
+ * Re-fetches price, market cap and liquidity for migrated tokens at the configured
+ * delays and replies to the original alerts with the change since migration.
+ * Pending follow-ups are kept in the repository so they survive a restart, and until they are sent:
+ * due ones wait while delivery is paused, and failed chats are retried a few times.
+ */
+export class FollowUpScheduler {
+  private repository: FollowUpRepository;
+  private migrationDetector: MigrationDetector;
+  private tokenDataFetcher: TokenDataFetcher;
+  private telegramBot: TelegramBotHandler;
+  private delaysMs: number[];
+  private timer: NodeJS.Timeout | null = null;
+  private inProgress: Set<string> = new Set();
+
+  constructor(
+    repository: FollowUpRepository,
+    migrationDetector: MigrationDetector,
+    tokenDataFetcher: TokenDataFetcher,
+    telegramBot: TelegramBotHandler,
+    delaysMs: number[]
+  ) {
+    this.repository = repository;
+    this.migrationDetector = migrationDetector;
+    this.tokenDataFetcher = tokenDataFetcher;
+    this.telegramBot = telegramBot;
+    this.delaysMs = delaysMs;
+  }
+
+  start(): void {
+    if (this.timer || this.delaysMs.length === 0) {
+      return;
+    }
+
+    const pending = this.repository.list().length;
+    if (pending > 0) {
+      console.log(`Restored ${pending} pending follow-ups`);
+    }
+
+    this.timer = setInterval(() => {
+      this.processDue();
+    }, CHECK_INTERVAL_MS);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  schedule(
+    migration: MigrationTransaction,
+    tokenData: TokenData,
+    jupiterData: JupiterTokenData | null | undefined,
+    alerts: SentAlert[]
+  ): void {
+    if (this.delaysMs.length === 0 || alerts.length === 0) {
+      return;
+    }
+
+    const baseline = toSnapshot(tokenData, jupiterData);
+    const records: FollowUpRecord[] = this.delaysMs.map(delayMs => ({
+      id: `${migration.signature}:${delayMs}`,
+      tokenMint: migration.tokenMint,
+      tokenSymbol: tokenData.symbol,
+      migratedAt: migration.timestamp,
+      delayMs,
+      dueAt: migration.timestamp + delayMs,
+      baseline,
+      alerts,
+    }));
+
+    this.repository.add(records);
+  }
+
+  private async processDue(): Promise<void> {
+    // Due follow-ups are sent once /resume is used
+    if (this.telegramBot.isPaused()) {
+      return;
+    }
+
+    const now = Date.now();
+    const due = this.repository
+      .list()
+      .filter(record => record.dueAt <= now && !this.inProgress.has(record.id));
+
+    for (const record of due) {
+      this.inProgress.add(record.id);
+      try {
+        const current = await this.fetchCurrentMetrics(record.tokenMint);
+        const failed = await this.telegramBot.sendFollowUp(record, current);
+        if (failed.length === 0) {
+          this.repository.remove(record.id);
+        } else {
+          this.retryLater(record, failed);
+        }
+      } catch (error) {
+        console.error(`❌ Error sending follow-up for ${record.tokenMint}:`, error);
+        this.retryLater(record, record.alerts);
+      } finally {
+        this.inProgress.delete(record.id);
+      }
+    }
+  }
+
+  // Keeps the follow-up for the chats it failed in, or drops it once it ran out of attempts
+  private retryLater(record: FollowUpRecord, alerts: SentAlert[]): void {
+    const attempts = (record.attempts || 0) + 1;
+    if (attempts >= MAX_ATTEMPTS) {
+      console.warn(`⚠️  Dropping follow-up for ${record.tokenMint} (${alerts.length} chats) after ${attempts} failed attempts`);
+      this.repository.remove(record.id);
+      return;
+    }
+
+    const delay = getBackoffDelay(attempts, RETRY_BACKOFF);
+    console.warn(`⚠️  Follow-up for ${record.tokenMint} failed in ${alerts.length} chats, retrying in ${Math.round(delay / 1000)}s`);
+    this.repository.add([{ ...record, alerts, attempts, dueAt: Date.now() + delay }]);
+  }
+
+  private async fetchCurrentMetrics(tokenMint: string): Promise<MetricsSnapshot> {
+    const jupiterData = await this.migrationDetector.fetchTokenOrganicScore(tokenMint);
+    if (jupiterData && (jupiterData.usdPrice || jupiterData.mcap)) {
+      return toSnapshot(undefined, jupiterData);
+    }
+
+    const tokenData = await this.tokenDataFetcher.fetchTokenData(tokenMint);
+    return toSnapshot(tokenData || undefined, null);
+  }
+}
+
+function toSnapshot(tokenData?: TokenData, jupiterData?: JupiterTokenData | null): MetricsSnapshot {
+  return {
+    price: jupiterData?.usdPrice ?? tokenData?.price,
+    marketCap: jupiterData?.mcap ?? tokenData?.marketCap,
+    liquidity: jupiterData?.liquidity ?? tokenData?.liquidity,
+  };
+}
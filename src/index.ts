@@ -1,11 +1,29 @@
 import { loadConfig, Config } from './utils/config';
-import { HeliusWebSocketClient } from './websocket/helius';
-import { MigrationDetector } from './detectors/migration';
+import { MigrationDetector, JupiterTokenData } from './detectors/migration';
 import { TransactionParser } from './parsers/transaction';
 import { TokenDataFetcher } from './fetchers/tokenData';
+import { PriceHistoryFetcher } from './fetchers/priceHistory';
+import { renderPriceChart } from './charts/priceChart';
+import { createFetchSchedulers, createRpcConnection, isTransientError, StaleTaskError } from './fetchers/scheduler';
 import { TelegramBotHandler } from './telegram/bot';
-import { HeliusWebSocketMessage } from './types';
-import { Connection } from '@solana/web3.js';
+import { JsonSubscriberRepository } from './storage/subscribers';
+import { JsonMigrationRepository } from './storage/migrations';
+import { JsonFollowUpRepository } from './storage/followUps';
+import { FollowUpScheduler } from './followups/scheduler';
+import { JsonPreAlertRepository } from './storage/preAlerts';
+import { BondingCurveWatcher } from './watchers/bondingCurve';
+import { createTransactionSource } from './sources';
+import { fetchSignaturesSinceSlot } from './sources/backfill';
+import { EndpointPool, maskUrl } from './utils/endpoints';
+import { createBotMetrics, registerRuntimeMetrics } from './metrics';
+import { getStageDurations, markStage, startTrace } from './metrics/latency';
+import { HttpServer } from './server/http';
+import { registerHealthRoutes } from './server/health';
+import { registerApiRoutes } from './server/api';
+import { MigrationStream } from './server/stream';
+import { createNotifiers, MigrationEvent, TelegramNotifier } from './notifiers';
+import { LatencyTrace, MigrationTransaction, TokenData } from './types';
+import { Connection, ParsedTransactionWithMeta } from '@solana/web3.js';
 
 async function main() {
   console.log('Starting Pump.fun Migration Telegram Alert Bot...');
@@ -21,264 +39,411 @@ async function main() {
   }
 
   // Initialize components
-  const tokenDataFetcher = new TokenDataFetcher();
-  const transactionParser = new TransactionParser();
-  const migrationDetector = new MigrationDetector(config);
-  const telegramBot = new TelegramBotHandler(config);
+  const metrics = createBotMetrics();
+  const schedulers = createFetchSchedulers(config);
+  const tokenDataFetcher = new TokenDataFetcher(config.solanaRpcUrl, undefined, schedulers);
+  const priceHistoryFetcher = new PriceHistoryFetcher(config.pumpFunApiUrl, schedulers.pumpFun);
+  const transactionParser = new TransactionParser(config.pumpFunAmmProgramId);
+  const migrationDetector = new MigrationDetector(config, schedulers.jupiter);
+  const subscriberRepository = new JsonSubscriberRepository(config.dataDir);
+  const migrationRepository = new JsonMigrationRepository(config.dataDir);
+  const telegramBot = new TelegramBotHandler(config, subscriberRepository, migrationRepository, metrics, migrationDetector);
+  const followUpScheduler = new FollowUpScheduler(
+    new JsonFollowUpRepository(config.dataDir),
+    migrationDetector,
+    tokenDataFetcher,
+    telegramBot,
+    config.followUpDelaysMs
+  );
+  // Telegram plus any configured Discord, Slack and HTTP webhook sinks
+  const telegramNotifier = new TelegramNotifier(telegramBot, followUpScheduler);
+  const notifiers = createNotifiers(config, telegramNotifier, metrics);
+  // The API's live feed receives every migration as one more sink
+  const migrationStream = config.apiKeys.length > 0 ? new MigrationStream(migrationRepository) : null;
+  if (migrationStream) {
+    notifiers.add(migrationStream);
+  }
+  console.log(`Alert sinks: ${notifiers.getNames().join(', ')}`);
 
-  // Track processed transactions to avoid duplicates
-  const processedSignatures = new Set<string>();
+  // Track processed transactions to avoid duplicates (restored from the history store after a restart)
+  const processedSignatures = new Set<string>(migrationRepository.getProcessedSignatures());
   
-  // Rate limiting: track last fetch time and queue
-  let lastFetchTime = 0;
-  const minFetchInterval = 100; // Minimum 100ms between fetches (10 requests/second max)
-  const pendingFetches: Array<{ signature: string; timestamp: number }> = [];
-  let isProcessingQueue = false;
-
-  // Helper function to check if logs indicate a potential migration
-  // Only check for the specific "Instruction: Migrate" log, not fee collection or other migrate-related instructions
-  function hasMigrationIndicators(logs: string[]): boolean {
-    if (!logs || !Array.isArray(logs)) return false;
-    // Only detect the actual migration instruction, not MigrateBondingCurveCreator or CollectCreatorFee
-    return logs.some(log => log.includes('Instruction: Migrate'));
+  // One Connection per RPC endpoint, shared by every fetch
+  const connections = new Map<string, Connection>();
+  // Highest slot seen on the stream, where the gap backfill starts after a reconnect
+  let lastSeenSlot = 0;
+
+  function getConnection(): Connection {
+    const url = rpcEndpoints.current();
+    let connection = connections.get(url);
+    if (!connection) {
+      connection = createRpcConnection(url);
+      connections.set(url, connection);
+    }
+    return connection;
   }
 
-  // Process pending fetches with rate limiting
-  async function processFetchQueue() {
-    if (isProcessingQueue || pendingFetches.length === 0) {
-      return;
-    }
+  // Queue a signature on the RPC scheduler; live signatures jump ahead of backfilled ones and expire after 30s
+  function queueFetch(signature: string, trace: LatencyTrace) {
+    schedulers.rpc.schedule(
+      () => fetchTransaction(signature, trace),
+      trace.backfill ? { priority: BACKFILL_PRIORITY, staleAfterMs: 0 } : { priority: LIVE_PRIORITY }
+    )
+      .then(tx => tx ? processTransaction(tx, signature, trace) : undefined)
+      .catch(error => {
+        // Stale drops are counted by the scheduler
+        if (error instanceof StaleTaskError) {
+          return;
+        }
+        if (processedSignatures.has(signature)) {
+          console.error('❌ Error processing migration transaction:', error);
+        } else {
+          console.warn(`⚠️  Could not fetch transaction ${signature}: ${error?.message || error}`);
+        }
+      });
+  }
 
-    isProcessingQueue = true;
+  // Fetch a single transaction (runs inside the RPC scheduler, which retries 429s and network errors)
+  async function fetchTransaction(signature: string, trace: LatencyTrace): Promise<ParsedTransactionWithMeta | null> {
+    markStage(trace, 'dequeued');
 
-    while (pendingFetches.length > 0) {
-      const now = Date.now();
-      const timeSinceLastFetch = now - lastFetchTime;
-      
-      if (timeSinceLastFetch < minFetchInterval) {
-        await new Promise(resolve => setTimeout(resolve, minFetchInterval - timeSinceLastFetch));
-      }
+    // Avoid processing the same transaction twice
+    if (processedSignatures.has(signature)) {
+      return null;
+    }
 
-      const item = pendingFetches.shift();
-      if (!item) break;
+    const tx = await callRpc(connection => connection.getParsedTransaction(signature, {
+      maxSupportedTransactionVersion: 0,
+      commitment: 'confirmed',
+    }));
+    markStage(trace, 'fetched');
+    return tx;
+  }
 
-      // Skip if too old (older than 30 seconds)
-      if (now - item.timestamp > 30000) {
-        continue;
+  // Run a request on the current RPC endpoint
+  async function callRpc<T>(request: (connection: Connection) => Promise<T>): Promise<T> {
+    try {
+      return await request(getConnection());
+    } catch (error: any) {
+      // Unreachable RPC: fail over to the next configured endpoint before the retry
+      if (isTransientError(error) && rpcEndpoints.size > 1) {
+        console.warn(`⚠️  RPC request failed (${error.message}), switching to ${maskUrl(rpcEndpoints.next())}`);
       }
-
-      lastFetchTime = Date.now();
-      await fetchAndProcessTransaction(item.signature);
+      throw error;
     }
+  }
 
-    isProcessingQueue = false;
+  // Background RPC work (gap backfill, pre-alert mint lookups) uses spare capacity and is never dropped as stale
+  function scheduleRpc<T>(request: (connection: Connection) => Promise<T>): Promise<T> {
+    return schedulers.rpc.schedule(() => callRpc(request), { priority: BACKFILL_PRIORITY, staleAfterMs: 0 });
   }
 
-  // Fetch and process a single transaction
-  async function fetchAndProcessTransaction(signature: string) {
-    try {
-      // Avoid processing the same transaction twice
-      if (processedSignatures.has(signature)) {
-        return;
-      }
+  // Detect, parse, enrich and alert on a single transaction, timing each stage in its trace
+  async function processTransaction(tx: ParsedTransactionWithMeta, signature: string, trace: LatencyTrace) {
+    // Avoid processing the same transaction twice
+    if (processedSignatures.has(signature)) {
+      return;
+    }
 
-      // Fetch the full transaction to check if it's a migration
-      const connection = new Connection(
-        `https://mainnet.helius-rpc.com/?api-key=${config.heliusApiKey}`,
-        'confirmed'
-      );
+    // Check if this is a migration transaction
+    const detection = migrationDetector.detectMigrationFromTransaction(tx, signature);
+
+    if (!detection.isMigration) {
+      return; // Not a migration, skip silently
+    }
 
-      const tx = await connection.getParsedTransaction(signature, {
-        maxSupportedTransactionVersion: 0,
-        commitment: 'confirmed',
+    // Migration detected! Now display logs
+    processedSignatures.add(signature);
+    migrationRepository.markProcessed(signature);
+    metrics.migrationsDetected.inc();
+    markStage(trace, 'detected');
+    if (tx.blockTime) {
+      trace.blockTime = tx.blockTime * 1000;
+    }
+    console.log('\n🚀 ========================================');
+    console.log('🚀 MIGRATION DETECTED!');
+    console.log('🚀 ========================================');
+    console.log(`📋 Transaction Signature: ${signature}`);
+    console.log(`📋 Instructions: ${tx.transaction.message.instructions.length}`);
+    console.log(`📋 Logs count: ${tx.meta?.logMessages?.length || 0}`);
+    
+    if (tx.meta?.logMessages && tx.meta.logMessages.length > 0) {
+      console.log('\n📋 Transaction Logs:');
+      tx.meta.logMessages.forEach((log, index) => {
+        console.log(`   [${index + 1}] ${log}`);
       });
+    }
 
-      if (!tx) {
-        return; // Transaction not found, skip silently
-      }
+    // Parse transaction details
+    const migration = await transactionParser.parseMigrationTransactionFromParsed(
+      tx,
+      detection.tokenMint,
+      signature
+    );
 
-      // Check if this is a migration transaction
-      const detection = migrationDetector.detectMigrationFromTransaction(tx, signature);
+    if (!migration || !migration.tokenMint) {
+      console.warn('⚠️  Could not parse migration transaction');
+      console.log('========================================\n');
+      return;
+    }
 
-      if (!detection.isMigration) {
-        return; // Not a migration, skip silently
-      }
+    console.log(`\n💰 Token Mint: ${migration.tokenMint}`);
 
-      // Migration detected! Now display logs
-      processedSignatures.add(signature);
-      console.log('\n🚀 ========================================');
-      console.log('🚀 MIGRATION DETECTED!');
-      console.log('🚀 ========================================');
-      console.log(`📋 Transaction Signature: ${signature}`);
-      console.log(`📋 Instructions: ${tx.transaction.message.instructions.length}`);
-      console.log(`📋 Logs count: ${tx.meta?.logMessages?.length || 0}`);
-      
-      if (tx.meta?.logMessages && tx.meta.logMessages.length > 0) {
-        console.log('\n📋 Transaction Logs:');
-        tx.meta.logMessages.forEach((log, index) => {
-          console.log(`   [${index + 1}] ${log}`);
-        });
+    // Fetch organic score from Jupiter API
+    const jupiterData = await migrationDetector.fetchTokenOrganicScore(migration.tokenMint);
+    markStage(trace, 'jupiterFetched');
+    if (jupiterData) {
+      console.log(`📊 Organic Score: ${jupiterData.organicScore?.toFixed(2) || 'N/A'} (${jupiterData.organicScoreLabel || 'N/A'})`);
+      if (jupiterData.mcap) {
+        console.log(`💰 Market Cap: $${jupiterData.mcap.toLocaleString()}`);
       }
-
-      // Parse transaction details
-      const migration = await transactionParser.parseMigrationTransactionFromParsed(
-        tx,
-        detection.tokenMint,
-        signature
-      );
-
-      if (!migration || !migration.tokenMint) {
-        console.warn('⚠️  Could not parse migration transaction');
-        console.log('========================================\n');
-        return;
+      if (jupiterData.liquidity) {
+        console.log(`💧 Liquidity: $${jupiterData.liquidity.toLocaleString()}`);
+      }
+      if (jupiterData.holderCount) {
+        console.log(`👥 Holders: ${jupiterData.holderCount}`);
       }
+    } else {
+      console.warn('⚠️  Could not fetch organic score from Jupiter API');
+    }
 
-      console.log(`\n💰 Token Mint: ${migration.tokenMint}`);
+    // Fetch token data while the price chart renders
+    const [tokenData, chartImage] = await Promise.all([
+      tokenDataFetcher.fetchTokenData(migration.tokenMint).then(data => {
+        markStage(trace, 'tokenDataFetched');
+        return data;
+      }),
+      renderChart(migration.tokenMint, trace),
+    ]);
+
+    if (!tokenData) {
+      console.warn(`⚠️  Could not fetch token data for ${migration.tokenMint}`);
+      console.log('📤 Sending alert with basic info...');
+      // Still send alert with basic info
+      const basicTokenData = {
+        mint: migration.tokenMint,
+        name: 'Unknown Token',
+        symbol: 'UNKNOWN',
+        decimals: 9,
+      };
+      saveMigration(migration, basicTokenData, jupiterData, trace);
+      await dispatchAlert({ migration, tokenData: basicTokenData, jupiterData, chartImage }, trace);
+      console.log('✅ Alert sent!');
+      console.log('========================================\n');
+      return;
+    }
 
-      // Fetch organic score from Jupiter API
-      const jupiterData = await migrationDetector.fetchTokenOrganicScore(migration.tokenMint);
-      if (jupiterData) {
-        console.log(`📊 Organic Score: ${jupiterData.organicScore?.toFixed(2) || 'N/A'} (${jupiterData.organicScoreLabel || 'N/A'})`);
-        if (jupiterData.mcap) {
-          console.log(`💰 Market Cap: $${jupiterData.mcap.toLocaleString()}`);
-        }
-        if (jupiterData.liquidity) {
-          console.log(`💧 Liquidity: $${jupiterData.liquidity.toLocaleString()}`);
-        }
-        if (jupiterData.holderCount) {
-          console.log(`👥 Holders: ${jupiterData.holderCount}`);
-        }
-      } else {
-        console.warn('⚠️  Could not fetch organic score from Jupiter API');
-      }
+    // Update migration with token info
+    migration.tokenName = tokenData.name;
+    migration.tokenSymbol = tokenData.symbol;
 
-      // Fetch token data
-      const tokenData = await tokenDataFetcher.fetchTokenData(migration.tokenMint);
-
-      if (!tokenData) {
-        console.warn(`⚠️  Could not fetch token data for ${migration.tokenMint}`);
-        console.log('📤 Sending alert with basic info...');
-        // Still send alert with basic info
-        await telegramBot.sendMigrationAlert(migration, {
-          mint: migration.tokenMint,
-          name: 'Unknown Token',
-          symbol: 'UNKNOWN',
-          decimals: 9,
-        }, jupiterData);
-        console.log('✅ Alert sent!');
-        console.log('========================================\n');
-        return;
-      }
+    console.log(`📊 Token: ${tokenData.name} (${tokenData.symbol})`);
+    console.log(`📤 Sending alert...`);
+    console.log('========================================\n');
 
-      // Update migration with token info
-      migration.tokenName = tokenData.name;
-      migration.tokenSymbol = tokenData.symbol;
+    saveMigration(migration, tokenData, jupiterData, trace);
 
-      console.log(`📊 Token: ${tokenData.name} (${tokenData.symbol})`);
-      console.log(`📤 Sending alert...`);
-      console.log('========================================\n');
+    // Send the alert to every sink (Telegram also schedules the post-migration performance follow-ups)
+    await dispatchAlert({ migration, tokenData, jupiterData, chartImage }, trace);
 
-      // Send Telegram alert with Jupiter data
-      await telegramBot.sendMigrationAlert(migration, tokenData, jupiterData);
+    // Clean up old processed signatures (keep last 1000)
+    if (processedSignatures.size > 1000) {
+      const signaturesArray = Array.from(processedSignatures);
+      const toRemove = signaturesArray.slice(0, signaturesArray.length - 1000);
+      toRemove.forEach(sig => processedSignatures.delete(sig));
+    }
+  }
 
-      // Clean up old processed signatures (keep last 1000)
-      if (processedSignatures.size > 1000) {
-        const signaturesArray = Array.from(processedSignatures);
-        const toRemove = signaturesArray.slice(0, signaturesArray.length - 1000);
-        toRemove.forEach(sig => processedSignatures.delete(sig));
-      }
-    } catch (error: any) {
-      // Handle rate limiting errors gracefully
-      if (error?.message?.includes('429') || error?.message?.includes('Too Many Requests')) {
-        // Re-add to queue with delay (silently)
-        setTimeout(() => {
-          if (!processedSignatures.has(signature)) {
-            pendingFetches.push({ signature, timestamp: Date.now() });
-            processFetchQueue();
-          }
-        }, 2000);
-        return;
+  // Draw the bonding curve price history up to migration, if enabled and available
+  async function renderChart(tokenMint: string, trace: LatencyTrace): Promise<Buffer | undefined> {
+    if (!config.alertCharts) {
+      return undefined;
+    }
+
+    try {
+      const candles = await priceHistoryFetcher.fetchCandles(tokenMint);
+      const chart = renderPriceChart(candles);
+      markStage(trace, 'chartRendered');
+      if (!chart) {
+        console.warn(`⚠️  Not enough price history to chart ${tokenMint}, sending text alert`);
       }
-      // Only log errors for detected migrations
-      if (processedSignatures.has(signature)) {
-        console.error('❌ Error processing migration transaction:', error);
+      return chart || undefined;
+    } catch (error) {
+      console.error(`❌ Error rendering price chart for ${tokenMint}:`, error);
+      return undefined;
+    }
+  }
+
+  // Send to every sink; the trace completes once Telegram is done, not after the webhook sinks' retries
+  async function dispatchAlert(event: MigrationEvent, trace: LatencyTrace) {
+    await notifiers.dispatch(event, notifier => {
+      if (notifier === telegramNotifier.name) {
+        completeTrace(event.migration.signature, trace);
       }
+    });
+  }
+
+  // Mark the alert as delivered, store the finished trace and feed the latency histogram
+  function completeTrace(signature: string, trace: LatencyTrace) {
+    markStage(trace, 'sent');
+    migrationRepository.updateTrace(signature, trace);
+
+    if (trace.backfill) {
+      return;
     }
+    const durations = getStageDurations(trace);
+    (Object.keys(durations) as Array<keyof typeof durations>).forEach(segment => {
+      metrics.latency.observe({ stage: segment }, durations[segment]! / 1000);
+    });
+  }
+
+  // Save a detected migration to the history store
+  function saveMigration(
+    migration: MigrationTransaction,
+    tokenData: TokenData,
+    jupiterData: JupiterTokenData | null,
+    trace: LatencyTrace
+  ) {
+    migrationRepository.save({
+      migration,
+      tokenData,
+      jupiterData,
+      recordedAt: Date.now(),
+      trace: { ...trace, stages: { ...trace.stages } },
+    });
   }
 
-  // Initialize WebSocket client
-  const wsClient = new HeliusWebSocketClient(config, async (message: HeliusWebSocketMessage) => {
+  // After a reconnect, queue the migration authority's signatures since the last slot seen on the stream.
+  // Listing the whole pump.fun program would fetch every trade in the gap on the shared RPC budget.
+  async function backfillGap() {
+    if (config.backfillMaxSignatures === 0 || lastSeenSlot === 0) {
+      return;
+    }
+
     try {
-      // Handle log notifications - extract transaction signature
-      let signature: string | undefined;
-      let logs: string[] = [];
-      
-      if (message.method === 'logsNotification') {
-        // Extract signature and logs from log notification
-        const result = (message.params?.result as any);
-        
-        if (result?.value?.signature) {
-          signature = result.value.signature;
-          logs = result.value.logs || [];
-        } else if (result?.signature) {
-          signature = result.signature;
-          logs = result.logs || [];
-        } else {
-          // Logs notification structure may vary, try alternative paths
-          const value = result?.value || result;
-          signature = value?.signature;
-          logs = value?.logs || [];
-        }
-      } else if (message.params?.result?.transaction) {
-        // Handle full transaction notification
-        const tx = message.params.result.transaction;
-        signature = tx.transaction?.signatures?.[0];
+      const signatures = await scheduleRpc(connection => fetchSignaturesSinceSlot(
+        connection,
+        config.pumpFunMigrationAccount,
+        lastSeenSlot,
+        config.backfillMaxSignatures
+      ));
+      const missed = signatures.filter(signature => !processedSignatures.has(signature));
+
+      console.log(`🔁 Backfilling ${missed.length} migration authority signatures since slot ${lastSeenSlot}`);
+      if (signatures.length >= config.backfillMaxSignatures) {
+        console.warn(`⚠️  Backfill capped at ${config.backfillMaxSignatures} signatures, older ones were skipped`);
       }
 
-      if (!signature) {
-        return; // No signature found, skip silently
-      }
+      // Logs aren't available here, so every signature goes through the normal fetch queue
+      missed.forEach(signature => queueFetch(signature, startTrace(true)));
+    } catch (error: any) {
+      console.error('❌ Gap backfill failed:', error.message || error);
+    }
+  }
+
+  // Stream pump.fun transactions from the configured provider
+  const transactionSource = createTransactionSource(config, {
+    onSignature: (signature, logs, slot) => {
+      const trace = startTrace();
+      lastSeenSlot = Math.max(lastSeenSlot, slot);
+      metrics.notifications.inc({ type: 'signature' });
 
       // Pre-filter: Only queue transactions that might be migrations based on logs
-      if (logs.length > 0) {
-        const hasIndicators = hasMigrationIndicators(logs);
-        if (!hasIndicators) {
-          return; // Skip silently if no migration indicators
-        }
+      if (logs.length > 0 && !migrationDetector.hasMigrationIndicators(logs)) {
+        metrics.preFilter.inc({ result: 'skipped' });
+        return; // Skip silently if no migration indicators
       }
+      metrics.preFilter.inc({ result: 'passed' });
 
       // Add to queue for processing with rate limiting
-      pendingFetches.push({ signature, timestamp: Date.now() });
-      
-      // Process queue if not already processing
-      processFetchQueue();
-    } catch (error) {
-      console.error('❌ Error handling WebSocket message:', error);
-    }
-  });
+      queueFetch(signature, trace);
+    },
+    onTransaction: (tx, signature) => {
+      const trace = startTrace();
+      lastSeenSlot = Math.max(lastSeenSlot, tx.slot || 0);
+      metrics.notifications.inc({ type: 'transaction' });
+
+      // Full transaction pushed, run the detector directly instead of fetching it
+      if (!migrationDetector.hasMigrationIndicators(tx.meta?.logMessages || [])) {
+        metrics.preFilter.inc({ result: 'skipped' });
+        return; // Skip silently if no migration indicators
+      }
+      metrics.preFilter.inc({ result: 'passed' });
 
-  // Connect to WebSocket
-  wsClient.connect();
+      processTransaction(tx, signature, trace).catch(error => {
+        console.error('❌ Error processing migration transaction:', error);
+      });
+    },
+    onReconnect: () => {
+      backfillGap();
+    },
+  });
+  const rpcEndpoints = new EndpointPool(transactionSource.rpcUrls);
+  registerRuntimeMetrics(metrics, transactionSource, schedulers);
+
+  // Expose /metrics and /healthz for monitoring, the Telegram webhook in webhook mode and the API when keys are set
+  const httpServer = config.httpPort > 0 ? new HttpServer(config.httpPort, config.httpHost) : null;
+  if (httpServer) {
+    registerHealthRoutes(httpServer, metrics, transactionSource);
+    if (migrationStream) {
+      registerApiRoutes(httpServer, migrationRepository, migrationStream, config.apiKeys);
+    }
+    if (config.telegramMode === 'webhook') {
+      telegramBot.registerWebhook(httpServer);
+    }
+  }
 
-  // Handle graceful shutdown
-  process.on('SIGINT', () => {
-    console.log('\nShutting down...');
-    wsClient.disconnect();
-    telegramBot.stopPolling();
-    process.exit(0);
+  // Watch bonding curves for "about to graduate" pre-alerts
+  const bondingCurveWatcher = config.preAlertThreshold > 0
+    ? new BondingCurveWatcher(config, new JsonPreAlertRepository(config.dataDir), scheduleRpc, async (alert) => {
+      try {
+        console.log(`⏳ Bonding curve ${alert.bondingCurve} at ${alert.progress.toFixed(1)}% (${alert.tokenMint})`);
+        const jupiterData = await migrationDetector.fetchTokenOrganicScore(alert.tokenMint);
+        await telegramBot.sendPreAlert(alert, jupiterData);
+      } catch (error) {
+        console.error('❌ Error sending pre-alert:', error);
+      }
+    })
+    : null;
+
+  // Connect to the transaction stream
+  console.log(`Using transaction source: ${transactionSource.name}`);
+  transactionSource.connect();
+  httpServer?.start().then(() => {
+    if (config.telegramMode === 'webhook') {
+      telegramBot.setWebhook().catch(error => {
+        console.error('❌ Failed to set Telegram webhook:', error.message || error);
+      });
+    }
+  }, error => {
+    console.error('❌ Failed to start HTTP server:', error.message || error);
   });
+  bondingCurveWatcher?.start();
+  followUpScheduler.start();
 
-  process.on('SIGTERM', () => {
+  // Handle graceful shutdown (waits for the webhook to be removed before exiting)
+  const shutdown = async () => {
     console.log('\nShutting down...');
-    wsClient.disconnect();
-    telegramBot.stopPolling();
+    transactionSource.disconnect();
+    httpServer?.stop();
+    bondingCurveWatcher?.stop();
+    followUpScheduler.stop();
+    await telegramBot.stop();
+    subscriberRepository.flush();
+    migrationRepository.flush();
     process.exit(0);
-  });
+  };
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
 
   // Keep process alive
   console.log('Bot is running. Press Ctrl+C to stop.');
 }
 
+// Scheduler priorities: fresh stream events first, gap backfill when there's spare capacity
+const LIVE_PRIORITY = 1;
+const BACKFILL_PRIORITY = 0;
+
 // Start the bot
 main().catch((error) => {
   console.error('Fatal error:', error);
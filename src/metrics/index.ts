@@ -0,0 +1,63 @@
+import { FetchSchedulers } from '../fetchers/scheduler';
+import { TransactionSource } from '../sources';
+import { Counter, Histogram, MetricsRegistry } from './registry';
+
+export { MetricsRegistry } from './registry';
+
+// Seconds; alerts normally land within a few seconds of the notification
+const LATENCY_BUCKETS = [0.1, 0.25, 0.5, 1, 2, 5, 10, 30, 60];
+
+export interface BotMetrics {
+  registry: MetricsRegistry;
+  // Stream events by kind ("signature" = logs only, "transaction" = full transaction pushed)
+  notifications: Counter;
+  // Notifications that passed / were skipped by the migration log pre-filter
+  preFilter: Counter;
+  migrationsDetected: Counter;
+  // Telegram deliveries per chat and status ("sent" | "failed")
+  alerts: Counter;
+  // Alerts per notifier sink and status ("sent" | "failed" | "filtered")
+  notifierDeliveries: Counter;
+  // Seconds spent per pipeline stage (see metrics/latency.ts), plus "chain" and "total"
+  latency: Histogram;
+}
+
+export function createBotMetrics(): BotMetrics {
+  const registry = new MetricsRegistry();
+  return {
+    registry,
+    notifications: registry.counter('pump_bot_notifications_total', 'Notifications received from the transaction source'),
+    preFilter: registry.counter('pump_bot_prefilter_total', 'Notifications by migration pre-filter result'),
+    migrationsDetected: registry.counter('pump_bot_migrations_detected_total', 'Migrations detected'),
+    alerts: registry.counter('pump_bot_alerts_total', 'Migration alerts delivered per chat'),
+    notifierDeliveries: registry.counter('pump_bot_notifier_deliveries_total', 'Migration alerts handed to each notifier sink'),
+    latency: registry.histogram('pump_bot_latency_seconds', 'Seconds spent reaching each alert pipeline stage', LATENCY_BUCKETS),
+  };
+}
+
+/**
+ * Scrape-time metrics read from the transaction source and fetch schedulers
+ */
+export function registerRuntimeMetrics(
+  metrics: BotMetrics,
+  source: TransactionSource,
+  schedulers: FetchSchedulers
+): void {
+  const { registry } = metrics;
+  const perScheduler = (read: (name: keyof FetchSchedulers) => number) => () =>
+    (Object.keys(schedulers) as Array<keyof FetchSchedulers>).map(name => ({ labels: { scheduler: name }, value: read(name) }));
+  const stats = (name: keyof FetchSchedulers) => schedulers[name].getStats();
+
+  registry.gauge('pump_bot_source_connected', 'Whether the transaction source is connected (1) or not (0)', () => [
+    { labels: { source: source.name }, value: source.isConnected() ? 1 : 0 },
+  ]);
+  registry.gauge('pump_bot_source_reconnect_attempts', 'Reconnection attempts since the source was last connected', () => [
+    { labels: { source: source.name }, value: source.getHealth().reconnectAttempts },
+  ]);
+  registry.gauge('pump_bot_fetch_queue_depth', 'Requests waiting in each fetch scheduler', perScheduler(name => stats(name).queued));
+  registry.gauge('pump_bot_fetch_active', 'Requests in flight per fetch scheduler', perScheduler(name => stats(name).active));
+  registry.counter('pump_bot_fetch_errors_total', 'Requests that failed after retries', perScheduler(name => stats(name).failed));
+  registry.counter('pump_bot_fetch_rate_limited_total', 'HTTP 429 responses', perScheduler(name => stats(name).rateLimited));
+  registry.counter('pump_bot_fetch_retries_total', 'Retried requests', perScheduler(name => stats(name).retried));
+  registry.counter('pump_bot_fetch_dropped_stale_total', 'Requests dropped after waiting too long in the queue', perScheduler(name => stats(name).droppedStale));
+}
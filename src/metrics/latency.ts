@@ -0,0 +1,103 @@
+import { LatencyStage, LatencyTrace } from '../types';
+
+export const LATENCY_STAGES: LatencyStage[] = [
+  'received',
+  'dequeued',
+  'fetched',
+  'detected',
+  'jupiterFetched',
+  'tokenDataFetched',
+  'chartRendered',
+  'sent',
+];
+
+// 'chain' = block time to notification, 'total' = notification to Telegram delivery
+export type LatencySegment = LatencyStage | 'chain' | 'total';
+
+export interface LatencySummary {
+  segment: LatencySegment;
+  count: number;
+  p50: number;
+  p90: number;
+  p99: number;
+}
+
+export function startTrace(backfill: boolean = false): LatencyTrace {
+  return { ...(backfill ? { backfill } : {}), stages: { received: Date.now() } };
+}
+
+// Records when a stage was first reached; retries don't move it
+export function markStage(trace: LatencyTrace, stage: LatencyStage, at: number = Date.now()): void {
+  if (trace.stages[stage] === undefined) {
+    trace.stages[stage] = at;
+  }
+}
+
+/**
+ * Milliseconds spent reaching each stage from the previous one that was recorded,
+ * plus the chain-to-notification and end-to-end totals
+ */
+export function getStageDurations(trace: LatencyTrace): Partial<Record<LatencySegment, number>> {
+  const durations: Partial<Record<LatencySegment, number>> = {};
+  const { stages } = trace;
+  let previous: number | undefined;
+
+  for (const stage of LATENCY_STAGES) {
+    const at = stages[stage];
+    if (at === undefined) {
+      continue;
+    }
+    if (previous !== undefined) {
+      durations[stage] = Math.max(0, at - previous);
+    }
+    previous = at;
+  }
+
+  if (trace.blockTime && stages.received !== undefined) {
+    durations.chain = Math.max(0, stages.received - trace.blockTime);
+  }
+  if (stages.received !== undefined && stages.sent !== undefined) {
+    durations.total = stages.sent - stages.received;
+  }
+  return durations;
+}
+
+/**
+ * p50/p90/p99 per segment over live (non-backfilled) traces
+ */
+export function summarizeLatency(traces: LatencyTrace[]): LatencySummary[] {
+  const samples = new Map<LatencySegment, number[]>();
+  traces
+    .filter(trace => !trace.backfill)
+    .forEach(trace => {
+      const durations = getStageDurations(trace);
+      (Object.keys(durations) as LatencySegment[]).forEach(segment => {
+        const values = samples.get(segment) || [];
+        values.push(durations[segment]!);
+        samples.set(segment, values);
+      });
+    });
+
+  const order: LatencySegment[] = ['chain', ...LATENCY_STAGES, 'total'];
+  return order
+    .filter(segment => samples.has(segment))
+    .map(segment => {
+      const values = samples.get(segment)!.sort((a, b) => a - b);
+      return {
+        segment,
+        count: values.length,
+        p50: percentile(values, 50),
+        p90: percentile(values, 90),
+        p99: percentile(values, 99),
+      };
+    });
+}
+
+// Nearest-rank percentile of an ascending list
+export function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) {
+    return 0;
+  }
+  const rank = Math.ceil((p / 100) * sorted.length);
+  return sorted[Math.min(sorted.length, Math.max(rank, 1)) - 1];
+}
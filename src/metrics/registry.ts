@@ -0,0 +1,173 @@
+export type Labels = Record<string, string | number>;
+
+export interface Sample {
+  labels?: Labels;
+  value: number;
+}
+
+type MetricType = 'counter' | 'gauge' | 'histogram';
+
+/**
+ * Base for metrics kept in memory. Values are keyed by their label set;
+ * `collect` metrics are read from elsewhere (e.g. scheduler stats) at scrape time instead.
+ */
+abstract class Metric {
+  readonly name: string;
+  readonly help: string;
+  abstract readonly type: MetricType;
+  protected values = new Map<string, { labels: Labels; value: number }>();
+  private collect?: () => Sample[];
+
+  constructor(name: string, help: string, collect?: () => Sample[]) {
+    this.name = name;
+    this.help = help;
+    this.collect = collect;
+  }
+
+  get(labels: Labels = {}): number {
+    return this.values.get(labelKey(labels))?.value ?? 0;
+  }
+
+  // Sum across all label sets, optionally only those matching `filter`
+  total(filter: Labels = {}): number {
+    const samples = this.collect ? this.collect() : Array.from(this.values.values());
+    return samples
+      .filter(sample => Object.keys(filter).every(name => String(sample.labels?.[name]) === String(filter[name])))
+      .reduce((sum, sample) => sum + sample.value, 0);
+  }
+
+  render(): string[] {
+    const samples = this.collect ? this.collect() : Array.from(this.values.values());
+    return samples.map(sample => `${this.name}${formatLabels(sample.labels || {})} ${formatValue(sample.value)}`);
+  }
+
+  protected update(labels: Labels, apply: (value: number) => number): void {
+    const key = labelKey(labels);
+    const current = this.values.get(key);
+    this.values.set(key, { labels: current?.labels ?? labels, value: apply(current?.value ?? 0) });
+  }
+}
+
+export class Counter extends Metric {
+  readonly type = 'counter';
+
+  inc(labels: Labels = {}, amount: number = 1): void {
+    this.update(labels, value => value + amount);
+  }
+}
+
+export class Gauge extends Metric {
+  readonly type = 'gauge';
+
+  set(labels: Labels, value: number): void {
+    this.update(labels, () => value);
+  }
+}
+
+export class Histogram {
+  readonly name: string;
+  readonly help: string;
+  readonly type = 'histogram';
+  private buckets: number[];
+  private series = new Map<string, { labels: Labels; counts: number[]; sum: number; count: number }>();
+
+  constructor(name: string, help: string, buckets: number[]) {
+    this.name = name;
+    this.help = help;
+    this.buckets = [...buckets].sort((a, b) => a - b);
+  }
+
+  observe(labels: Labels, value: number): void {
+    const key = labelKey(labels);
+    let series = this.series.get(key);
+    if (!series) {
+      series = { labels, counts: this.buckets.map(() => 0), sum: 0, count: 0 };
+      this.series.set(key, series);
+    }
+    this.buckets.forEach((bound, index) => {
+      if (value <= bound) {
+        series!.counts[index]++;
+      }
+    });
+    series.sum += value;
+    series.count++;
+  }
+
+  render(): string[] {
+    const lines: string[] = [];
+    for (const { labels, counts, sum, count } of this.series.values()) {
+      this.buckets.forEach((bound, index) => {
+        lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: bound })} ${counts[index]}`);
+      });
+      lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${count}`);
+      lines.push(`${this.name}_sum${formatLabels(labels)} ${formatValue(sum)}`);
+      lines.push(`${this.name}_count${formatLabels(labels)} ${count}`);
+    }
+    return lines;
+  }
+}
+
+/**
+ * Minimal Prometheus registry rendering the text exposition format
+ */
+export class MetricsRegistry {
+  private metrics: Array<Metric | Histogram> = [];
+
+  counter(name: string, help: string, collect?: () => Sample[]): Counter {
+    return this.register(new Counter(name, help, collect));
+  }
+
+  gauge(name: string, help: string, collect?: () => Sample[]): Gauge {
+    return this.register(new Gauge(name, help, collect));
+  }
+
+  histogram(name: string, help: string, buckets: number[]): Histogram {
+    return this.register(new Histogram(name, help, buckets));
+  }
+
+  // Sum of a counter or gauge by name (0 when it isn't registered)
+  total(name: string, filter: Labels = {}): number {
+    const metric = this.metrics.find(existing => existing.name === name);
+    return metric instanceof Metric ? metric.total(filter) : 0;
+  }
+
+  render(): string {
+    const lines: string[] = [];
+    for (const metric of this.metrics) {
+      lines.push(`# HELP ${metric.name} ${metric.help}`);
+      lines.push(`# TYPE ${metric.name} ${metric.type}`);
+      lines.push(...metric.render());
+    }
+    return `${lines.join('\n')}\n`;
+  }
+
+  private register<T extends Metric | Histogram>(metric: T): T {
+    if (this.metrics.some(existing => existing.name === metric.name)) {
+      throw new Error(`Metric ${metric.name} is already registered`);
+    }
+    this.metrics.push(metric);
+    return metric;
+  }
+}
+
+function labelKey(labels: Labels): string {
+  return Object.keys(labels).sort().map(name => `${name}=${labels[name]}`).join(',');
+}
+
+function formatLabels(labels: Labels): string {
+  const names = Object.keys(labels);
+  if (names.length === 0) {
+    return '';
+  }
+  const pairs = names.map(name => {
+    const value = String(labels[name]).replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"');
+    return `${name}="${value}"`;
+  });
+  return `{${pairs.join(',')}}`;
+}
+
+function formatValue(value: number): string {
+  if (value === Infinity) return '+Inf';
+  if (value === -Infinity) return '-Inf';
+  return String(value);
+}
@@ -0,0 +1,55 @@
+import axios from 'axios';
+import { getTokenLinks } from '../telegram/keyboard';
+import { getAlertFields, getRiskColor } from './format';
+import { MigrationEvent, Notifier } from './index';
+
+// Discord caps embed titles at 256 characters
+const MAX_NAME_LENGTH = 100;
+const CHART_FILENAME = 'chart.png';
+
+/**
+ * Discord webhook: one embed per alert, colored by risk level, with the price chart as its image
+ */
+export class DiscordNotifier implements Notifier {
+  readonly name = 'discord';
+  private webhookUrl: string;
+
+  constructor(webhookUrl: string) {
+    this.webhookUrl = webhookUrl;
+  }
+
+  async notify(event: MigrationEvent): Promise<void> {
+    const payload = buildDiscordPayload(event);
+    if (!event.chartImage) {
+      await axios.post(this.webhookUrl, payload, { timeout: 10000 });
+      return;
+    }
+
+    // The chart is uploaded with the message and referenced from the embed as an attachment
+    const form = new FormData();
+    form.append('payload_json', JSON.stringify(payload));
+    form.append('files[0]', new Blob([event.chartImage], { type: 'image/png' }), CHART_FILENAME);
+    await axios.post(this.webhookUrl, form, { timeout: 10000 });
+  }
+}
+
+export function buildDiscordPayload(event: MigrationEvent): Record<string, any> {
+  const { migration, tokenData } = event;
+  const links = getTokenLinks(migration).map(link => `[${link.label}](${link.url})`).join(' • ');
+
+  return {
+    username: 'Pump.fun Migration Alert',
+    // Token names are user-chosen, so never let them ping anyone
+    allowed_mentions: { parse: [] },
+    embeds: [{
+      title: `🚀 ${tokenData.name.slice(0, MAX_NAME_LENGTH)} (${tokenData.symbol.slice(0, MAX_NAME_LENGTH)}) migrated`,
+      url: migration.transactionUrl,
+      description: `**Contract:** \`${migration.tokenMint}\`\n\n${links}`,
+      color: getRiskColor(event),
+      fields: getAlertFields(event).map(field => ({ name: field.name, value: field.value, inline: !field.wide })),
+      ...(event.chartImage ? { image: { url: `attachment://${CHART_FILENAME}` } } : {}),
+      footer: { text: 'pump.fun migration' },
+      timestamp: new Date(migration.timestamp).toISOString(),
+    }],
+  };
+}
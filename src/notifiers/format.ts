@@ -0,0 +1,86 @@
+import { assessRisk, getRiskEmoji } from '../risk/assessment';
+import { getTokenLinks } from '../telegram/keyboard';
+import { formatPoolSeeded, getScoreEmoji } from '../templates';
+import { RiskLevel } from '../types';
+import { MigrationEvent } from './index';
+
+export interface AlertField {
+  name: string;
+  // Markdown shared by Discord and Slack (only `code` spans)
+  value: string;
+  // Long values (addresses, warnings) get a full-width row instead of a column
+  wide?: boolean;
+}
+
+// Embed colors per risk level, and for tokens without audit data
+const RISK_COLORS: Record<RiskLevel | 'unknown', number> = {
+  low: 0x2ecc71,
+  medium: 0xf1c40f,
+  high: 0xe74c3c,
+  unknown: 0x5865f2,
+};
+
+/**
+ * The alert's metrics as name/value pairs, for sinks that lay out their own message (Discord, Slack)
+ */
+export function getAlertFields(event: MigrationEvent): AlertField[] {
+  const { migration, tokenData, jupiterData } = event;
+  const fields: AlertField[] = [];
+
+  if (jupiterData) {
+    fields.push({
+      name: `${getScoreEmoji(jupiterData.organicScoreLabel)} Organic Score`,
+      value: `${jupiterData.organicScore?.toFixed(2) || 'N/A'} (${jupiterData.organicScoreLabel || 'N/A'})`,
+    });
+    if (jupiterData.mcap) {
+      fields.push({ name: '💰 Market Cap', value: formatUsd(jupiterData.mcap) });
+    }
+    if (jupiterData.liquidity) {
+      fields.push({ name: '💧 Liquidity', value: formatUsd(jupiterData.liquidity) });
+    }
+    if (jupiterData.holderCount) {
+      fields.push({ name: '👥 Holders', value: jupiterData.holderCount.toLocaleString() });
+    }
+  }
+
+  if (migration.liquidityPool) {
+    fields.push({ name: '🏊 Pool', value: `\`${migration.liquidityPool}\``, wide: true });
+  }
+  const poolSeeded = formatPoolSeeded(migration, tokenData);
+  if (poolSeeded) {
+    fields.push({ name: '🌱 Pool Seeded', value: poolSeeded, wide: true });
+  }
+
+  const risk = assessRisk(jupiterData);
+  if (risk) {
+    fields.push({
+      name: `${getRiskEmoji(risk.level)} Risk: ${risk.level.toUpperCase()}`,
+      value: risk.flags.length > 0 ? risk.flags.map(flag => `⚠️ ${flag.message}`).join('\n') : 'No warnings',
+      wide: true,
+    });
+  }
+
+  return fields;
+}
+
+/**
+ * The migration as plain JSON, shared by the generic webhook and the REST API
+ */
+export function toMigrationResource(event: MigrationEvent): Record<string, any> {
+  const { migration, tokenData, jupiterData } = event;
+  return {
+    migration,
+    token: tokenData,
+    jupiter: jupiterData,
+    risk: assessRisk(jupiterData),
+    links: getTokenLinks(migration),
+  };
+}
+
+export function getRiskColor(event: MigrationEvent): number {
+  return RISK_COLORS[assessRisk(event.jupiterData)?.level || 'unknown'];
+}
+
+function formatUsd(value: number): string {
+  return `$${value.toLocaleString(undefined, { maximumFractionDigits: 2 })}`;
+}
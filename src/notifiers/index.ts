@@ -0,0 +1,114 @@
+import { JupiterTokenData } from '../detectors/migration';
+import { isRateLimitError, isTransientError, parseRetryAfter } from '../fetchers/scheduler';
+import { matchesFilters } from '../filters/alertFilters';
+import { BotMetrics } from '../metrics';
+import { MigrationTransaction, TokenData } from '../types';
+import { getBackoffDelay } from '../utils/backoff';
+import { Config, NotifierConfig } from '../utils/config';
+import { DiscordNotifier } from './discord';
+import { SlackNotifier } from './slack';
+import { HttpWebhookNotifier } from './webhook';
+
+export { TelegramNotifier } from './telegram';
+
+// Longest wait between two delivery attempts to the same sink
+const MAX_RETRY_DELAY_MS = 60000;
+// Local sinks (e.g. the API stream) get every migration and can't fail transiently
+const UNFILTERED: NotifierConfig = { url: '', filters: {}, retries: 0, retryDelayMs: 0 };
+
+export interface MigrationEvent {
+  migration: MigrationTransaction;
+  tokenData: TokenData;
+  jupiterData: JupiterTokenData | null;
+  // Bonding curve price chart (PNG), when one was rendered
+  chartImage?: Buffer;
+}
+
+export interface Notifier {
+  readonly name: string;
+  // Delivers one migration alert; throws on failure so the dispatcher can retry
+  notify(event: MigrationEvent): Promise<void>;
+}
+
+interface NotifierSink {
+  notifier: Notifier;
+  config: NotifierConfig;
+}
+
+/**
+ * Sends each migration to every sink in parallel, applying the sink's own filters and retry policy.
+ * Network errors, 429s (honoring Retry-After) and 5xx responses are retried; other failures are logged.
+ */
+export class NotifierDispatcher {
+  private sinks: NotifierSink[] = [];
+  private metrics?: BotMetrics;
+
+  constructor(metrics?: BotMetrics) {
+    this.metrics = metrics;
+  }
+
+  add(notifier: Notifier, config: NotifierConfig = UNFILTERED): void {
+    this.sinks.push({ notifier, config });
+  }
+
+  getNames(): string[] {
+    return this.sinks.map(sink => sink.notifier.name);
+  }
+
+  // `onDone` is called as each sink finishes (sent, failed or filtered), without waiting for slower sinks' retries
+  async dispatch(event: MigrationEvent, onDone?: (notifier: string) => void): Promise<void> {
+    await Promise.allSettled(this.sinks.map(async sink => {
+      await this.deliver(sink, event);
+      onDone?.(sink.notifier.name);
+    }));
+  }
+
+  private async deliver(sink: NotifierSink, event: MigrationEvent): Promise<void> {
+    const { notifier, config } = sink;
+    if (!matchesFilters(config.filters, event.jupiterData)) {
+      this.metrics?.notifierDeliveries.inc({ notifier: notifier.name, status: 'filtered' });
+      return;
+    }
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        await notifier.notify(event);
+        this.metrics?.notifierDeliveries.inc({ notifier: notifier.name, status: 'sent' });
+        return;
+      } catch (error: any) {
+        const retryable = isRateLimitError(error) || isTransientError(error);
+        if (!retryable || attempt > config.retries) {
+          console.error(`❌ ${notifier.name} notification failed for ${event.migration.tokenMint}:`, error?.message || error);
+          this.metrics?.notifierDeliveries.inc({ notifier: notifier.name, status: 'failed' });
+          return;
+        }
+
+        const delay = parseRetryAfter(error?.response?.headers?.['retry-after'])
+          ?? getBackoffDelay(attempt, { baseMs: config.retryDelayMs, maxMs: MAX_RETRY_DELAY_MS });
+        console.warn(`⚠️  ${notifier.name} notification failed (${error?.message || error}), retrying in ${delay}ms`);
+        await new Promise(resolve => setTimeout(resolve, delay));
+      }
+    }
+  }
+}
+
+/**
+ * Creates the dispatcher with the Telegram sink plus every webhook sink that has a URL configured
+ */
+export function createNotifiers(config: Config, telegram: Notifier, metrics?: BotMetrics): NotifierDispatcher {
+  const { notifiers } = config;
+  const dispatcher = new NotifierDispatcher(metrics);
+
+  dispatcher.add(telegram, notifiers.telegram);
+  if (notifiers.discord.url) {
+    dispatcher.add(new DiscordNotifier(notifiers.discord.url), notifiers.discord);
+  }
+  if (notifiers.slack.url) {
+    dispatcher.add(new SlackNotifier(notifiers.slack.url), notifiers.slack);
+  }
+  if (notifiers.webhook.url) {
+    dispatcher.add(new HttpWebhookNotifier(notifiers.webhook.url, config.alertWebhookSecret), notifiers.webhook);
+  }
+
+  return dispatcher;
+}
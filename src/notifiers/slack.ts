@@ -0,0 +1,57 @@
+import axios from 'axios';
+import { getTokenLinks } from '../telegram/keyboard';
+import { getAlertFields } from './format';
+import { MigrationEvent, Notifier } from './index';
+
+// Slack caps header blocks at 150 characters
+const MAX_HEADER_LENGTH = 150;
+
+/**
+ * Slack incoming webhook: Block Kit message with the metrics as fields and links in the footer.
+ * Incoming webhooks can't upload files, so the price chart is not included.
+ */
+export class SlackNotifier implements Notifier {
+  readonly name = 'slack';
+  private webhookUrl: string;
+
+  constructor(webhookUrl: string) {
+    this.webhookUrl = webhookUrl;
+  }
+
+  async notify(event: MigrationEvent): Promise<void> {
+    await axios.post(this.webhookUrl, buildSlackPayload(event), { timeout: 10000 });
+  }
+}
+
+export function buildSlackPayload(event: MigrationEvent): Record<string, any> {
+  const { migration, tokenData } = event;
+  const title = `🚀 ${tokenData.name} (${tokenData.symbol}) migrated on pump.fun`;
+  const fields = getAlertFields(event);
+  const columns = fields.filter(field => !field.wide);
+  const links = [...getTokenLinks(migration), { label: '🔗 Solscan', url: migration.transactionUrl }];
+
+  return {
+    // Shown in notifications and clients without Block Kit
+    text: escapeMrkdwn(title),
+    blocks: [
+      { type: 'header', text: { type: 'plain_text', text: title.slice(0, MAX_HEADER_LENGTH), emoji: true } },
+      {
+        type: 'section',
+        text: { type: 'mrkdwn', text: `*Contract:* \`${migration.tokenMint}\`` },
+        ...(columns.length > 0 ? { fields: columns.map(field => ({ type: 'mrkdwn', text: `*${field.name}*\n${field.value}` })) } : {}),
+      },
+      ...fields
+        .filter(field => field.wide)
+        .map(field => ({ type: 'section', text: { type: 'mrkdwn', text: `*${field.name}*\n${field.value}` } })),
+      {
+        type: 'context',
+        elements: [{ type: 'mrkdwn', text: links.map(link => `<${link.url}|${link.label}>`).join(' • ') }],
+      },
+    ],
+  };
+}
+
+// Slack mrkdwn treats &, < and > as control characters
+function escapeMrkdwn(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
@@ -0,0 +1,23 @@
+import { FollowUpScheduler } from '../followups/scheduler';
+import { TelegramBotHandler } from '../telegram/bot';
+import { MigrationEvent, Notifier } from './index';
+
+/**
+ * Sends alerts to subscribed Telegram chats (each with its own filters) and schedules follow-ups as replies
+ */
+export class TelegramNotifier implements Notifier {
+  readonly name = 'telegram';
+  private bot: TelegramBotHandler;
+  private followUps: FollowUpScheduler;
+
+  constructor(bot: TelegramBotHandler, followUps: FollowUpScheduler) {
+    this.bot = bot;
+    this.followUps = followUps;
+  }
+
+  async notify(event: MigrationEvent): Promise<void> {
+    const { migration, tokenData, jupiterData, chartImage } = event;
+    const sentAlerts = await this.bot.sendMigrationAlert(migration, tokenData, jupiterData, chartImage);
+    this.followUps.schedule(migration, tokenData, jupiterData, sentAlerts);
+  }
+}
@@ -0,0 +1,49 @@
+import axios from 'axios';
+import * as crypto from 'crypto';
+import { toMigrationResource } from './format';
+import { MigrationEvent, Notifier } from './index';
+
+export const SIGNATURE_HEADER = 'x-webhook-signature';
+export const TIMESTAMP_HEADER = 'x-webhook-timestamp';
+// The migration's transaction signature, the same across retries so receivers can deduplicate
+export const DELIVERY_ID_HEADER = 'x-webhook-id';
+
+/**
+ * Generic JSON POST webhook. When a secret is set, each request is signed with HMAC-SHA256
+ * over "<timestamp>.<body>" (see signWebhookPayload) so receivers can verify and reject replays.
+ */
+export class HttpWebhookNotifier implements Notifier {
+  readonly name = 'webhook';
+  private url: string;
+  private secret: string;
+
+  constructor(url: string, secret: string) {
+    this.url = url;
+    this.secret = secret;
+  }
+
+  async notify(event: MigrationEvent): Promise<void> {
+    // Signed exactly as sent, so the body is serialized here rather than by axios
+    const body = JSON.stringify(buildWebhookPayload(event));
+    const timestamp = String(Math.floor(Date.now() / 1000));
+    const headers: Record<string, string> = {
+      'content-type': 'application/json',
+      [TIMESTAMP_HEADER]: timestamp,
+      [DELIVERY_ID_HEADER]: event.migration.signature,
+    };
+    if (this.secret) {
+      headers[SIGNATURE_HEADER] = signWebhookPayload(this.secret, timestamp, body);
+    }
+
+    await axios.post(this.url, body, { timeout: 10000, headers });
+  }
+}
+
+export function buildWebhookPayload(event: MigrationEvent): Record<string, any> {
+  return { event: 'migration', ...toMigrationResource(event) };
+}
+
+// "sha256=<hex HMAC-SHA256 of `${timestamp}.${body}`>"
+export function signWebhookPayload(secret: string, timestamp: string, body: string): string {
+  return `sha256=${crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`;
+}
@@ -1,7 +1,14 @@
 import { MigrationTransaction } from '../types';
 import { ParsedTransactionWithMeta, PublicKey } from '@solana/web3.js';
+import { decodeCreatePoolInstruction, getPoolDeposit, PUMP_SWAP_PROGRAM_ID } from '../decoders/pumpSwap';
 
 export class TransactionParser {
+  private ammProgramId: string;
+
+  constructor(ammProgramId: string = PUMP_SWAP_PROGRAM_ID) {
+    this.ammProgramId = ammProgramId;
+  }
+
   async parseMigrationTransactionFromParsed(
     tx: ParsedTransactionWithMeta,
     tokenMint: string | undefined,
@@ -21,11 +28,13 @@ export class TransactionParser {
       return null;
     }
 
-    // Extract liquidity pool address
-    const liquidityPool = this.extractLiquidityPool(tx);
+    // Decode the AMM pool creation to get the pool address and the amounts deposited into it
+    const createPool = decodeCreatePoolInstruction(tx, this.ammProgramId);
+    const liquidityPool = createPool?.accounts.pool;
+    const deposit = createPool ? getPoolDeposit(tx, createPool) : {};
 
-    // Extract SOL amount transferred
-    const solAmount = this.extractSolAmount(tx.meta);
+    // SOL seeded into the pool, falling back to the total SOL transferred
+    const solAmount = deposit.quoteAmount ?? this.extractSolAmount(tx.meta);
 
     // Build transaction URL
     const transactionUrl = `https://solscan.io/tx/${signature}`;
@@ -36,6 +45,8 @@ export class TransactionParser {
       timestamp,
       liquidityPool,
       solAmount,
+      poolBaseAmount: deposit.baseAmount,
+      poolQuoteAmount: deposit.quoteAmount,
       transactionUrl,
     };
   }
@@ -111,33 +122,6 @@ export class TransactionParser {
     return undefined;
   }
 
-  private extractLiquidityPool(tx: ParsedTransactionWithMeta): string | undefined {
-    const logMessages = tx.meta?.logMessages || [];
-    
-    // Look for pool address in logs
-    for (const log of logMessages) {
-      // Try to extract address from log messages
-      const addressMatch = log.match(/[1-9A-HJ-NP-Za-km-z]{32,44}/);
-      if (addressMatch) {
-        const address = addressMatch[0];
-        try {
-          new PublicKey(address);
-          // This could be a pool address
-          return address;
-        } catch {
-          // Not a valid public key
-        }
-      }
-    }
-
-    // Check account keys for potential pool addresses
-    const accountKeys = tx.transaction.message.accountKeys.map(key =>
-      typeof key === 'string' ? key : key.pubkey.toString()
-    );
-    // Pool addresses are typically in specific positions, but this is heuristic
-    return undefined;
-  }
-
   private extractSolAmount(meta: any): number | undefined {
     if (!meta) {
       return undefined;
@@ -0,0 +1,298 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { Connection } from '@solana/web3.js';
+import { loadConfig, Config, getRpcEndpoints } from '../utils/config';
+import { MigrationDetector } from '../detectors/migration';
+import { TransactionParser } from '../parsers/transaction';
+import { TokenDataFetcher } from '../fetchers/tokenData';
+import { assessRisk } from '../risk/assessment';
+import { loadTransactionsFromDirectory, fetchProgramSignatures, fetchTransactions, ReplayTransaction } from './sources';
+
+interface ReplayOptions {
+  dir?: string;
+  signatures: string[];
+  before?: string;
+  until?: string;
+  limit: number;
+  enrich: boolean;
+  onlyMigrations: boolean;
+  out?: string;
+}
+
+export interface ReplayResult {
+  signature: string;
+  source: string;
+  slot?: number;
+  blockTime?: number | null;
+  found: boolean;
+  failed: boolean;
+  passesPreFilter: boolean;
+  isMigration: boolean;
+  tokenMint?: string;
+  liquidityPool?: string;
+  solAmount?: number;
+  transactionUrl?: string;
+  tokenName?: string;
+  tokenSymbol?: string;
+  organicScore?: number;
+  organicScoreLabel?: string;
+  mcap?: number;
+  liquidity?: number;
+  holderCount?: number;
+  riskLevel?: string;
+}
+
+const USAGE = `
+Replay saved or historical transactions through the migration detector and parser.
+Nothing is sent to Telegram and no WebSocket is opened.
+
+Usage:
+  npm run replay -- --dir <path>                 Replay saved getParsedTransaction JSON files
+  npm run replay -- --signatures <sig,sig,...>   Fetch and replay specific signatures
+  npm run replay -- --limit <n> [--before <sig>] [--until <sig>]
+                                                 Fetch and replay a range of pump.fun program signatures
+
+Options:
+  --enrich            Also fetch Jupiter and token data for detected migrations
+  --only-migrations   Only print/export transactions detected as migrations
+  --out <file>        Export results to a .json or .csv file
+`.trim();
+
+function parseArgs(argv: string[]): ReplayOptions | null {
+  const options: ReplayOptions = {
+    signatures: [],
+    limit: 0,
+    enrich: false,
+    onlyMigrations: false,
+  };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    const next = () => {
+      const value = argv[++i];
+      if (value === undefined) {
+        throw new Error(`Missing value for ${arg}`);
+      }
+      return value;
+    };
+
+    switch (arg) {
+      case '--dir':
+        options.dir = next();
+        break;
+      case '--signatures':
+        options.signatures.push(...next().split(',').map(sig => sig.trim()).filter(sig => sig.length > 0));
+        break;
+      case '--before':
+        options.before = next();
+        break;
+      case '--until':
+        options.until = next();
+        break;
+      case '--limit':
+        options.limit = parseInt(next());
+        break;
+      case '--enrich':
+        options.enrich = true;
+        break;
+      case '--only-migrations':
+        options.onlyMigrations = true;
+        break;
+      case '--out':
+        options.out = next();
+        break;
+      case '--help':
+      case '-h':
+        return null;
+      default:
+        throw new Error(`Unknown argument: ${arg}`);
+    }
+  }
+
+  if (!options.dir && options.signatures.length === 0 && !(options.limit > 0)) {
+    return null;
+  }
+
+  return options;
+}
+
+async function loadTransactions(options: ReplayOptions, config: Config): Promise<ReplayTransaction[]> {
+  if (options.dir) {
+    return loadTransactionsFromDirectory(options.dir);
+  }
+
+  const connection = new Connection(getRpcEndpoints(config).rpcUrls[0], 'confirmed');
+  let signatures = options.signatures;
+
+  if (signatures.length === 0) {
+    console.log(`Fetching up to ${options.limit} pump.fun program signatures...`);
+    signatures = await fetchProgramSignatures(connection, config.pumpFunProgramId, {
+      before: options.before,
+      until: options.until,
+      limit: options.limit,
+    });
+  }
+
+  console.log(`Fetching ${signatures.length} transactions...`);
+  return fetchTransactions(connection, signatures);
+}
+
+async function replayTransaction(
+  item: ReplayTransaction,
+  migrationDetector: MigrationDetector,
+  transactionParser: TransactionParser,
+  tokenDataFetcher: TokenDataFetcher | null
+): Promise<ReplayResult> {
+  const { tx, signature } = item;
+  const result: ReplayResult = {
+    signature,
+    source: item.source,
+    slot: tx?.slot,
+    blockTime: tx?.blockTime,
+    found: !!tx,
+    failed: !!tx?.meta?.err,
+    passesPreFilter: migrationDetector.hasMigrationIndicators(tx?.meta?.logMessages || []),
+    isMigration: false,
+  };
+
+  if (!tx) {
+    return result;
+  }
+
+  const detection = migrationDetector.detectMigrationFromTransaction(tx, signature);
+  result.isMigration = detection.isMigration;
+  if (!detection.isMigration) {
+    return result;
+  }
+
+  const migration = await transactionParser.parseMigrationTransactionFromParsed(tx, detection.tokenMint, signature);
+  result.tokenMint = migration?.tokenMint || detection.tokenMint;
+  result.liquidityPool = migration?.liquidityPool;
+  result.solAmount = migration?.solAmount;
+  result.transactionUrl = migration?.transactionUrl;
+
+  if (tokenDataFetcher && result.tokenMint) {
+    const jupiterData = await migrationDetector.fetchTokenOrganicScore(result.tokenMint);
+    const tokenData = await tokenDataFetcher.fetchTokenData(result.tokenMint);
+    result.tokenName = tokenData?.name || jupiterData?.name;
+    result.tokenSymbol = tokenData?.symbol || jupiterData?.symbol;
+    result.organicScore = jupiterData?.organicScore;
+    result.organicScoreLabel = jupiterData?.organicScoreLabel;
+    result.mcap = jupiterData?.mcap;
+    result.liquidity = jupiterData?.liquidity;
+    result.holderCount = jupiterData?.holderCount;
+    result.riskLevel = assessRisk(jupiterData)?.level;
+  }
+
+  return result;
+}
+
+function printResult(result: ReplayResult): void {
+  if (!result.found) {
+    console.log(`❔ ${result.signature} - transaction not found`);
+    return;
+  }
+
+  if (!result.isMigration) {
+    const note = result.passesPreFilter ? ' (passed log pre-filter)' : '';
+    console.log(`   ${result.signature} - not a migration${note}`);
+    return;
+  }
+
+  console.log(`🚀 ${result.signature} - MIGRATION`);
+  console.log(`   Token Mint: ${result.tokenMint || 'N/A'}`);
+  console.log(`   Pool: ${result.liquidityPool || 'N/A'}`);
+  if (result.solAmount !== undefined) {
+    console.log(`   SOL: ${result.solAmount}`);
+  }
+  if (result.tokenSymbol) {
+    console.log(`   Token: ${result.tokenName} (${result.tokenSymbol})`);
+  }
+  if (result.organicScore !== undefined) {
+    console.log(`   Organic Score: ${result.organicScore.toFixed(2)} (${result.organicScoreLabel || 'N/A'})`);
+  }
+  if (result.mcap) {
+    console.log(`   Market Cap: $${result.mcap.toLocaleString()}`);
+  }
+  if (result.riskLevel) {
+    console.log(`   Risk: ${result.riskLevel}`);
+  }
+}
+
+function exportResults(results: ReplayResult[], outPath: string): void {
+  fs.mkdirSync(path.dirname(path.resolve(outPath)), { recursive: true });
+
+  if (outPath.endsWith('.csv')) {
+    const columns: Array<keyof ReplayResult> = [
+      'signature', 'slot', 'blockTime', 'found', 'failed', 'passesPreFilter', 'isMigration',
+      'tokenMint', 'liquidityPool', 'solAmount', 'tokenName', 'tokenSymbol',
+      'organicScore', 'organicScoreLabel', 'mcap', 'liquidity', 'holderCount', 'riskLevel', 'source',
+    ];
+    const escape = (value: unknown) => {
+      const str = value === undefined || value === null ? '' : String(value);
+      return /[",\n]/.test(str) ? `"${str.replace(/"/g, '""')}"` : str;
+    };
+    const lines = [
+      columns.join(','),
+      ...results.map(result => columns.map(column => escape(result[column])).join(',')),
+    ];
+    fs.writeFileSync(outPath, lines.join('\n') + '\n');
+  } else {
+    fs.writeFileSync(outPath, JSON.stringify(results, null, 2));
+  }
+
+  console.log(`Exported ${results.length} results to ${outPath}`);
+}
+
+async function main() {
+  let options: ReplayOptions | null;
+  try {
+    options = parseArgs(process.argv.slice(2));
+  } catch (error: any) {
+    console.error(error.message);
+    console.log(`\n${USAGE}`);
+    process.exit(1);
+  }
+
+  if (!options) {
+    console.log(USAGE);
+    return;
+  }
+
+  // Offline replay only needs an RPC for fetching and Jupiter for enrichment
+  const config = loadConfig({
+    requireTelegram: false,
+    requireHelius: !options.dir,
+    requireJupiter: options.enrich,
+  });
+
+  const migrationDetector = new MigrationDetector(config);
+  const transactionParser = new TransactionParser(config.pumpFunAmmProgramId);
+  const tokenDataFetcher = options.enrich ? new TokenDataFetcher(config.solanaRpcUrl) : null;
+
+  const transactions = await loadTransactions(options, config);
+  console.log(`Replaying ${transactions.length} transactions...\n`);
+
+  const results: ReplayResult[] = [];
+  for (const item of transactions) {
+    const result = await replayTransaction(item, migrationDetector, transactionParser, tokenDataFetcher);
+    if (options.onlyMigrations && !result.isMigration) {
+      continue;
+    }
+    results.push(result);
+    printResult(result);
+  }
+
+  const migrations = results.filter(result => result.isMigration).length;
+  const preFiltered = results.filter(result => result.passesPreFilter).length;
+  console.log(`\nReplayed ${transactions.length} transactions: ${migrations} migrations, ${preFiltered} passed the log pre-filter`);
+
+  if (options.out) {
+    exportResults(results, options.out);
+  }
+}
+
+main().catch((error) => {
+  console.error('Fatal error:', error);
+  process.exit(1);
+});
@@ -0,0 +1,94 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { Connection, ParsedTransactionWithMeta, PublicKey } from '@solana/web3.js';
+
+export interface ReplayTransaction {
+  signature: string;
+  source: string;
+  tx: ParsedTransactionWithMeta | null;
+}
+
+/**
+ * Loads saved `getParsedTransaction` results from a directory.
+ * Each .json file may contain a transaction, an RPC response (`{ result: tx }`) or an array of either.
+ */
+export function loadTransactionsFromDirectory(dir: string): ReplayTransaction[] {
+  const files = fs.readdirSync(dir)
+    .filter(file => file.endsWith('.json'))
+    .sort();
+
+  const transactions: ReplayTransaction[] = [];
+  for (const file of files) {
+    const filePath = path.join(dir, file);
+    try {
+      const data = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+      const entries = Array.isArray(data) ? data : [data];
+      entries.forEach((entry, index) => {
+        const tx = (entry?.result !== undefined ? entry.result : entry) as ParsedTransactionWithMeta | null;
+        const signature = tx?.transaction?.signatures?.[0] ||
+          (entries.length === 1 ? path.basename(file, '.json') : `${path.basename(file, '.json')}#${index}`);
+        transactions.push({ signature, source: filePath, tx });
+      });
+    } catch (error: any) {
+      console.error(`❌ Could not read ${filePath}:`, error.message);
+    }
+  }
+
+  return transactions;
+}
+
+/**
+ * Lists signatures for a program between two signatures (newest first), like the RPC does.
+ */
+export async function fetchProgramSignatures(
+  connection: Connection,
+  programId: string,
+  options: { before?: string; until?: string; limit: number }
+): Promise<string[]> {
+  const signatures: string[] = [];
+  let before = options.before;
+
+  while (signatures.length < options.limit) {
+    const batch = await connection.getSignaturesForAddress(new PublicKey(programId), {
+      before,
+      until: options.until,
+      limit: Math.min(1000, options.limit - signatures.length),
+    }, 'confirmed');
+
+    if (batch.length === 0) {
+      break;
+    }
+
+    batch
+      .filter(info => !info.err)
+      .forEach(info => signatures.push(info.signature));
+    before = batch[batch.length - 1].signature;
+  }
+
+  return signatures;
+}
+
+export async function fetchTransactions(
+  connection: Connection,
+  signatures: string[],
+  minIntervalMs: number = 100
+): Promise<ReplayTransaction[]> {
+  const transactions: ReplayTransaction[] = [];
+
+  for (const signature of signatures) {
+    try {
+      const tx = await connection.getParsedTransaction(signature, {
+        maxSupportedTransactionVersion: 0,
+        commitment: 'confirmed',
+      });
+      transactions.push({ signature, source: 'rpc', tx });
+    } catch (error: any) {
+      console.error(`❌ Could not fetch ${signature}:`, error.message);
+    }
+
+    // Same spacing as the live fetch queue
+    await new Promise(resolve => setTimeout(resolve, minIntervalMs));
+  }
+
+  return transactions;
+}
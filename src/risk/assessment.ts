@@ -0,0 +1,98 @@
+import { RiskAssessment, RiskFlag, RiskLevel } from '../types';
+import { JupiterTokenData } from '../detectors/migration';
+
+// Thresholds (in percent / count) at which audit values become warnings
+const TOP_HOLDERS_MEDIUM = 30;
+const TOP_HOLDERS_HIGH = 50;
+const DEV_BALANCE_MEDIUM = 5;
+const DEV_BALANCE_HIGH = 10;
+const DEV_MIGRATIONS_LOW = 3;
+const DEV_MIGRATIONS_MEDIUM = 10;
+
+export const RISK_LEVEL_RANK: Record<RiskLevel, number> = {
+  low: 1,
+  medium: 2,
+  high: 3,
+};
+
+/**
+ * Turns the Jupiter audit fields into human readable warnings and an overall risk level.
+ * Returns null when Jupiter has no audit data for the token.
+ */
+export function assessRisk(jupiterData?: JupiterTokenData | null): RiskAssessment | null {
+  const audit = jupiterData?.audit;
+  if (!audit) {
+    return null;
+  }
+
+  const flags: RiskFlag[] = [];
+
+  if (audit.isSus) {
+    flags.push({ level: 'high', code: 'suspicious', message: 'Flagged as suspicious by Jupiter' });
+  }
+
+  if (audit.mintAuthorityDisabled === false) {
+    flags.push({ level: 'high', code: 'mintAuthority', message: 'Mint authority still enabled' });
+  }
+
+  if (audit.freezeAuthorityDisabled === false) {
+    flags.push({ level: 'high', code: 'freezeAuthority', message: 'Freeze authority still enabled' });
+  }
+
+  if (audit.topHoldersPercentage !== undefined && audit.topHoldersPercentage >= TOP_HOLDERS_MEDIUM) {
+    const value = formatPercentage(audit.topHoldersPercentage);
+    flags.push({
+      level: audit.topHoldersPercentage >= TOP_HOLDERS_HIGH ? 'high' : 'medium',
+      code: 'topHolders',
+      value,
+      message: `Top holders own ${value}`,
+    });
+  }
+
+  if (audit.devBalancePercentage !== undefined && audit.devBalancePercentage >= DEV_BALANCE_MEDIUM) {
+    const value = formatPercentage(audit.devBalancePercentage);
+    flags.push({
+      level: audit.devBalancePercentage >= DEV_BALANCE_HIGH ? 'high' : 'medium',
+      code: 'devBalance',
+      value,
+      message: `Dev holds ${value}`,
+    });
+  }
+
+  if (audit.devMigrations !== undefined && audit.devMigrations >= DEV_MIGRATIONS_LOW) {
+    flags.push({
+      level: audit.devMigrations >= DEV_MIGRATIONS_MEDIUM ? 'medium' : 'low',
+      code: 'devMigrations',
+      value: String(audit.devMigrations),
+      message: `Dev has ${audit.devMigrations} prior migrations`,
+    });
+  }
+
+  const level = flags.reduce<RiskLevel>(
+    (highest, flag) => RISK_LEVEL_RANK[flag.level] > RISK_LEVEL_RANK[highest] ? flag.level : highest,
+    'low'
+  );
+
+  return { level, flags };
+}
+
+export function isRiskLevel(value: string): value is RiskLevel {
+  return Object.prototype.hasOwnProperty.call(RISK_LEVEL_RANK, value);
+}
+
+export function getRiskEmoji(level?: RiskLevel): string {
+  switch (level) {
+    case 'high':
+      return '🔴';
+    case 'medium':
+      return '🟡';
+    case 'low':
+      return '🟢';
+    default:
+      return '❔';
+  }
+}
+
+function formatPercentage(value: number): string {
+  return `${value.toFixed(value < 10 ? 1 : 0)}%`;
+}
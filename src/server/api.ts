@@ -0,0 +1,107 @@
+import * as crypto from 'crypto';
+import * as http from 'http';
+import { URL } from 'url';
+import { toMigrationResource } from '../notifiers/format';
+import { MigrationRecord, MigrationRepository } from '../storage/migrations';
+import { HttpHandler, HttpServer } from './http';
+import { matchesMigrationQuery, parseMigrationQuery } from './query';
+import { MigrationStream, toMigrationEvent } from './stream';
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 200;
+
+/**
+ * Adds the REST API: `/migrations` (paginated and filterable), `/migrations/:mint` and the `/stream`
+ * Server-Sent Events feed. Every route requires one of the configured API keys.
+ */
+export function registerApiRoutes(
+  server: HttpServer,
+  migrations: MigrationRepository,
+  stream: MigrationStream,
+  apiKeys: string[]
+): void {
+  const authorized = (handler: HttpHandler): HttpHandler => (req, url, res, params) => {
+    if (!isValidApiKey(getApiKey(req, url), apiKeys)) {
+      return { status: 401, headers: { 'www-authenticate': 'Bearer' }, body: { error: 'Invalid or missing API key' } };
+    }
+    return handler(req, url, res, params);
+  };
+
+  server.get('/migrations', authorized((req, url) => {
+    let query;
+    let limit;
+    let offset;
+    try {
+      query = parseMigrationQuery(url.searchParams);
+      limit = parseInteger(url.searchParams, 'limit', DEFAULT_PAGE_SIZE, 1, MAX_PAGE_SIZE);
+      offset = parseInteger(url.searchParams, 'offset', 0, 0);
+    } catch (error: any) {
+      return { status: 400, body: { error: error.message } };
+    }
+
+    const matching = migrations.list().filter(record => matchesMigrationQuery(query, record.migration, record.jupiterData));
+    const page = matching.slice(offset, offset + limit);
+    const nextOffset = offset + page.length < matching.length ? offset + page.length : null;
+    return {
+      body: {
+        migrations: page.map(toResource),
+        pagination: { total: matching.length, limit, offset, nextOffset },
+      },
+    };
+  }));
+
+  server.get('/migrations/:mint', authorized((req, url, res, params) => {
+    const record = migrations.findByMint(params.mint);
+    if (!record) {
+      return { status: 404, body: { error: `No migration found for ${params.mint}` } };
+    }
+    return { body: toResource(record) };
+  }));
+
+  server.get('/stream', authorized((req, url, res) => {
+    try {
+      stream.open(req, res, parseMigrationQuery(url.searchParams));
+    } catch (error: any) {
+      return { status: 400, body: { error: error.message } };
+    }
+  }));
+}
+
+function toResource(record: MigrationRecord): Record<string, any> {
+  return { ...toMigrationResource(toMigrationEvent(record)), recordedAt: record.recordedAt };
+}
+
+// "Authorization: Bearer <key>", "X-API-Key: <key>", or ?api_key= for EventSource clients that can't set headers
+function getApiKey(req: http.IncomingMessage, url: URL): string {
+  const authorization = req.headers.authorization || '';
+  if (authorization.toLowerCase().startsWith('bearer ')) {
+    return authorization.slice('bearer '.length).trim();
+  }
+  const header = req.headers['x-api-key'];
+  if (typeof header === 'string') {
+    return header;
+  }
+  return url.searchParams.get('api_key') || '';
+}
+
+// Compares digests so the check takes the same time whatever the key's length and content
+function isValidApiKey(received: string, apiKeys: string[]): boolean {
+  if (!received) {
+    return false;
+  }
+  const digest = (key: string) => crypto.createHash('sha256').update(key).digest();
+  const receivedDigest = digest(received);
+  return apiKeys.some(key => crypto.timingSafeEqual(receivedDigest, digest(key)));
+}
+
+function parseInteger(params: URLSearchParams, name: string, fallback: number, min: number, max = Infinity): number {
+  const value = params.get(name);
+  if (!value) {
+    return fallback;
+  }
+  const number = Number(value);
+  if (!Number.isInteger(number) || number < min || number > max) {
+    throw new Error(`${name} must be an integer ${max === Infinity ? `of at least ${min}` : `between ${min} and ${max}`}.`);
+  }
+  return number;
+}
@@ -0,0 +1,25 @@
+import { BotMetrics } from '../metrics';
+import { TransactionSource } from '../sources';
+import { HttpServer } from './http';
+
+/**
+ * Adds `/metrics` (Prometheus text format) and `/healthz` (503 while the source is disconnected)
+ */
+export function registerHealthRoutes(server: HttpServer, metrics: BotMetrics, source: TransactionSource): void {
+  server.get('/metrics', () => ({
+    headers: { 'content-type': 'text/plain; version=0.0.4; charset=utf-8' },
+    body: metrics.registry.render(),
+  }));
+
+  server.get('/healthz', () => {
+    const health = source.getHealth();
+    return {
+      status: health.connected ? 200 : 503,
+      body: {
+        status: health.connected ? 'ok' : 'disconnected',
+        uptimeSeconds: Math.round(process.uptime()),
+        source: health,
+      },
+    };
+  });
+}
@@ -0,0 +1,173 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { URL } from 'url';
+
+// Largest request body accepted by readBody
+const MAX_BODY_BYTES = 1024 * 1024;
+
+export interface HttpResponse {
+  status?: number;
+  headers?: Record<string, string>;
+  // Objects are sent as JSON, strings as-is
+  body: unknown;
+}
+
+// Return a response, or nothing after writing to `res` directly (e.g. for streaming)
+export type HttpHandler = (
+  req: http.IncomingMessage,
+  url: URL,
+  res: http.ServerResponse,
+  // Values of `:name` segments in the route path
+  params: Record<string, string>
+) => Promise<HttpResponse | void> | HttpResponse | void;
+
+interface Route {
+  method: string;
+  pattern: RegExp;
+  paramNames: string[];
+  handler: HttpHandler;
+}
+
+/**
+ * Embedded HTTP server for health checks, metrics, the Telegram webhook and the API
+ */
+export class HttpServer {
+  private server: http.Server;
+  private routes: Route[] = [];
+  private port: number;
+  private host: string;
+
+  constructor(port: number, host: string = '0.0.0.0') {
+    this.port = port;
+    this.host = host;
+    this.server = http.createServer((req, res) => this.handleRequest(req, res));
+  }
+
+  // Paths may contain `:name` segments, e.g. "/migrations/:mint"
+  get(path: string, handler: HttpHandler): void {
+    this.addRoute('GET', path, handler);
+  }
+
+  post(path: string, handler: HttpHandler): void {
+    this.addRoute('POST', path, handler);
+  }
+
+  async start(): Promise<string> {
+    await new Promise<void>((resolve, reject) => {
+      this.server.once('error', reject);
+      this.server.listen(this.port, this.host, () => {
+        this.server.off('error', reject);
+        resolve();
+      });
+    });
+    const { port } = this.server.address() as AddressInfo;
+    const url = `http://${this.host === '0.0.0.0' ? '127.0.0.1' : this.host}:${port}`;
+    console.log(`🌐 HTTP server listening on ${url}`);
+    return url;
+  }
+
+  async stop(): Promise<void> {
+    if (!this.server.listening) {
+      return;
+    }
+    this.server.closeAllConnections();
+    await new Promise(resolve => this.server.close(resolve));
+  }
+
+  private addRoute(method: string, path: string, handler: HttpHandler): void {
+    const paramNames: string[] = [];
+    const source = path
+      .split('/')
+      .map(segment => {
+        if (segment.startsWith(':')) {
+          paramNames.push(segment.slice(1));
+          return '([^/]+)';
+        }
+        return segment.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+      })
+      .join('/');
+    this.routes.push({ method, pattern: new RegExp(`^${source}$`), paramNames, handler });
+  }
+
+  private async handleRequest(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const url = new URL(req.url || '/', 'http://localhost');
+    for (const route of this.routes) {
+      const match = route.method === req.method ? route.pattern.exec(url.pathname) : null;
+      if (match) {
+        await this.runRoute(route, match, req, url, res);
+        return;
+      }
+    }
+    send(res, { status: 404, body: { error: 'Not found' } });
+  }
+
+  private async runRoute(
+    route: Route,
+    match: RegExpExecArray,
+    req: http.IncomingMessage,
+    url: URL,
+    res: http.ServerResponse
+  ): Promise<void> {
+    let params: Record<string, string>;
+    try {
+      params = Object.fromEntries(route.paramNames.map((name, index) => [name, decodeURIComponent(match[index + 1])]));
+    } catch {
+      // Malformed percent-encoding, e.g. "%E0%A4%A"
+      send(res, { status: 400, body: { error: 'Invalid URL encoding' } });
+      return;
+    }
+
+    try {
+      const response = await route.handler(req, url, res, params);
+      if (response) {
+        send(res, response);
+      }
+    } catch (error: any) {
+      if (error instanceof RequestBodyError) {
+        send(res, { status: error.status, body: { error: error.message } });
+        return;
+      }
+      console.error(`❌ HTTP ${req.method} ${url.pathname} failed:`, error);
+      if (!res.headersSent) {
+        send(res, { status: 500, body: { error: 'Internal server error' } });
+      }
+    }
+  }
+}
+
+export class RequestBodyError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+    this.name = 'RequestBodyError';
+  }
+}
+
+/**
+ * Reads and parses a JSON request body; throws a RequestBodyError (413 or 400) for oversized or invalid bodies
+ */
+export async function readJsonBody(req: http.IncomingMessage): Promise<any> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      throw new RequestBodyError('Request body too large', 413);
+    }
+    chunks.push(chunk);
+  }
+
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString('utf8'));
+  } catch {
+    throw new RequestBodyError('Invalid JSON body', 400);
+  }
+}
+
+function send(res: http.ServerResponse, response: HttpResponse): void {
+  const isText = typeof response.body === 'string';
+  res.writeHead(response.status || 200, {
+    'content-type': isText ? 'text/plain; charset=utf-8' : 'application/json',
+    ...response.headers,
+  });
+  res.end(isText ? response.body : JSON.stringify(response.body));
+}
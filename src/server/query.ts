@@ -0,0 +1,103 @@
+import { JupiterTokenData } from '../detectors/migration';
+import { assessRisk, isRiskLevel, RISK_LEVEL_RANK } from '../risk/assessment';
+import { MigrationTransaction, RiskLevel } from '../types';
+
+export interface MigrationQuery {
+  // Migration time range, in ms since epoch (inclusive)
+  since?: number;
+  until?: number;
+  minMcap?: number;
+  maxMcap?: number;
+  // Only these risk levels
+  risk?: RiskLevel[];
+  maxRisk?: RiskLevel;
+}
+
+/**
+ * Reads the filters shared by `/migrations` and `/stream` from the query string.
+ * Throws with a message for the 400 response when a value is invalid.
+ */
+export function parseMigrationQuery(params: URLSearchParams): MigrationQuery {
+  const query: MigrationQuery = {};
+
+  const since = getParam(params, 'since');
+  if (since !== undefined) query.since = parseTime('since', since);
+  const until = getParam(params, 'until');
+  if (until !== undefined) query.until = parseTime('until', until);
+  const minMcap = getParam(params, 'min_mcap');
+  if (minMcap !== undefined) query.minMcap = parseAmount('min_mcap', minMcap);
+  const maxMcap = getParam(params, 'max_mcap');
+  if (maxMcap !== undefined) query.maxMcap = parseAmount('max_mcap', maxMcap);
+  const risk = getParam(params, 'risk');
+  if (risk !== undefined) query.risk = risk.split(',').map(level => parseRiskLevel('risk', level.trim()));
+  const maxRisk = getParam(params, 'max_risk');
+  if (maxRisk !== undefined) query.maxRisk = parseRiskLevel('max_risk', maxRisk);
+
+  return query;
+}
+
+/**
+ * Checks a migration against the query. Like the alert filters, tokens without Jupiter data
+ * don't pass mcap or risk filters since their values are unknown.
+ */
+export function matchesMigrationQuery(
+  query: MigrationQuery,
+  migration: MigrationTransaction,
+  jupiterData?: JupiterTokenData | null
+): boolean {
+  if (query.since !== undefined && migration.timestamp < query.since) {
+    return false;
+  }
+  if (query.until !== undefined && migration.timestamp > query.until) {
+    return false;
+  }
+
+  if (query.minMcap !== undefined || query.maxMcap !== undefined) {
+    const mcap = jupiterData?.mcap;
+    if (mcap === undefined || mcap < (query.minMcap ?? 0) || mcap > (query.maxMcap ?? Infinity)) {
+      return false;
+    }
+  }
+
+  if (query.risk || query.maxRisk) {
+    const level = assessRisk(jupiterData)?.level;
+    if (!level || (query.risk && !query.risk.includes(level))) {
+      return false;
+    }
+    if (query.maxRisk && RISK_LEVEL_RANK[level] > RISK_LEVEL_RANK[query.maxRisk]) {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+// Empty values (e.g. "?since=") are treated as unset
+function getParam(params: URLSearchParams, name: string): string | undefined {
+  return params.get(name) || undefined;
+}
+
+// Milliseconds since epoch or an ISO 8601 date
+function parseTime(name: string, value: string): number {
+  const time = /^\d+$/.test(value) ? parseInt(value, 10) : Date.parse(value);
+  if (isNaN(time)) {
+    throw new Error(`${name} must be a timestamp in milliseconds or an ISO 8601 date.`);
+  }
+  return time;
+}
+
+function parseAmount(name: string, value: string): number {
+  const amount = Number(value);
+  if (isNaN(amount) || amount < 0) {
+    throw new Error(`${name} must be a non-negative number.`);
+  }
+  return amount;
+}
+
+function parseRiskLevel(name: string, value: string): RiskLevel {
+  const level = value.toLowerCase();
+  if (!isRiskLevel(level)) {
+    throw new Error(`${name} must be one of: low, medium, high.`);
+  }
+  return level;
+}
@@ -0,0 +1,100 @@
+import * as http from 'http';
+import { MigrationEvent, Notifier } from '../notifiers';
+import { toMigrationResource } from '../notifiers/format';
+import { MigrationRecord, MigrationRepository } from '../storage/migrations';
+import { matchesMigrationQuery, MigrationQuery } from './query';
+
+// Comment lines sent to idle streams so proxies don't close them
+const HEARTBEAT_INTERVAL_MS = 15000;
+
+interface StreamClient {
+  res: http.ServerResponse;
+  query: MigrationQuery;
+}
+
+/**
+ * Server-Sent Events feed of enriched migrations. It is added to the notifier dispatcher as a sink,
+ * so each migration is pushed as soon as it is detected. Event ids are transaction signatures:
+ * reconnecting clients get the migrations they missed after their Last-Event-ID from the history store.
+ */
+export class MigrationStream implements Notifier {
+  readonly name = 'stream';
+  private migrations: MigrationRepository;
+  private clients = new Set<StreamClient>();
+  private heartbeat: NodeJS.Timeout | null = null;
+
+  constructor(migrations: MigrationRepository) {
+    this.migrations = migrations;
+  }
+
+  // Starts an event stream on the response; it stays open until the client disconnects
+  open(req: http.IncomingMessage, res: http.ServerResponse, query: MigrationQuery): void {
+    res.writeHead(200, {
+      'content-type': 'text/event-stream',
+      'cache-control': 'no-cache',
+      connection: 'keep-alive',
+      // Disables response buffering in nginx
+      'x-accel-buffering': 'no',
+    });
+    res.write(': connected\n\n');
+
+    const client: StreamClient = { res, query };
+    this.replay(client, req.headers['last-event-id']);
+    this.clients.add(client);
+    this.startHeartbeat();
+
+    res.on('close', () => {
+      this.clients.delete(client);
+      if (this.clients.size === 0) {
+        this.stopHeartbeat();
+      }
+    });
+  }
+
+  async notify(event: MigrationEvent): Promise<void> {
+    this.clients.forEach(client => this.send(client, event));
+  }
+
+  getClientCount(): number {
+    return this.clients.size;
+  }
+
+  private replay(client: StreamClient, lastEventId: string | string[] | undefined): void {
+    if (typeof lastEventId !== 'string' || !lastEventId) {
+      return;
+    }
+
+    // Ids no longer in the history get nothing, rather than the whole history
+    const records = this.migrations.list();
+    const index = records.findIndex(record => record.migration.signature === lastEventId);
+    records.slice(0, Math.max(index, 0)).reverse().forEach(record => this.send(client, toMigrationEvent(record)));
+  }
+
+  private send(client: StreamClient, event: MigrationEvent): void {
+    if (!matchesMigrationQuery(client.query, event.migration, event.jupiterData)) {
+      return;
+    }
+    const data = JSON.stringify(toMigrationResource(event));
+    client.res.write(`event: migration\nid: ${event.migration.signature}\ndata: ${data}\n\n`);
+  }
+
+  private startHeartbeat(): void {
+    if (this.heartbeat) {
+      return;
+    }
+    this.heartbeat = setInterval(() => {
+      this.clients.forEach(client => client.res.write(': ping\n\n'));
+    }, HEARTBEAT_INTERVAL_MS);
+  }
+
+  private stopHeartbeat(): void {
+    if (this.heartbeat) {
+      clearInterval(this.heartbeat);
+      this.heartbeat = null;
+    }
+  }
+}
+
+export function toMigrationEvent(record: MigrationRecord): MigrationEvent {
+  return { migration: record.migration, tokenData: record.tokenData, jupiterData: record.jupiterData ?? null };
+}
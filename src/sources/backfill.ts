@@ -0,0 +1,38 @@
+import { Connection, PublicKey } from '@solana/web3.js';
+
+/**
+ * Lists successful signatures for an account from the newest back to `slot` (inclusive), oldest first.
+ * Stops after `limit` signatures so a long outage can't flood the fetch queue.
+ */
+export async function fetchSignaturesSinceSlot(
+  connection: Connection,
+  address: string,
+  slot: number,
+  limit: number
+): Promise<string[]> {
+  const signatures: string[] = [];
+  let before: string | undefined;
+
+  while (signatures.length < limit) {
+    const batch = await connection.getSignaturesForAddress(new PublicKey(address), {
+      before,
+      limit: Math.min(1000, limit - signatures.length),
+    }, 'confirmed');
+
+    if (batch.length === 0) {
+      break;
+    }
+
+    for (const info of batch) {
+      if (info.slot < slot) {
+        return signatures.reverse();
+      }
+      if (!info.err) {
+        signatures.push(info.signature);
+      }
+    }
+    before = batch[batch.length - 1].signature;
+  }
+
+  return signatures.reverse();
+}
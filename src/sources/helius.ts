@@ -0,0 +1,17 @@
+import { Config, getRpcEndpoints } from '../utils/config';
+import { TransactionSourceHandlers } from './index';
+import { WebSocketSource } from './websocket';
+
+/**
+ * Helius WebSocket: logsSubscribe or transactionSubscribe depending on SUBSCRIPTION_MODE
+ */
+export class HeliusSource extends WebSocketSource {
+  constructor(config: Config, handlers: TransactionSourceHandlers) {
+    super(config, handlers, {
+      name: 'Helius',
+      urls: getRpcEndpoints(config).wsUrls,
+      rpcUrls: getRpcEndpoints(config).rpcUrls,
+      mode: config.subscriptionMode,
+    });
+  }
+}
@@ -0,0 +1,39 @@
+import { ParsedTransactionWithMeta } from '@solana/web3.js';
+import { Config } from '../utils/config';
+import { SourceHealth } from '../types';
+import { HeliusSource } from './helius';
+import { SolanaRpcSource } from './solanaRpc';
+import { YellowstoneSource } from './yellowstone';
+
+export interface TransactionSourceHandlers {
+  // A pump.fun transaction reported by signature only (logs when available); the pipeline fetches it
+  onSignature: (signature: string, logs: string[], slot: number) => void;
+  // A full pump.fun transaction pushed by the stream, ready for detection
+  onTransaction: (tx: ParsedTransactionWithMeta, signature: string) => void;
+  // The stream came back after a disconnect; anything in between was missed
+  onReconnect?: () => void;
+}
+
+export interface TransactionSource {
+  readonly name: string;
+  // HTTP RPCs used to fetch transactions the stream only reports by signature, primary first
+  readonly rpcUrls: string[];
+  connect(): void;
+  disconnect(): void;
+  isConnected(): boolean;
+  getHealth(): SourceHealth;
+}
+
+/**
+ * Creates the stream source selected by TRANSACTION_SOURCE
+ */
+export function createTransactionSource(config: Config, handlers: TransactionSourceHandlers): TransactionSource {
+  switch (config.transactionSource) {
+    case 'rpc':
+      return new SolanaRpcSource(config, handlers);
+    case 'yellowstone':
+      return new YellowstoneSource(config, handlers);
+    default:
+      return new HeliusSource(config, handlers);
+  }
+}
@@ -0,0 +1,18 @@
+import { Config, getRpcEndpoints } from '../utils/config';
+import { TransactionSourceHandlers } from './index';
+import { WebSocketSource } from './websocket';
+
+/**
+ * Any standard Solana RPC node: logsSubscribe on SOLANA_WS_URL, transactions fetched from SOLANA_RPC_URL
+ */
+export class SolanaRpcSource extends WebSocketSource {
+  constructor(config: Config, handlers: TransactionSourceHandlers) {
+    super(config, handlers, {
+      name: 'Solana RPC',
+      urls: getRpcEndpoints(config).wsUrls,
+      rpcUrls: getRpcEndpoints(config).rpcUrls,
+      // transactionSubscribe is a Helius extension
+      mode: 'logs',
+    });
+  }
+}
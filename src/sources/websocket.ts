@@ -0,0 +1,84 @@
+import { ParsedTransactionWithMeta } from '@solana/web3.js';
+import { Config } from '../utils/config';
+import { HeliusWebSocketClient, WebSocketClientOptions } from '../websocket/helius';
+import { HeliusWebSocketMessage, SourceHealth } from '../types';
+import { TransactionSource, TransactionSourceHandlers } from './index';
+
+export interface WebSocketSourceOptions extends WebSocketClientOptions {
+  name: string;
+  urls: string[];
+  rpcUrls: string[];
+}
+
+/**
+ * Shared JSON-RPC WebSocket source: turns logs/transaction notifications into pipeline events
+ */
+export class WebSocketSource implements TransactionSource {
+  readonly name: string;
+  readonly rpcUrls: string[];
+  private client: HeliusWebSocketClient;
+  private handlers: TransactionSourceHandlers;
+
+  constructor(config: Config, handlers: TransactionSourceHandlers, options: WebSocketSourceOptions) {
+    this.name = options.name;
+    this.rpcUrls = options.rpcUrls;
+    this.handlers = handlers;
+    this.client = new HeliusWebSocketClient(config, message => this.handleMessage(message), {
+      ...options,
+      onReconnect: handlers.onReconnect,
+    });
+  }
+
+  connect(): void {
+    this.client.connect();
+  }
+
+  disconnect(): void {
+    this.client.disconnect();
+  }
+
+  isConnected(): boolean {
+    return this.client.isConnected();
+  }
+
+  getHealth(): SourceHealth {
+    return this.client.getHealth();
+  }
+
+  private handleMessage(message: HeliusWebSocketMessage): void {
+    try {
+      if (message.method === 'logsNotification') {
+        // Logs notification structure may vary, try alternative paths
+        const result = (message.params?.result as any);
+        const value = result?.value || result;
+        if (value?.signature) {
+          this.handlers.onSignature(value.signature, value.logs || [], result?.context?.slot || 0);
+        }
+        return;
+      }
+
+      // Full transaction notification (transactionSubscribe)
+      const result = message.params?.result;
+      const pushedTx = result?.transaction;
+      if (!result || !pushedTx) {
+        return;
+      }
+
+      const signature = result.signature || pushedTx.transaction?.signatures?.[0];
+      if (!signature) {
+        return;
+      }
+
+      // With full meta pushed, hand the transaction over directly instead of fetching it
+      if (pushedTx.meta && pushedTx.transaction?.message) {
+        const tx = { slot: result.slot, blockTime: null, ...pushedTx } as unknown as ParsedTransactionWithMeta;
+        this.handlers.onTransaction(tx, signature);
+        return;
+      }
+
+      this.handlers.onSignature(signature, pushedTx.meta?.logMessages || [], result.slot || 0);
+    } catch (error) {
+      console.error('❌ Error handling WebSocket message:', error);
+    }
+  }
+}
@@ -0,0 +1,202 @@
+import Client, {
+  ClientDuplexStream,
+  CommitmentLevel,
+  SubscribeRequest,
+  SubscribeUpdate,
+  SubscribeUpdateTransaction,
+  txEncode,
+} from '@triton-one/yellowstone-grpc';
+import { ParsedTransactionWithMeta } from '@solana/web3.js';
+import bs58 from 'bs58';
+import { Config, getRpcEndpoints } from '../utils/config';
+import { getBackoffDelay } from '../utils/backoff';
+import { maskUrl } from '../utils/endpoints';
+import { SourceHealth } from '../types';
+import { TransactionSource, TransactionSourceHandlers } from './index';
+
+// WasmUiTransactionEncoding.JsonParsed (a const enum, so not available at runtime)
+const JSON_PARSED_ENCODING = 4;
+const PING_INTERVAL_MS = 10000;
+
+/**
+ * Converts a gRPC transaction update into the jsonParsed shape returned by getParsedTransaction
+ */
+export function toParsedTransaction(update: SubscribeUpdateTransaction): ParsedTransactionWithMeta | null {
+  if (!update.transaction?.transaction || !update.transaction.meta) {
+    return null;
+  }
+
+  const encoded = txEncode.encode(update.transaction, JSON_PARSED_ENCODING, 0, false);
+  return { ...encoded, slot: Number(update.slot), blockTime: null } as unknown as ParsedTransactionWithMeta;
+}
+
+/**
+ * Geyser/Yellowstone gRPC stream: full transactions are pushed, so nothing needs to be fetched
+ */
+export class YellowstoneSource implements TransactionSource {
+  readonly name = 'Yellowstone gRPC';
+  readonly rpcUrls: string[];
+  private config: Config;
+  private handlers: TransactionSourceHandlers;
+  private stream: ClientDuplexStream | null = null;
+  private pingInterval: NodeJS.Timeout | null = null;
+  private reconnectTimeout: NodeJS.Timeout | null = null;
+  private pingId: number = 0;
+  private isDisconnected: boolean = false;
+  private hasSubscribed: boolean = false;
+  private reconnectAttempts: number = 0;
+  private lastConnectedAt?: number;
+  private lastDisconnectedAt?: number;
+  private lastEventAt?: number;
+
+  constructor(config: Config, handlers: TransactionSourceHandlers) {
+    this.config = config;
+    this.handlers = handlers;
+    this.rpcUrls = getRpcEndpoints(config).rpcUrls;
+  }
+
+  connect(): void {
+    this.isDisconnected = false;
+    this.subscribe().catch(error => {
+      console.error('Yellowstone gRPC error:', error.message || error);
+      this.handleDisconnect();
+    });
+  }
+
+  private async subscribe(): Promise<void> {
+    console.log(`Connecting to Yellowstone gRPC: ${this.config.yellowstoneGrpcUrl}`);
+
+    const client = new Client(this.config.yellowstoneGrpcUrl, this.config.yellowstoneXToken || undefined, undefined);
+    await client.connect();
+    const stream = await client.subscribe(this.buildRequest());
+    this.stream = stream;
+
+    stream.on('data', (update: SubscribeUpdate) => this.handleUpdate(update));
+    stream.on('error', (error: any) => {
+      console.error('Yellowstone gRPC stream error:', error.message || error);
+    });
+    stream.on('close', () => {
+      if (this.stream !== stream) {
+        return; // An older stream closing after a reconnect
+      }
+      console.log('Yellowstone gRPC stream closed');
+      this.cleanup();
+      this.handleDisconnect();
+    });
+
+    // Some providers drop idle streams, keep it alive with pings
+    this.pingInterval = setInterval(() => {
+      this.stream?.write({ ...this.buildRequest(), ping: { id: ++this.pingId } });
+    }, PING_INTERVAL_MS);
+
+    console.log(`✅ Subscribed to pump.fun program transactions over Yellowstone gRPC: ${this.config.pumpFunProgramId.substring(0, 8)}...`);
+
+    const isReconnect = this.hasSubscribed;
+    this.hasSubscribed = true;
+    this.reconnectAttempts = 0;
+    this.lastConnectedAt = Date.now();
+    if (isReconnect) {
+      this.handlers.onReconnect?.();
+    }
+  }
+
+  private buildRequest(): SubscribeRequest {
+    return {
+      accounts: {},
+      slots: {},
+      transactions: {
+        pumpFun: {
+          vote: false,
+          failed: false,
+          accountInclude: [this.config.pumpFunProgramId],
+          accountExclude: [],
+          accountRequired: [],
+        },
+      },
+      transactionsStatus: {},
+      blocks: {},
+      blocksMeta: {},
+      entry: {},
+      accountsDataSlice: [],
+      commitment: CommitmentLevel.CONFIRMED,
+    };
+  }
+
+  private handleUpdate(update: SubscribeUpdate): void {
+    if (!update.transaction?.transaction) {
+      return; // Pings/pongs and other update types
+    }
+
+    this.lastEventAt = Date.now();
+    try {
+      const tx = toParsedTransaction(update.transaction);
+      if (!tx) {
+        return;
+      }
+      this.handlers.onTransaction(tx, bs58.encode(update.transaction.transaction.signature));
+    } catch (error) {
+      console.error('❌ Error handling Yellowstone update:', error);
+    }
+  }
+
+  private handleDisconnect(): void {
+    if (this.isDisconnected || this.reconnectTimeout) {
+      return;
+    }
+
+    // First failure since the stream was last healthy
+    if (this.reconnectAttempts === 0) {
+      this.lastDisconnectedAt = Date.now();
+    }
+
+    this.reconnectAttempts++;
+    const delay = getBackoffDelay(this.reconnectAttempts);
+    const downtime = ((Date.now() - (this.lastDisconnectedAt || Date.now())) / 1000).toFixed(0);
+    const log = this.reconnectAttempts % 10 === 0 ? console.error : console.warn;
+    log(
+      `⚠️  Yellowstone gRPC stream down for ${downtime}s. Reconnection attempt ${this.reconnectAttempts} ` +
+      `in ${(delay / 1000).toFixed(1)}s`
+    );
+
+    this.reconnectTimeout = setTimeout(() => {
+      this.reconnectTimeout = null;
+      this.connect();
+    }, delay);
+  }
+
+  private cleanup(): void {
+    if (this.pingInterval) {
+      clearInterval(this.pingInterval);
+      this.pingInterval = null;
+    }
+    this.stream = null;
+  }
+
+  disconnect(): void {
+    console.log('Disconnecting from Yellowstone gRPC...');
+    this.isDisconnected = true;
+    if (this.reconnectTimeout) {
+      clearTimeout(this.reconnectTimeout);
+      this.reconnectTimeout = null;
+    }
+    const stream = this.stream;
+    this.cleanup();
+    stream?.destroy();
+  }
+
+  isConnected(): boolean {
+    return this.stream !== null;
+  }
+
+  getHealth(): SourceHealth {
+    return {
+      source: this.name,
+      endpoint: maskUrl(this.config.yellowstoneGrpcUrl),
+      connected: this.isConnected(),
+      reconnectAttempts: this.reconnectAttempts,
+      lastConnectedAt: this.lastConnectedAt,
+      lastDisconnectedAt: this.lastDisconnectedAt,
+      lastEventAt: this.lastEventAt,
+    };
+  }
+}
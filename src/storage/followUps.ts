@@ -0,0 +1,70 @@
+import * as path from 'path';
+import { JsonFile } from './jsonFile';
+import { SentAlert } from '../types';
+
+export interface MetricsSnapshot {
+  price?: number;
+  marketCap?: number;
+  liquidity?: number;
+}
+
+export interface FollowUpRecord {
+  id: string;
+  tokenMint: string;
+  tokenSymbol: string;
+  migratedAt: number;
+  delayMs: number;
+  dueAt: number;
+  baseline: MetricsSnapshot;
+  alerts: SentAlert[];
+  // Failed deliveries so far
+  attempts?: number;
+}
+
+export interface FollowUpRepository {
+  list(): FollowUpRecord[];
+  // Adds the records, replacing any with the same id
+  add(records: FollowUpRecord[]): void;
+  remove(id: string): void;
+}
+
+interface FollowUpFileData {
+  followUps: FollowUpRecord[];
+}
+
+export class JsonFollowUpRepository implements FollowUpRepository {
+  private file: JsonFile<FollowUpFileData>;
+  private followUps: Map<string, FollowUpRecord> = new Map();
+
+  constructor(dataDir: string) {
+    this.file = new JsonFile(path.join(dataDir, 'followups.json'), () => ({ followUps: [] }));
+
+    const data = this.file.read();
+    (data.followUps || []).forEach(record => {
+      this.followUps.set(record.id, record);
+    });
+  }
+
+  list(): FollowUpRecord[] {
+    return Array.from(this.followUps.values());
+  }
+
+  add(records: FollowUpRecord[]): void {
+    records.forEach(record => this.followUps.set(record.id, record));
+    this.save();
+  }
+
+  remove(id: string): void {
+    if (this.followUps.delete(id)) {
+      this.save();
+    }
+  }
+
+  private save(): void {
+    try {
+      this.file.write({ followUps: this.list() });
+    } catch (error) {
+      console.error('Error saving follow-ups:', error);
+    }
+  }
+}
@@ -0,0 +1,78 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+// How long writeSoon() collects changes before writing them out
+const WRITE_DELAY_MS = 1000;
+
+/**
+ * Small JSON file helper used by the local stores.
+ * Writes go to a temp file first and are then renamed over the target,
+ * so a crash mid-write never leaves a truncated file behind.
+ */
+export class JsonFile<T> {
+  private filePath: string;
+  private defaultValue: () => T;
+  private pendingData: (() => T) | null = null;
+  private writeTimer: NodeJS.Timeout | null = null;
+
+  constructor(filePath: string, defaultValue: () => T) {
+    this.filePath = filePath;
+    this.defaultValue = defaultValue;
+  }
+
+  read(): T {
+    try {
+      if (!fs.existsSync(this.filePath)) {
+        return this.defaultValue();
+      }
+      const raw = fs.readFileSync(this.filePath, 'utf8');
+      return raw.trim().length > 0 ? JSON.parse(raw) as T : this.defaultValue();
+    } catch (error) {
+      console.error(`Error reading ${this.filePath}, starting with empty data:`, error);
+      return this.defaultValue();
+    }
+  }
+
+  write(data: T): void {
+    this.cancelPendingWrite();
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    const tmpPath = `${this.filePath}.${process.pid}.tmp`;
+    fs.writeFileSync(tmpPath, JSON.stringify(data, null, 2));
+    fs.renameSync(tmpPath, this.filePath);
+  }
+
+  /**
+   * Coalesces frequent changes (e.g. per-message delivery status) into one write after a short delay.
+   * `data` is called when the write happens, so it includes every change made in between.
+   */
+  writeSoon(data: () => T): void {
+    this.pendingData = data;
+    if (this.writeTimer) {
+      return;
+    }
+    this.writeTimer = setTimeout(() => {
+      try {
+        this.flush();
+      } catch (error) {
+        console.error(`Error writing ${this.filePath}:`, error);
+      }
+    }, WRITE_DELAY_MS);
+    this.writeTimer.unref();
+  }
+
+  // Writes a pending writeSoon() right away (e.g. on shutdown)
+  flush(): void {
+    const data = this.pendingData;
+    if (data) {
+      this.write(data());
+    }
+  }
+
+  private cancelPendingWrite(): void {
+    if (this.writeTimer) {
+      clearTimeout(this.writeTimer);
+      this.writeTimer = null;
+    }
+    this.pendingData = null;
+  }
+}
@@ -0,0 +1,133 @@
+import * as path from 'path';
+import { JsonFile } from './jsonFile';
+import { LatencyTrace, MigrationTransaction, TokenData } from '../types';
+import { JupiterTokenData } from '../detectors/migration';
+
+// Keep the history file bounded
+const MAX_MIGRATIONS = 5000;
+const MAX_PROCESSED_SIGNATURES = 1000;
+
+export interface MigrationRecord {
+  migration: MigrationTransaction;
+  tokenData: TokenData;
+  jupiterData?: JupiterTokenData | null;
+  recordedAt: number;
+  // Stage timestamps from notification to Telegram delivery
+  trace?: LatencyTrace;
+}
+
+export interface MigrationRepository {
+  save(record: MigrationRecord): void;
+  // Replaces the latency trace once later stages (e.g. Telegram delivery) complete
+  updateTrace(signature: string, trace: LatencyTrace): void;
+  recent(limit: number): MigrationRecord[];
+  // Every stored record, newest first
+  list(): MigrationRecord[];
+  // Latest record for a token mint
+  findByMint(tokenMint: string): MigrationRecord | undefined;
+  countSince(timestamp: number): number;
+  hasProcessed(signature: string): boolean;
+  markProcessed(signature: string): void;
+  getProcessedSignatures(): string[];
+  // Saves pending changes now (call before exiting)
+  flush(): void;
+}
+
+interface MigrationFileData {
+  migrations: MigrationRecord[];
+  processedSignatures: string[];
+}
+
+export class JsonMigrationRepository implements MigrationRepository {
+  private file: JsonFile<MigrationFileData>;
+  private migrations: MigrationRecord[];
+  private processedSignatures: string[];
+
+  constructor(dataDir: string) {
+    this.file = new JsonFile(path.join(dataDir, 'migrations.json'), () => ({
+      migrations: [],
+      processedSignatures: [],
+    }));
+
+    const data = this.file.read();
+    this.migrations = data.migrations || [];
+    this.processedSignatures = data.processedSignatures || [];
+  }
+
+  save(record: MigrationRecord): void {
+    this.migrations.push(record);
+    if (this.migrations.length > MAX_MIGRATIONS) {
+      this.migrations = this.migrations.slice(this.migrations.length - MAX_MIGRATIONS);
+    }
+    this.persist();
+  }
+
+  updateTrace(signature: string, trace: LatencyTrace): void {
+    const record = this.migrations.find(item => item.migration.signature === signature);
+    if (!record) {
+      return;
+    }
+    record.trace = trace;
+    this.persist();
+  }
+
+  recent(limit: number): MigrationRecord[] {
+    return this.migrations.slice(-limit).reverse();
+  }
+
+  list(): MigrationRecord[] {
+    return [...this.migrations].reverse();
+  }
+
+  findByMint(tokenMint: string): MigrationRecord | undefined {
+    for (let i = this.migrations.length - 1; i >= 0; i--) {
+      if (this.migrations[i].migration.tokenMint === tokenMint) {
+        return this.migrations[i];
+      }
+    }
+    return undefined;
+  }
+
+  countSince(timestamp: number): number {
+    return this.migrations.filter(record => record.recordedAt >= timestamp).length;
+  }
+
+  hasProcessed(signature: string): boolean {
+    return this.processedSignatures.includes(signature);
+  }
+
+  markProcessed(signature: string): void {
+    if (this.hasProcessed(signature)) {
+      return;
+    }
+
+    this.processedSignatures.push(signature);
+    if (this.processedSignatures.length > MAX_PROCESSED_SIGNATURES) {
+      this.processedSignatures = this.processedSignatures.slice(
+        this.processedSignatures.length - MAX_PROCESSED_SIGNATURES
+      );
+    }
+    this.persist();
+  }
+
+  getProcessedSignatures(): string[] {
+    return [...this.processedSignatures];
+  }
+
+  flush(): void {
+    try {
+      this.file.flush();
+    } catch (error) {
+      console.error('Error saving migration history:', error);
+    }
+  }
+
+  // Each migration changes the history several times on the alert path (processed, saved, traced),
+  // so the changes are written together shortly after
+  private persist(): void {
+    this.file.writeSoon(() => ({
+      migrations: this.migrations,
+      processedSignatures: this.processedSignatures,
+    }));
+  }
+}
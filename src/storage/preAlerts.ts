@@ -0,0 +1,50 @@
+import * as path from 'path';
+import { JsonFile } from './jsonFile';
+
+// Keep the file bounded; old curves have long migrated by then
+const MAX_ALERTED_CURVES = 5000;
+
+export interface PreAlertRepository {
+  hasAlerted(bondingCurve: string): boolean;
+  markAlerted(bondingCurve: string): void;
+}
+
+interface PreAlertFileData {
+  alertedCurves: string[];
+}
+
+export class JsonPreAlertRepository implements PreAlertRepository {
+  private file: JsonFile<PreAlertFileData>;
+  private alertedCurves: string[];
+  private alertedSet: Set<string>;
+
+  constructor(dataDir: string) {
+    this.file = new JsonFile(path.join(dataDir, 'prealerts.json'), () => ({ alertedCurves: [] }));
+    this.alertedCurves = this.file.read().alertedCurves || [];
+    this.alertedSet = new Set(this.alertedCurves);
+  }
+
+  hasAlerted(bondingCurve: string): boolean {
+    return this.alertedSet.has(bondingCurve);
+  }
+
+  markAlerted(bondingCurve: string): void {
+    if (this.alertedSet.has(bondingCurve)) {
+      return;
+    }
+
+    this.alertedCurves.push(bondingCurve);
+    this.alertedSet.add(bondingCurve);
+    if (this.alertedCurves.length > MAX_ALERTED_CURVES) {
+      this.alertedCurves.splice(0, this.alertedCurves.length - MAX_ALERTED_CURVES).forEach(curve => {
+        this.alertedSet.delete(curve);
+      });
+    }
+
+    try {
+      this.file.write({ alertedCurves: this.alertedCurves });
+    } catch (error) {
+      console.error('Error saving pre-alert state:', error);
+    }
+  }
+}
@@ -0,0 +1,219 @@
+import * as path from 'path';
+import { JsonFile } from './jsonFile';
+import { AlertFilters, AlertLanguage, AlertLayout } from '../types';
+
+export type DeliveryStatus = 'ok' | 'failed';
+
+export interface SubscriberRecord {
+  chatId: number;
+  chatType: string;
+  joinedAt: number;
+  lastDeliveryAt?: number;
+  lastDeliveryStatus?: DeliveryStatus;
+  lastDeliveryError?: string;
+  filters?: AlertFilters;
+  preAlerts?: boolean;
+  // Forum topic alerts are posted to (groups with topics enabled)
+  messageThreadId?: number;
+  // Token mints added with the alert "Watch" button
+  watchlist?: string[];
+  // Dev wallets whose migrations are not alerted
+  mutedDevs?: string[];
+  // Alert layout and language chosen with /template and /lang (bot defaults when unset)
+  template?: AlertLayout;
+  language?: AlertLanguage;
+}
+
+export interface SubscriberRepository {
+  list(): SubscriberRecord[];
+  get(chatId: number): SubscriberRecord | undefined;
+  has(chatId: number): boolean;
+  add(chatId: number, chatType?: string): SubscriberRecord;
+  remove(chatId: number): boolean;
+  // Runs for every message sent, so it is saved with a short delay (see flush)
+  recordDelivery(chatId: number, status: DeliveryStatus, error?: string): void;
+  setFilters(chatId: number, filters: AlertFilters): void;
+  setPreAlerts(chatId: number, enabled: boolean): void;
+  setMessageThread(chatId: number, messageThreadId?: number): void;
+  // Add or remove a token from the watchlist; returns whether it is now watched
+  toggleWatch(chatId: number, tokenMint: string): boolean;
+  // Mute or unmute a dev wallet; returns whether it is now muted
+  toggleMutedDev(chatId: number, dev: string): boolean;
+  clearMutedDevs(chatId: number): void;
+  setTemplate(chatId: number, template: AlertLayout): void;
+  setLanguage(chatId: number, language: AlertLanguage): void;
+  // Saves pending delivery statuses now (call before exiting)
+  flush(): void;
+}
+
+interface SubscriberFileData {
+  subscribers: SubscriberRecord[];
+}
+
+export class JsonSubscriberRepository implements SubscriberRepository {
+  private file: JsonFile<SubscriberFileData>;
+  private subscribers: Map<number, SubscriberRecord> = new Map();
+
+  constructor(dataDir: string) {
+    this.file = new JsonFile(path.join(dataDir, 'subscribers.json'), () => ({ subscribers: [] }));
+
+    const data = this.file.read();
+    (data.subscribers || []).forEach(record => {
+      this.subscribers.set(record.chatId, record);
+    });
+  }
+
+  list(): SubscriberRecord[] {
+    return Array.from(this.subscribers.values());
+  }
+
+  get(chatId: number): SubscriberRecord | undefined {
+    return this.subscribers.get(chatId);
+  }
+
+  has(chatId: number): boolean {
+    return this.subscribers.has(chatId);
+  }
+
+  add(chatId: number, chatType: string = 'private'): SubscriberRecord {
+    const existing = this.subscribers.get(chatId);
+    if (existing) {
+      return existing;
+    }
+
+    const record: SubscriberRecord = {
+      chatId,
+      chatType,
+      joinedAt: Date.now(),
+    };
+    this.subscribers.set(chatId, record);
+    this.save();
+    return record;
+  }
+
+  remove(chatId: number): boolean {
+    const removed = this.subscribers.delete(chatId);
+    if (removed) {
+      this.save();
+    }
+    return removed;
+  }
+
+  recordDelivery(chatId: number, status: DeliveryStatus, error?: string): void {
+    const record = this.subscribers.get(chatId);
+    if (!record) {
+      return;
+    }
+
+    record.lastDeliveryAt = Date.now();
+    record.lastDeliveryStatus = status;
+    record.lastDeliveryError = error;
+    this.file.writeSoon(() => this.getFileData());
+  }
+
+  setFilters(chatId: number, filters: AlertFilters): void {
+    const record = this.subscribers.get(chatId);
+    if (!record) {
+      return;
+    }
+
+    record.filters = filters;
+    this.save();
+  }
+
+  setPreAlerts(chatId: number, enabled: boolean): void {
+    const record = this.subscribers.get(chatId);
+    if (!record) {
+      return;
+    }
+
+    record.preAlerts = enabled;
+    this.save();
+  }
+
+  setMessageThread(chatId: number, messageThreadId?: number): void {
+    const record = this.subscribers.get(chatId);
+    if (!record) {
+      return;
+    }
+
+    record.messageThreadId = messageThreadId;
+    this.save();
+  }
+
+  toggleWatch(chatId: number, tokenMint: string): boolean {
+    const record = this.subscribers.get(chatId);
+    if (!record) {
+      return false;
+    }
+
+    record.watchlist = toggle(record.watchlist || [], tokenMint);
+    this.save();
+    return record.watchlist.includes(tokenMint);
+  }
+
+  toggleMutedDev(chatId: number, dev: string): boolean {
+    const record = this.subscribers.get(chatId);
+    if (!record) {
+      return false;
+    }
+
+    record.mutedDevs = toggle(record.mutedDevs || [], dev);
+    this.save();
+    return record.mutedDevs.includes(dev);
+  }
+
+  clearMutedDevs(chatId: number): void {
+    const record = this.subscribers.get(chatId);
+    if (!record) {
+      return;
+    }
+
+    record.mutedDevs = [];
+    this.save();
+  }
+
+  setTemplate(chatId: number, template: AlertLayout): void {
+    const record = this.subscribers.get(chatId);
+    if (!record) {
+      return;
+    }
+
+    record.template = template;
+    this.save();
+  }
+
+  setLanguage(chatId: number, language: AlertLanguage): void {
+    const record = this.subscribers.get(chatId);
+    if (!record) {
+      return;
+    }
+
+    record.language = language;
+    this.save();
+  }
+
+  flush(): void {
+    try {
+      this.file.flush();
+    } catch (error) {
+      console.error('Error saving subscribers:', error);
+    }
+  }
+
+  private save(): void {
+    try {
+      this.file.write(this.getFileData());
+    } catch (error) {
+      console.error('Error saving subscribers:', error);
+    }
+  }
+
+  private getFileData(): SubscriberFileData {
+    return { subscribers: this.list() };
+  }
+}
+
+function toggle(values: string[], value: string): string[] {
+  return values.includes(value) ? values.filter(item => item !== value) : [...values, value];
+}
@@ -1,22 +1,82 @@
+import * as crypto from 'crypto';
 import TelegramBot from 'node-telegram-bot-api';
 import { Config } from '../utils/config';
-import { MigrationTransaction, TokenData, AlertMessage } from '../types';
-import { JupiterTokenData } from '../detectors/migration';
+import { MigrationTransaction, TokenData, AlertMessage, SentAlert, PreAlert, AlertLayout, AlertLanguage } from '../types';
+import { JupiterTokenData, MigrationDetector } from '../detectors/migration';
+import { SubscriberRecord, SubscriberRepository } from '../storage/subscribers';
+import { MigrationRepository, MigrationRecord } from '../storage/migrations';
+import { FollowUpRecord, MetricsSnapshot } from '../storage/followUps';
+import { applyFilterCommand, describeFilters, matchesFilters, FILTER_USAGE } from '../filters/alertFilters';
+import { BotMetrics } from '../metrics';
+import { LatencySummary, summarizeLatency } from '../metrics/latency';
+import { TelegramDeliveryQueue } from './delivery';
+import { buildAlertKeyboard, parseAlertCallback } from './keyboard';
+import { ALERT_LAYOUTS, AlertTemplates, LANGUAGE_NAMES, escapeHtml, isAlertLanguage, isAlertLayout } from '../templates';
+import { HttpServer, readJsonBody } from '../server/http';
+
+// Opt in to node-telegram-bot-api's fixed file handling (we always pass a filename and content type)
+process.env.NTBA_FIX_350 = '1';
+
+const DEFAULT_RECENT_COUNT = 5;
+const MAX_RECENT_COUNT = 20;
+// Migrations sampled for /latency percentiles
+const LATENCY_SAMPLE_SIZE = 500;
+// Keep /users under Telegram's message length limit
+const MAX_USERS_LISTED = 50;
+const ADMIN_ONLY_MESSAGE = '⛔ This command is only available to bot admins.';
+const CHAT_ADMIN_ONLY_MESSAGE = '⛔ Only group admins can change alert settings for this chat.';
+// Telegram's limit for photo captions, counted after HTML tags are parsed
+const MAX_CAPTION_LENGTH = 1024;
+// Delivery queue priorities
+const ALERT_PRIORITY = 1;
+const NOTICE_PRIORITY = 0;
+
+type CommandHandler = (msg: TelegramBot.Message, match: RegExpExecArray | RegExpMatchArray | null) => void | Promise<void>;
 
 export class TelegramBotHandler {
   private bot: TelegramBot;
   private config: Config;
-  private subscribedUsers: Set<number> = new Set();
+  private subscribers: SubscriberRepository;
+  private migrations: MigrationRepository;
+  private metrics?: BotMetrics;
+  // Fetches current Jupiter metrics for the alert "Refresh" button
+  private migrationDetector?: MigrationDetector;
+  private delivery: TelegramDeliveryQueue;
+  private templates: AlertTemplates;
+  // Registered commands, also matched against channel posts
+  private commands: Array<{ pattern: RegExp; handler: CommandHandler }> = [];
+  // Fetched with getMe the first time a command names a bot
+  private username?: string;
+  private startedAt: number = Date.now();
+  // Set by /pause: alerts, pre-alerts and follow-ups are skipped until /resume
+  private paused: boolean = false;
+  private pollingErrors: number = 0;
 
-  constructor(config: Config) {
+  constructor(
+    config: Config,
+    subscribers: SubscriberRepository,
+    migrations: MigrationRepository,
+    metrics?: BotMetrics,
+    migrationDetector?: MigrationDetector
+  ) {
     this.config = config;
-    this.bot = new TelegramBot(config.telegramBotToken, { polling: true });
+    this.subscribers = subscribers;
+    this.migrations = migrations;
+    this.metrics = metrics;
+    this.migrationDetector = migrationDetector;
+    this.delivery = new TelegramDeliveryQueue(subscribers, config.telegramRateLimit);
+    this.templates = new AlertTemplates(config.templatesDir);
+    this.bot = new TelegramBot(config.telegramBotToken, {
+      // In webhook mode updates arrive through handleWebhookUpdate instead
+      polling: config.telegramMode === 'polling',
+      baseApiUrl: config.telegramApiUrl,
+    });
     
-    // Initialize subscribed users from config
+    // Initialize subscribed users from config (already stored chats keep their data)
     config.userChatIds.forEach(id => {
       const chatId = parseInt(id);
       if (!isNaN(chatId)) {
-        this.subscribedUsers.add(chatId);
+        this.subscribers.add(chatId);
       }
     });
 
@@ -24,135 +84,912 @@ export class TelegramBotHandler {
   }
 
   private setupCommands(): void {
-    // Handle /start command
-    this.bot.onText(/\/start/, (msg) => {
+    // Handle /start command (in a forum topic, alerts are posted to that topic)
+    this.onCommand(command('start'), async (msg) => {
       const chatId = msg.chat.id;
-      this.subscribedUsers.add(chatId);
-      this.bot.sendMessage(
-        chatId,
+      if (!await this.requireChatAdmin(msg)) {
+        return;
+      }
+
+      const threadId = getTopicThreadId(msg);
+      this.subscribers.add(chatId, msg.chat.type);
+      this.subscribers.setMessageThread(chatId, threadId);
+      this.reply(
+        msg,
         '🚀 Welcome to Pump.fun Migration Alert Bot!\n\n' +
-        'You are now subscribed to receive migration alerts.\n\n' +
+        `${threadId ? 'This topic is' : 'You are'} now subscribed to receive migration alerts.\n\n` +
         'I will notify you whenever a token migrates on pump.fun!'
       );
     });
 
     // Handle /stop command
-    this.bot.onText(/\/stop/, (msg) => {
+    this.onCommand(command('stop'), async (msg) => {
       const chatId = msg.chat.id;
-      this.subscribedUsers.delete(chatId);
-      this.bot.sendMessage(
-        chatId,
+      if (!await this.requireChatAdmin(msg)) {
+        return;
+      }
+
+      this.subscribers.remove(chatId);
+      this.reply(
+        msg,
         'You have been unsubscribed from migration alerts.'
       );
     });
 
     // Handle /status command
-    this.bot.onText(/\/status/, (msg) => {
+    this.onCommand(command('status'), (msg) => {
       const chatId = msg.chat.id;
-      const isSubscribed = this.subscribedUsers.has(chatId);
-      this.bot.sendMessage(
-        chatId,
-        `Status: ${isSubscribed ? '✅ Subscribed' : '❌ Not subscribed'}\n\n` +
+      const record = this.subscribers.get(chatId);
+      this.reply(
+        msg,
+        `Status: ${record ? '✅ Subscribed' : '❌ Not subscribed'}\n\n` +
+        (record ? `${describeFilters(record.filters)}\n\n` : '') +
+        (record && this.config.preAlertThreshold > 0 ? `Pre-alerts: ${record.preAlerts ? 'On' : 'Off'}\n\n` : '') +
+        (record?.watchlist?.length ? `Watching: ${record.watchlist.length} tokens (/watchlist)\n\n` : '') +
+        (record?.mutedDevs?.length ? `Muted devs: ${record.mutedDevs.length} (/unmute)\n\n` : '') +
+        (record ? `Alert layout: ${this.getAlertLayout(record)} (/template), language: ${LANGUAGE_NAMES[this.getAlertLanguage(record)]} (/lang)\n\n` : '') +
         `Use /start to subscribe or /stop to unsubscribe.`
       );
     });
 
+    // Handle /filter command
+    this.onCommand(command('filter', /(?:\s+(.+))?/), async (msg, match) => {
+      const chatId = msg.chat.id;
+      const record = this.subscribers.get(chatId);
+      if (!record) {
+        this.reply(msg, 'You are not subscribed. Use /start first.');
+        return;
+      }
+
+      const args = match?.[1];
+      if (!args) {
+        this.reply(msg, `${describeFilters(record.filters)}\n\n${FILTER_USAGE}`);
+        return;
+      }
+
+      if (!await this.requireChatAdmin(msg)) {
+        return;
+      }
+
+      const result = applyFilterCommand(record.filters || {}, args);
+      if (!result.ok) {
+        this.reply(msg, result.message);
+        return;
+      }
+
+      this.subscribers.setFilters(chatId, result.filters);
+      this.reply(msg, `${result.message}\n\n${describeFilters(result.filters)}`);
+    });
+
+    // Handle /prealerts [on|off] command
+    this.onCommand(command('prealerts', /(?:\s+(\w+))?/), async (msg, match) => {
+      const chatId = msg.chat.id;
+      const record = this.subscribers.get(chatId);
+
+      if (this.config.preAlertThreshold <= 0) {
+        this.reply(msg, 'Pre-alerts are not enabled on this bot.');
+        return;
+      }
+
+      if (!record) {
+        this.reply(msg, 'You are not subscribed. Use /start first.');
+        return;
+      }
+
+      const option = match?.[1]?.toLowerCase();
+      if (option !== 'on' && option !== 'off') {
+        this.reply(
+          msg,
+          `Pre-alerts: ${record.preAlerts ? '✅ On' : '❌ Off'}\n\n` +
+          `Get notified when a bonding curve passes ${this.config.preAlertThreshold}%.\n` +
+          'Use /prealerts on or /prealerts off.'
+        );
+        return;
+      }
+
+      if (!await this.requireChatAdmin(msg)) {
+        return;
+      }
+
+      this.subscribers.setPreAlerts(chatId, option === 'on');
+      this.reply(
+        msg,
+        option === 'on'
+          ? `⏳ Pre-alerts enabled. You will be notified when a bonding curve passes ${this.config.preAlertThreshold}%.`
+          : 'Pre-alerts disabled.'
+      );
+    });
+
+    // Handle /template [layout] command
+    this.onCommand(command('template', /(?:\s+(\w+))?/), async (msg, match) => {
+      const chatId = msg.chat.id;
+      const record = this.subscribers.get(chatId);
+      if (!record) {
+        this.reply(msg, 'You are not subscribed. Use /start first.');
+        return;
+      }
+
+      const layout = match?.[1]?.toLowerCase();
+      if (!layout || !isAlertLayout(layout)) {
+        this.reply(
+          msg,
+          `Alert layout: ${this.getAlertLayout(record)}\n\n` +
+          `Use /template ${ALERT_LAYOUTS.join(', /template ')}.`
+        );
+        return;
+      }
+
+      if (!await this.requireChatAdmin(msg)) {
+        return;
+      }
+
+      this.subscribers.setTemplate(chatId, layout);
+      this.reply(msg, `📝 Alert layout set to ${layout}.`);
+      this.sendAlertPreview(msg);
+    });
+
+    // Handle /lang [language] command
+    this.onCommand(command('lang', /(?:\s+(\w+))?/), async (msg, match) => {
+      const chatId = msg.chat.id;
+      const record = this.subscribers.get(chatId);
+      if (!record) {
+        this.reply(msg, 'You are not subscribed. Use /start first.');
+        return;
+      }
+
+      const language = match?.[1]?.toLowerCase();
+      if (!language || !isAlertLanguage(language)) {
+        this.reply(
+          msg,
+          `Alert language: ${LANGUAGE_NAMES[this.getAlertLanguage(record)]}\n\n` +
+          Object.entries(LANGUAGE_NAMES).map(([code, name]) => `/lang ${code} - ${name}`).join('\n')
+        );
+        return;
+      }
+
+      if (!await this.requireChatAdmin(msg)) {
+        return;
+      }
+
+      this.subscribers.setLanguage(chatId, language);
+      this.reply(msg, `🌐 Alert language set to ${LANGUAGE_NAMES[language]}.`);
+      this.sendAlertPreview(msg);
+    });
+
+    // Handle /recent [n] command
+    this.onCommand(command('recent', /(?:\s+(\d+))?/), (msg, match) => {
+      const requested = match?.[1] ? parseInt(match[1]) : DEFAULT_RECENT_COUNT;
+      const limit = Math.min(Math.max(requested, 1), MAX_RECENT_COUNT);
+      const records = this.migrations.recent(limit);
+
+      if (records.length === 0) {
+        this.reply(msg, 'No migrations recorded yet.');
+        return;
+      }
+
+      this.reply(msg, this.formatRecentMessage(records), {
+        parse_mode: 'HTML',
+        disable_web_page_preview: true,
+      });
+    });
+
+    // Handle /watchlist command
+    this.onCommand(command('watchlist'), (msg) => {
+      const record = this.subscribers.get(msg.chat.id);
+      if (!record?.watchlist?.length) {
+        this.reply(msg, 'Your watchlist is empty. Tap "Watch this token" on an alert to add one.');
+        return;
+      }
+
+      this.reply(msg, this.formatWatchlistMessage(record.watchlist), {
+        parse_mode: 'HTML',
+        disable_web_page_preview: true,
+      });
+    });
+
+    // Handle /unmute <dev|all> command
+    this.onCommand(command('unmute', /(?:\s+(\S+))?/), async (msg, match) => {
+      const chatId = msg.chat.id;
+      const record = this.subscribers.get(chatId);
+      if (!record?.mutedDevs?.length) {
+        this.reply(msg, 'No devs are muted in this chat.');
+        return;
+      }
+
+      const target = match?.[1];
+      if (!target) {
+        this.reply(
+          msg,
+          `🔇 <b>Muted devs</b>\n\n${record.mutedDevs.map(dev => `<code>${dev}</code>`).join('\n')}\n\n` +
+          'Use /unmute &lt;address&gt; or /unmute all.',
+          { parse_mode: 'HTML' }
+        );
+        return;
+      }
+
+      if (!await this.requireChatAdmin(msg)) {
+        return;
+      }
+
+      if (target.toLowerCase() === 'all') {
+        this.subscribers.clearMutedDevs(chatId);
+        this.reply(msg, '🔊 Unmuted all devs.');
+      } else if (record.mutedDevs.includes(target)) {
+        this.subscribers.toggleMutedDev(chatId, target);
+        this.reply(msg, `🔊 Unmuted ${target}`);
+      } else {
+        this.reply(msg, `${target} is not muted.`);
+      }
+    });
+
+    // Handle /latency command (admins only)
+    this.onCommand(command('latency'), (msg) => {
+      if (!this.requireAdmin(msg)) {
+        return;
+      }
+
+      const traces = this.migrations
+        .recent(LATENCY_SAMPLE_SIZE)
+        .filter(record => record.trace)
+        .map(record => record.trace!);
+      const summary = summarizeLatency(traces);
+
+      if (summary.length === 0) {
+        this.reply(msg, 'No latency traces recorded yet.');
+        return;
+      }
+
+      this.reply(msg, this.formatLatencyMessage(summary), { parse_mode: 'HTML' });
+    });
+
+    // Handle /stats command (admins only)
+    this.onCommand(command('stats'), (msg) => {
+      if (!this.requireAdmin(msg)) {
+        return;
+      }
+
+      this.reply(msg, this.formatStatsMessage(), { parse_mode: 'HTML' });
+    });
+
+    // Handle /users command (admins only)
+    this.onCommand(command('users'), (msg) => {
+      if (!this.requireAdmin(msg)) {
+        return;
+      }
+
+      const records = this.subscribers.list();
+      if (records.length === 0) {
+        this.reply(msg, 'No subscribers yet.');
+        return;
+      }
+
+      this.reply(msg, this.formatUsersMessage(records), { parse_mode: 'HTML' });
+    });
+
+    // Handle /broadcast <text> command (admins only)
+    this.onCommand(command('broadcast', /(?:\s+([\s\S]+))?/), async (msg, match) => {
+      if (!this.requireAdmin(msg)) {
+        return;
+      }
+
+      const text = match?.[1]?.trim();
+      if (!text) {
+        this.reply(msg, 'Usage: /broadcast <text>');
+        return;
+      }
+
+      const result = await this.broadcast(text);
+      this.reply(msg, `📣 Broadcast sent to ${result.sent} chats (${result.failed} failed).`);
+    });
+
+    // Handle /pause and /resume commands (admins only)
+    this.onCommand(command('(pause|resume)'), (msg, match) => {
+      const chatId = msg.chat.id;
+      if (!this.requireAdmin(msg)) {
+        return;
+      }
+
+      this.paused = match?.[1] === 'pause';
+      console.log(`${this.paused ? '⏸' : '▶️'}  Alert delivery ${this.paused ? 'paused' : 'resumed'} by admin ${chatId}`);
+      this.reply(
+        msg,
+        this.paused
+          ? '⏸ Alert delivery paused. Migrations are still detected and recorded. Use /resume to continue.'
+          : '▶️ Alert delivery resumed.'
+      );
+    });
+
+    // Handle /kick <chatId> command (admins only)
+    this.onCommand(command('kick', /(?:\s+(\S+))?/), (msg, match) => {
+      if (!this.requireAdmin(msg)) {
+        return;
+      }
+
+      const target = match?.[1] ? parseInt(match[1]) : NaN;
+      if (isNaN(target)) {
+        this.reply(msg, 'Usage: /kick <chatId>');
+        return;
+      }
+
+      this.reply(
+        msg,
+        this.subscribers.remove(target) ? `✅ Removed ${target} from subscribers.` : `${target} is not subscribed.`
+      );
+    });
+
+    // Channels deliver commands as channel posts, which onText doesn't see
+    this.bot.on('channel_post', (msg) => {
+      this.commands
+        .map(command => ({ command, match: msg.text?.match(command.pattern) }))
+        .filter(({ match }) => match)
+        .forEach(({ command, match }) => this.runCommand(command.handler, msg, match!));
+    });
+
+    // Inline keyboard buttons on migration alerts
+    this.bot.on('callback_query', (query) => {
+      this.handleAlertCallback(query).catch(error => {
+        console.error(`Error handling callback "${query.data}":`, error?.message || error);
+      });
+    });
+
     // Handle errors
     this.bot.on('polling_error', (error) => {
+      this.pollingErrors++;
       console.error('Telegram polling error:', error);
     });
   }
 
+  private onCommand(pattern: RegExp, handler: CommandHandler): void {
+    this.commands.push({ pattern, handler });
+    this.bot.onText(pattern, (msg, match) => this.runCommand(handler, msg, match));
+  }
+
+  private async runCommand(handler: CommandHandler, msg: TelegramBot.Message, match: RegExpExecArray | RegExpMatchArray | null): Promise<void> {
+    try {
+      if (!await this.isAddressedToBot(msg.text)) {
+        return;
+      }
+      await handler(msg, match);
+    } catch (error) {
+      console.error(`Error handling command "${msg.text}" in chat ${msg.chat.id}:`, error);
+    }
+  }
+
+  // In groups with several bots, commands may name the one they're for ("/stop@OtherBot")
+  private async isAddressedToBot(text?: string): Promise<boolean> {
+    const mention = text?.match(/^\/\w+@(\w+)/)?.[1];
+    if (!mention) {
+      return true;
+    }
+    if (!this.username) {
+      this.username = (await this.bot.getMe()).username;
+    }
+    return mention.toLowerCase() === this.username?.toLowerCase();
+  }
+
+  // Replies in the chat (and forum topic) the command came from
+  private reply(msg: TelegramBot.Message, text: string, options: TelegramBot.SendMessageOptions = {}): void {
+    const threadId = getTopicThreadId(msg);
+    this.bot
+      .sendMessage(msg.chat.id, text, { ...(threadId ? { message_thread_id: threadId } : {}), ...options })
+      .catch(error => console.error(`Error replying in chat ${msg.chat.id}:`, error?.message || error));
+  }
+
+  // Private chats configure themselves; in groups and channels only chat admins (or bot admins) may
+  private async canConfigureChat(chat: TelegramBot.Chat, from?: TelegramBot.User, senderChat?: TelegramBot.Chat): Promise<boolean> {
+    if (chat.type === 'private') {
+      return true;
+    }
+    // Channel posts have no sender and only channel admins can post; button presses come from any viewer
+    if (chat.type === 'channel' && !from) {
+      return true;
+    }
+    // Anonymous group admins post as the group itself
+    if (senderChat?.id === chat.id) {
+      return true;
+    }
+    if (!from) {
+      return false;
+    }
+    if (this.isAdmin(from.id)) {
+      return true;
+    }
+
+    try {
+      const member = await this.bot.getChatMember(chat.id, from.id);
+      return member.status === 'creator' || member.status === 'administrator';
+    } catch (error: any) {
+      console.error(`Error checking admin status in chat ${chat.id}:`, error?.message || error);
+      return false;
+    }
+  }
+
+  // Posts into the forum topic the chat subscribed from, if any
+  private threadOptions(chatId: number): { message_thread_id?: number } {
+    const threadId = this.subscribers.get(chatId)?.messageThreadId;
+    return threadId ? { message_thread_id: threadId } : {};
+  }
+
+  private async requireChatAdmin(msg: TelegramBot.Message): Promise<boolean> {
+    if (await this.canConfigureChat(msg.chat, msg.from, msg.sender_chat)) {
+      return true;
+    }
+    this.reply(msg, CHAT_ADMIN_ONLY_MESSAGE);
+    return false;
+  }
+
+  private async broadcast(text: string): Promise<{ sent: number; failed: number }> {
+    const results = await Promise.allSettled(
+      this.subscribers.list().map(record =>
+        this.delivery.send(record.chatId, () => this.bot.sendMessage(record.chatId, text, this.threadOptions(record.chatId)), { priority: NOTICE_PRIORITY })
+      )
+    );
+    const failed = results.filter(result => result.status === 'rejected').length;
+    return { sent: results.length - failed, failed };
+  }
+
+  private async handleAlertCallback(query: TelegramBot.CallbackQuery): Promise<void> {
+    const callback = parseAlertCallback(query.data);
+    const message = query.message;
+    if (!callback || !message) {
+      await this.bot.answerCallbackQuery(query.id);
+      return;
+    }
+
+    if (callback.action === 'refresh') {
+      let text: string;
+      try {
+        text = await this.refreshAlert(message, callback.address);
+      } catch (error: any) {
+        console.error(`Error refreshing alert in chat ${message.chat.id}:`, error?.message || error);
+        text = 'Could not refresh this alert, try again later.';
+      }
+      await this.bot.answerCallbackQuery(query.id, { text });
+      return;
+    }
+
+    // Watch and mute change the chat's settings
+    const chatId = message.chat.id;
+    if (!this.subscribers.has(chatId)) {
+      await this.bot.answerCallbackQuery(query.id, { text: 'This chat is not subscribed. Use /start first.', show_alert: true });
+      return;
+    }
+    if (!await this.canConfigureChat(message.chat, query.from)) {
+      await this.bot.answerCallbackQuery(query.id, { text: CHAT_ADMIN_ONLY_MESSAGE, show_alert: true });
+      return;
+    }
+
+    let text: string;
+    if (callback.action === 'watch') {
+      text = this.subscribers.toggleWatch(chatId, callback.address)
+        ? '👀 Added to your watchlist (/watchlist)'
+        : 'Removed from your watchlist';
+    } else {
+      text = this.subscribers.toggleMutedDev(chatId, callback.address)
+        ? '🔇 Muted this dev. Use /unmute to undo'
+        : '🔊 Unmuted this dev';
+    }
+    await this.bot.answerCallbackQuery(query.id, { text });
+  }
+
+  // Re-renders an alert with current Jupiter metrics, keeping its keyboard
+  private async refreshAlert(message: TelegramBot.Message, tokenMint: string): Promise<string> {
+    const record = this.migrations.findByMint(tokenMint);
+    if (!record) {
+      return 'This migration is no longer in the history.';
+    }
+
+    const jupiterData = await this.migrationDetector?.fetchTokenOrganicScore(tokenMint);
+    if (!jupiterData) {
+      return 'Could not fetch current metrics, try again later.';
+    }
+
+    const alert = this.formatAlertMessage(record.migration, record.tokenData, jupiterData, this.subscribers.get(message.chat.id));
+    const refreshed = `${alert.text}\n🔄 Metrics refreshed at ${new Date().toLocaleString()}`;
+    // Photo captions are capped, so the timestamp is left out when it doesn't fit
+    const text = message.photo && getCaptionLength(refreshed) > MAX_CAPTION_LENGTH ? alert.text : refreshed;
+    const target = {
+      chat_id: message.chat.id,
+      message_id: message.message_id,
+      parse_mode: 'HTML' as const,
+      reply_markup: message.reply_markup,
+    };
+    try {
+      // Alerts sent with a chart are photos, whose text is the caption
+      if (message.photo) {
+        await this.bot.editMessageCaption(text, target);
+      } else {
+        await this.bot.editMessageText(text, target);
+      }
+    } catch (error: any) {
+      if (/message is not modified/i.test(error?.response?.body?.description || '')) {
+        return 'Metrics are unchanged.';
+      }
+      throw error;
+    }
+    return '🔄 Metrics refreshed';
+  }
+
   async sendMigrationAlert(
     migration: MigrationTransaction,
     tokenData: TokenData,
-    jupiterData?: JupiterTokenData | null
-  ): Promise<void> {
-    const message = this.formatAlertMessage(migration, tokenData, jupiterData);
+    jupiterData?: JupiterTokenData | null,
+    chartImage?: Buffer
+  ): Promise<SentAlert[]> {
+    if (this.paused) {
+      console.log('⏸  Alert delivery is paused, skipping migration alert');
+      return [];
+    }
+
+    const sent: SentAlert[] = [];
+    // Each layout and language is rendered once, however many chats use it
+    const messages = new Map<string, AlertMessage>();
+
+    // Send to subscribed users whose filters accept this token
+    const recipients = this.subscribers
+      .list()
+      .filter(record => matchesFilters(record.filters, jupiterData) && !isMutedDev(record, jupiterData?.dev));
+    const replyMarkup = buildAlertKeyboard(migration, jupiterData);
+    const promises = recipients.map(async (record) => {
+      const chatId = record.chatId;
+      try {
+        const key = `${this.getAlertLayout(record)}:${this.getAlertLanguage(record)}`;
+        if (!messages.has(key)) {
+          messages.set(key, this.formatAlertMessage(migration, tokenData, jupiterData, record, chartImage));
+        }
+        const message = messages.get(key)!;
+        // Photo captions are capped, so long alerts go out as text without the chart
+        const chart = message.chartImage && getCaptionLength(message.text) <= MAX_CAPTION_LENGTH ? message.chartImage : undefined;
+        const options = { ...this.threadOptions(chatId), parse_mode: 'HTML' as const, reply_markup: replyMarkup };
+        const sentMessage = await this.delivery.send(chatId, () => chart
+          ? this.bot.sendPhoto(chatId, chart, { ...options, caption: message.text }, { filename: 'chart.png', contentType: 'image/png' })
+          : this.bot.sendMessage(chatId, message.text, options), { priority: ALERT_PRIORITY });
+        sent.push({ chatId, messageId: sentMessage.message_id });
+        this.metrics?.alerts.inc({ chat_id: chatId, status: 'sent' });
+      } catch (error: any) {
+        console.error(`Error sending migration alert to user ${chatId}:`, error?.message || error);
+        this.metrics?.alerts.inc({ chat_id: chatId, status: 'failed' });
+      }
+    });
+
+    await Promise.allSettled(promises);
+    console.log(`Migration alert sent to ${recipients.length} users`);
+    return sent;
+  }
 
-    // Send to all subscribed users (text only, no chart image)
-    const promises = Array.from(this.subscribedUsers).map(async (chatId) => {
+  async sendPreAlert(alert: PreAlert, jupiterData?: JupiterTokenData | null): Promise<void> {
+    if (this.paused) {
+      return;
+    }
+
+    const text = this.formatPreAlertMessage(alert, jupiterData);
+    const chatIds = this.subscribers
+      .list()
+      .filter(record => record.preAlerts && !isMutedDev(record, alert.creator))
+      .map(record => record.chatId);
+
+    const promises = chatIds.map(async (chatId) => {
       try {
-        await this.bot.sendMessage(chatId, message.text, {
+        await this.delivery.send(chatId, () => this.bot.sendMessage(chatId, text, {
+          ...this.threadOptions(chatId),
           parse_mode: 'HTML',
-        });
-      } catch (error) {
-        console.error(`Error sending text message to user ${chatId}:`, error);
+          disable_web_page_preview: true,
+        }), { priority: ALERT_PRIORITY });
+      } catch (error: any) {
+        console.error(`Error sending pre-alert to user ${chatId}:`, error?.message || error);
       }
     });
 
     await Promise.allSettled(promises);
-    console.log(`Migration alert sent to ${this.subscribedUsers.size} users`);
+    console.log(`Pre-alert sent to ${chatIds.length} users`);
   }
 
+  isPaused(): boolean {
+    return this.paused;
+  }
+
+  // Returns the alerts the follow-up could not be sent for (all of them while delivery is paused)
+  async sendFollowUp(followUp: FollowUpRecord, current: MetricsSnapshot): Promise<SentAlert[]> {
+    if (this.paused) {
+      return followUp.alerts;
+    }
+
+    const text = this.formatFollowUpMessage(followUp, current);
+
+    // Reply to the original alert in each chat that is still subscribed
+    const failed: SentAlert[] = [];
+    const promises = followUp.alerts
+      .filter(alert => this.subscribers.has(alert.chatId))
+      .map(async (alert) => {
+        try {
+          await this.delivery.send(alert.chatId, () => this.bot.sendMessage(alert.chatId, text, {
+            ...this.threadOptions(alert.chatId),
+            parse_mode: 'HTML',
+            reply_to_message_id: alert.messageId,
+            allow_sending_without_reply: true,
+          }), { priority: NOTICE_PRIORITY });
+        } catch (error: any) {
+          console.error(`Error sending follow-up to user ${alert.chatId}:`, error?.message || error);
+          failed.push(alert);
+        }
+      });
+
+    await Promise.allSettled(promises);
+    return failed;
+  }
+
+  // Renders the alert in the chat's layout and language
   private formatAlertMessage(
     migration: MigrationTransaction,
     tokenData: TokenData,
-    jupiterData?: JupiterTokenData | null
+    jupiterData?: JupiterTokenData | null,
+    record?: SubscriberRecord,
+    chartImage?: Buffer
   ): AlertMessage {
-    let text = `
-🚀 <b>Pump.fun Migration Alert!</b>
+    const text = this.templates.render(
+      this.getAlertLayout(record),
+      this.getAlertLanguage(record),
+      migration,
+      tokenData,
+      jupiterData
+    );
+    return { text, chartImage };
+  }
 
-📊 <b>Token:</b> ${tokenData.name} (${tokenData.symbol})
-📍 <b>Contract:</b> <code>${migration.tokenMint}</code>
-    `.trim();
+  // Shows a freshly chosen layout or language on the latest migration
+  private sendAlertPreview(msg: TelegramBot.Message): void {
+    const latest = this.migrations.recent(1)[0];
+    if (!latest) {
+      return;
+    }
 
-    // Add organic score and metrics if available
-    if (jupiterData) {
-      const organicScore = jupiterData.organicScore?.toFixed(2) || 'N/A';
-      const organicScoreLabel = jupiterData.organicScoreLabel || 'N/A';
-      const scoreEmoji = this.getScoreEmoji(jupiterData.organicScoreLabel);
-      
-      text += `\n\n${scoreEmoji} <b>Organic Score:</b> ${organicScore} (${organicScoreLabel})`;
-      
-      if (jupiterData.mcap) {
-        text += `\n💰 <b>Market Cap:</b> $${jupiterData.mcap.toLocaleString(undefined, { maximumFractionDigits: 2 })}`;
-      }
-      
-      if (jupiterData.liquidity) {
-        text += `\n💧 <b>Liquidity:</b> $${jupiterData.liquidity.toLocaleString(undefined, { maximumFractionDigits: 2 })}`;
-      }
-      
-      if (jupiterData.holderCount) {
-        text += `\n👥 <b>Holders:</b> ${jupiterData.holderCount.toLocaleString()}`;
-      }
+    const preview = this.formatAlertMessage(latest.migration, latest.tokenData, latest.jupiterData, this.subscribers.get(msg.chat.id));
+    this.reply(msg, preview.text, { parse_mode: 'HTML', disable_web_page_preview: true });
+  }
+
+  private formatPreAlertMessage(alert: PreAlert, jupiterData?: JupiterTokenData | null): string {
+    const name = jupiterData?.name && jupiterData?.symbol
+      ? `${escapeHtml(jupiterData.name)} (${escapeHtml(jupiterData.symbol)})`
+      : 'Unknown Token';
+
+    let text = `⏳ <b>About to Graduate: ${alert.progress.toFixed(1)}%</b>\n\n` +
+      `📊 <b>Token:</b> ${name}\n` +
+      `📍 <b>Contract:</b> <code>${alert.tokenMint}</code>\n` +
+      `💎 <b>Curve SOL:</b> ${alert.realSolReserves.toLocaleString(undefined, { maximumFractionDigits: 2 })} SOL`;
+
+    if (jupiterData?.mcap) {
+      text += `\n💰 <b>Market Cap:</b> ${formatUsd(jupiterData.mcap)}`;
+    }
+
+    if (jupiterData?.holderCount) {
+      text += `\n👥 <b>Holders:</b> ${jupiterData.holderCount.toLocaleString()}`;
     }
 
-    text += `\n\n🔗 <a href="${migration.transactionUrl}">View Transaction on Solscan</a>`;
-    text += `\n\n⏰ Migration detected at ${new Date(migration.timestamp).toLocaleString()}`;
+    text += `\n\n🔗 <a href="https://pump.fun/coin/${alert.tokenMint}">View on pump.fun</a>`;
+    return text;
+  }
+
+  private formatFollowUpMessage(followUp: FollowUpRecord, current: MetricsSnapshot): string {
+    const { baseline } = followUp;
+    let text = `⏱ <b>${escapeHtml(followUp.tokenSymbol)} +${formatDelay(followUp.delayMs)} after migration</b>`;
+
+    text += `\n💵 <b>Price:</b> ${formatMetricChange(baseline.price, current.price, value => `$${value.toPrecision(4)}`)}`;
+    text += `\n💰 <b>Market Cap:</b> ${formatMetricChange(baseline.marketCap, current.marketCap, formatUsd)}`;
+    text += `\n💧 <b>Liquidity:</b> ${formatMetricChange(baseline.liquidity, current.liquidity, formatUsd)}`;
+
+    return text;
+  }
+
+  private formatRecentMessage(records: MigrationRecord[]): string {
+    const lines = records.map((record, index) => {
+      const { migration, tokenData, jupiterData } = record;
+      const mcap = jupiterData?.mcap ?? tokenData.marketCap;
+      const mcapText = mcap ? `$${mcap.toLocaleString(undefined, { maximumFractionDigits: 0 })}` : 'N/A';
+      const time = new Date(migration.timestamp).toLocaleString();
+      const tokenMint = escapeHtml(migration.tokenMint);
+
+      return `${index + 1}. <b>${escapeHtml(tokenData.symbol)}</b> - MC ${mcapText}\n` +
+        `   <code>${tokenMint}</code>\n` +
+        `   <a href="${escapeHtml(migration.transactionUrl)}">Tx</a> | ` +
+        `<a href="https://dexscreener.com/solana/${tokenMint}">DexScreener</a> | ${time}`;
+    });
+
+    return `🕒 <b>Last ${records.length} migrations</b>\n\n${lines.join('\n\n')}`;
+  }
+
+  private formatWatchlistMessage(watchlist: string[]): string {
+    const lines = watchlist.map((tokenMint, index) => {
+      const record = this.migrations.findByMint(tokenMint);
+      const symbol = record ? escapeHtml(record.tokenData.symbol) : 'Unknown';
+      return `${index + 1}. <b>${symbol}</b>\n` +
+        `   <code>${tokenMint}</code>\n` +
+        `   <a href="https://dexscreener.com/solana/${tokenMint}">DexScreener</a> | ` +
+        `<a href="https://pump.fun/coin/${tokenMint}">pump.fun</a>`;
+    });
 
-    return { text };
+    return `👀 <b>Watching ${watchlist.length} tokens</b>\n\n${lines.join('\n\n')}\n\nTap "Watch this token" again on an alert to remove it.`;
   }
 
-  private getScoreEmoji(scoreLabel?: string): string {
-    switch (scoreLabel?.toLowerCase()) {
-      case 'high':
-        return '🟢';
-      case 'medium':
-        return '🟡';
-      case 'low':
-        return '🔴';
-      default:
-        return '📊';
+  private formatLatencyMessage(summary: LatencySummary[]): string {
+    const labels: Record<LatencySummary['segment'], string> = {
+      chain: 'Block → notification',
+      received: 'Notification',
+      dequeued: 'Queue wait',
+      fetched: 'Transaction fetch',
+      detected: 'Detection',
+      jupiterFetched: 'Jupiter fetch',
+      tokenDataFetched: 'Token data fetch',
+      chartRendered: 'Chart render',
+      sent: 'Telegram send',
+      total: 'Total (notification → sent)',
+    };
+    const lines = summary.map(item =>
+      `<b>${labels[item.segment]}</b> (${item.count})\n` +
+      `   p50 ${formatDuration(item.p50)} | p90 ${formatDuration(item.p90)} | p99 ${formatDuration(item.p99)}`
+    );
+
+    return `⏱ <b>Alert latency</b>\n\n${lines.join('\n')}`;
+  }
+
+  private formatStatsMessage(): string {
+    const records = this.subscribers.list();
+    const privateChats = records.filter(record => record.chatType === 'private').length;
+    const startOfDay = new Date();
+    startOfDay.setHours(0, 0, 0, 0);
+    const registry = this.metrics?.registry;
+    const errorCount = (name: string, filter = {}) => registry ? String(registry.total(name, filter)) : 'N/A';
+
+    return '📊 <b>Bot stats</b>\n\n' +
+      `⏱ <b>Uptime:</b> ${formatUptime(Date.now() - this.startedAt)}\n` +
+      `📣 <b>Alerts:</b> ${this.paused ? '⏸ Paused' : '▶️ Active'}\n` +
+      `👥 <b>Subscribers:</b> ${records.length} (${privateChats} private, ${records.length - privateChats} groups/channels)\n` +
+      `🚀 <b>Migrations today:</b> ${this.migrations.countSince(startOfDay.getTime())}\n\n` +
+      '<b>Errors</b>\n' +
+      `   Telegram delivery: ${errorCount('pump_bot_alerts_total', { status: 'failed' })}\n` +
+      `   Telegram polling: ${this.pollingErrors}\n` +
+      `   Fetch failures: ${errorCount('pump_bot_fetch_errors_total')}\n` +
+      `   Rate limited (429): ${errorCount('pump_bot_fetch_rate_limited_total')}`;
+  }
+
+  private formatUsersMessage(records: SubscriberRecord[]): string {
+    const lines = records
+      .sort((a, b) => a.joinedAt - b.joinedAt)
+      .slice(0, MAX_USERS_LISTED)
+      .map(record => {
+        const status = record.lastDeliveryStatus === 'failed' ? '❌' : record.lastDeliveryStatus === 'ok' ? '✅' : '➖';
+        return `${status} <code>${record.chatId}</code> (${record.chatType}${record.messageThreadId ? `, topic ${record.messageThreadId}` : ''}) - joined ${new Date(record.joinedAt).toISOString().slice(0, 10)}`;
+      });
+    const more = records.length > MAX_USERS_LISTED ? `\n\n…and ${records.length - MAX_USERS_LISTED} more` : '';
+
+    return `👥 <b>${records.length} subscribers</b>\n\n${lines.join('\n')}${more}`;
+  }
+
+  private isAdmin(userId: number): boolean {
+    return this.config.adminChatIds.includes(String(userId));
+  }
+
+  // Replies with a refusal for non-admins. Checks the sender, not the chat, so listing a group doesn't make
+  // its members admins; channel posts have no sender and are refused.
+  private requireAdmin(msg: TelegramBot.Message): boolean {
+    if (msg.from && this.isAdmin(msg.from.id)) {
+      return true;
     }
+    this.reply(msg, ADMIN_ONLY_MESSAGE);
+    return false;
+  }
+
+  private getAlertLayout(record?: SubscriberRecord): AlertLayout {
+    return record?.template || this.config.defaultTemplate;
+  }
+
+  private getAlertLanguage(record?: SubscriberRecord): AlertLanguage {
+    return record?.language || this.config.defaultLanguage;
+  }
+
+  /**
+   * Serves the webhook path on the HTTP server; requests without the secret token are rejected
+   */
+  registerWebhook(server: HttpServer): void {
+    const webhookPath = new URL(this.config.telegramWebhookUrl).pathname;
+    server.post(webhookPath, async (req) => {
+      if (!isValidSecret(req.headers['x-telegram-bot-api-secret-token'], this.config.telegramWebhookSecret)) {
+        return { status: 401, body: { error: 'Unauthorized' } };
+      }
+
+      this.bot.processUpdate(await readJsonBody(req));
+      return { body: { ok: true } };
+    });
+  }
+
+  // Points Telegram at the webhook URL (call once the HTTP server is listening)
+  async setWebhook(): Promise<void> {
+    await this.bot.setWebHook(this.config.telegramWebhookUrl, { secret_token: this.config.telegramWebhookSecret });
+    console.log(`🪝 Telegram webhook set to ${this.config.telegramWebhookUrl}`);
   }
 
   getSubscribedUsers(): number[] {
-    return Array.from(this.subscribedUsers);
+    return this.subscribers.list().map(record => record.chatId);
   }
 
-  addUser(chatId: number): void {
-    this.subscribedUsers.add(chatId);
+  addUser(chatId: number, chatType?: string): void {
+    this.subscribers.add(chatId, chatType);
   }
 
   removeUser(chatId: number): void {
-    this.subscribedUsers.delete(chatId);
+    this.subscribers.remove(chatId);
   }
 
-  stopPolling(): void {
-    this.bot.stopPolling();
+  // Stops receiving updates: ends long polling, or removes the webhook so another instance can take over
+  async stop(): Promise<void> {
+    if (this.config.telegramMode === 'polling') {
+      await this.bot.stopPolling();
+      return;
+    }
+
+    try {
+      await this.bot.deleteWebHook();
+      console.log('🪝 Telegram webhook removed');
+    } catch (error: any) {
+      console.error('Error removing Telegram webhook:', error?.message || error);
+    }
   }
 }
 
+// Matches "/name" or "/name@botname" at the start of a message, followed by the arguments pattern
+function command(name: string, args?: RegExp): RegExp {
+  return new RegExp(`^\\/${name}(?:@\\w+)?(?=\\s|$)${args ? args.source : ''}`);
+}
+
+function formatUsd(value: number): string {
+  return `$${value.toLocaleString(undefined, { maximumFractionDigits: 0 })}`;
+}
+
+function getCaptionLength(html: string): number {
+  return html.replace(/<[^>]+>/g, '').replace(/&(lt|gt|amp|quot);/g, ' ').length;
+}
 
+function isValidSecret(header: string | string[] | undefined, secret: string): boolean {
+  const received = Buffer.from(typeof header === 'string' ? header : '');
+  const expected = Buffer.from(secret);
+  return received.length === expected.length && crypto.timingSafeEqual(received, expected);
+}
 
+function isMutedDev(record: SubscriberRecord, dev?: string): boolean {
+  return !!dev && !!record.mutedDevs?.includes(dev);
+}
+
+// Forum topic a message was posted in (undefined for the General topic and non-forum chats)
+function getTopicThreadId(msg: TelegramBot.Message): number | undefined {
+  return msg.is_topic_message ? msg.message_thread_id : undefined;
+}
+
+function formatUptime(ms: number): string {
+  const minutes = Math.floor(ms / 60000);
+  const days = Math.floor(minutes / 1440);
+  const hours = Math.floor((minutes % 1440) / 60);
+  return days > 0 ? `${days}d ${hours}h ${minutes % 60}m` : `${hours}h ${minutes % 60}m`;
+}
+
+function formatDuration(ms: number): string {
+  return ms < 1000 ? `${Math.round(ms)}ms` : `${(ms / 1000).toFixed(2)}s`;
+}
+
+function formatDelay(delayMs: number): string {
+  if (delayMs % 3600000 === 0) return `${delayMs / 3600000}h`;
+  if (delayMs % 60000 === 0) return `${delayMs / 60000}m`;
+  return `${Math.round(delayMs / 1000)}s`;
+}
+
+function formatMetricChange(before: number | undefined, after: number | undefined, format: (value: number) => string): string {
+  if (after === undefined) {
+    return 'N/A';
+  }
+
+  if (!before) {
+    return format(after);
+  }
+
+  const change = ((after - before) / before) * 100;
+  const emoji = change >= 0 ? '📈' : '📉';
+  return `${format(after)} (${emoji} ${change >= 0 ? '+' : ''}${change.toFixed(1)}%)`;
+}
@@ -0,0 +1,104 @@
+import { FetchScheduler, FetchSchedulerStats, RateLimitError, TransientError } from '../fetchers/scheduler';
+import { SubscriberRepository } from '../storage/subscribers';
+
+// Telegram allows about one message per second in a private chat and 20 per minute in a group
+const PRIVATE_CHAT_INTERVAL_MS = 1000;
+const GROUP_CHAT_INTERVAL_MS = 3000;
+
+export interface DeliveryOptions {
+  // Migration alerts go out before follow-ups and broadcasts
+  priority?: number;
+}
+
+/**
+ * Sends Telegram messages under the global and per-chat rate limits, retries 429s after `retry_after` and 5xx errors,
+ * records each chat's delivery outcome and unsubscribes chats that blocked the bot or no longer exist
+ */
+export class TelegramDeliveryQueue {
+  private scheduler: FetchScheduler;
+  private subscribers: SubscriberRepository;
+  // Earliest time the next message may go to each chat
+  private nextSendAt = new Map<number, number>();
+
+  constructor(subscribers: SubscriberRepository, messagesPerSecond: number = 30) {
+    this.subscribers = subscribers;
+    this.scheduler = new FetchScheduler({
+      name: 'telegram',
+      concurrency: 10,
+      ratePerSecond: messagesPerSecond,
+    });
+  }
+
+  async send<T>(chatId: number, request: () => Promise<T>, options: DeliveryOptions = {}): Promise<T> {
+    await this.waitForChat(chatId);
+
+    try {
+      const result = await this.scheduler.schedule(async () => {
+        try {
+          return await request();
+        } catch (error) {
+          throw toSchedulerError(error);
+        }
+      }, { priority: options.priority ?? 0 });
+      this.subscribers.recordDelivery(chatId, 'ok');
+      return result;
+    } catch (error: any) {
+      const description = getErrorDescription(error);
+      if (isDeadChatError(error) && this.subscribers.remove(chatId)) {
+        console.warn(`🚫 Unsubscribed chat ${chatId}: ${description}`);
+      } else {
+        this.subscribers.recordDelivery(chatId, 'failed', description);
+      }
+      throw error;
+    }
+  }
+
+  getStats(): FetchSchedulerStats {
+    return this.scheduler.getStats();
+  }
+
+  // Reserves the chat's next send slot and waits for it
+  private async waitForChat(chatId: number): Promise<void> {
+    const now = Date.now();
+    const sendAt = Math.max(now, this.nextSendAt.get(chatId) || 0);
+    // Group and channel ids are negative
+    this.nextSendAt.set(chatId, sendAt + (chatId < 0 ? GROUP_CHAT_INTERVAL_MS : PRIVATE_CHAT_INTERVAL_MS));
+
+    if (this.nextSendAt.size > 1000) {
+      this.nextSendAt.forEach((at, id) => {
+        if (at < now) {
+          this.nextSendAt.delete(id);
+        }
+      });
+    }
+
+    if (sendAt > now) {
+      await new Promise(resolve => setTimeout(resolve, sendAt - now));
+    }
+  }
+}
+
+// 403s (blocked, kicked, deactivated) and "chat not found" won't succeed on a retry
+export function isDeadChatError(error: any): boolean {
+  const status = error?.response?.statusCode;
+  return status === 403 || (status === 400 && /chat not found/i.test(getErrorDescription(error)));
+}
+
+function getErrorDescription(error: any): string {
+  return error?.response?.body?.description || error?.message || String(error);
+}
+
+// node-telegram-bot-api reports the HTTP status as `response.statusCode`, which the scheduler doesn't check:
+// 429s become RateLimitErrors (Telegram sends the backoff as `parameters.retry_after` seconds in the body),
+// and 5xx / gateway errors become TransientErrors so they are retried with backoff
+function toSchedulerError(error: any): unknown {
+  const status = error?.response?.statusCode;
+  if (status === 429) {
+    const retryAfter = error.response.body?.parameters?.retry_after;
+    return new RateLimitError(getErrorDescription(error), typeof retryAfter === 'number' ? retryAfter * 1000 : undefined);
+  }
+  if (status >= 500) {
+    return new TransientError(getErrorDescription(error));
+  }
+  return error;
+}
@@ -0,0 +1,72 @@
+import TelegramBot from 'node-telegram-bot-api';
+import { JupiterTokenData } from '../detectors/migration';
+import { MigrationTransaction } from '../types';
+
+export type AlertAction = 'watch' | 'mute' | 'refresh';
+
+export interface AlertCallback {
+  action: AlertAction;
+  // Token mint for watch/refresh, dev wallet for mute
+  address: string;
+}
+
+const ALERT_ACTIONS: AlertAction[] = ['watch', 'mute', 'refresh'];
+
+export interface TokenLink {
+  label: string;
+  url: string;
+}
+
+/**
+ * Chart, trade and explorer links for a migrated token (the pool link only when the pool is known)
+ */
+export function getTokenLinks(migration: MigrationTransaction): TokenLink[] {
+  const mint = migration.tokenMint;
+  const links: TokenLink[] = [
+    { label: '📈 DexScreener', url: `https://dexscreener.com/solana/${mint}` },
+    { label: '🦅 Birdeye', url: `https://birdeye.so/token/${mint}?chain=solana` },
+    { label: '💊 pump.fun', url: `https://pump.fun/coin/${mint}` },
+    { label: '🪐 Jupiter', url: `https://jup.ag/swap/SOL-${mint}` },
+  ];
+  if (migration.liquidityPool) {
+    links.push({ label: '🏊 Pool', url: `https://solscan.io/account/${migration.liquidityPool}` });
+  }
+  return links;
+}
+
+/**
+ * Inline keyboard attached to migration alerts: chart/trade links plus watch, mute-dev and refresh actions.
+ * Callback data is "<action>:<address>", which stays under Telegram's 64-byte limit.
+ */
+export function buildAlertKeyboard(
+  migration: MigrationTransaction,
+  jupiterData?: JupiterTokenData | null
+): TelegramBot.InlineKeyboardMarkup {
+  const mint = migration.tokenMint;
+  const links: TelegramBot.InlineKeyboardButton[] = getTokenLinks(migration).map(link => ({ text: link.label, url: link.url }));
+
+  const actions: TelegramBot.InlineKeyboardButton[] = [
+    { text: '👀 Watch this token', callback_data: `watch:${mint}` },
+  ];
+  // The dev wallet comes from Jupiter, so there is nothing to mute without it
+  if (jupiterData?.dev) {
+    actions.push({ text: '🔇 Mute this dev', callback_data: `mute:${jupiterData.dev}` });
+  }
+
+  return {
+    inline_keyboard: [
+      links.slice(0, 3),
+      links.slice(3),
+      actions,
+      [{ text: '🔄 Refresh metrics', callback_data: `refresh:${mint}` }],
+    ],
+  };
+}
+
+export function parseAlertCallback(data?: string): AlertCallback | null {
+  const match = data?.match(/^(\w+):([1-9A-HJ-NP-Za-km-z]{32,44})$/);
+  if (!match || !ALERT_ACTIONS.includes(match[1] as AlertAction)) {
+    return null;
+  }
+  return { action: match[1] as AlertAction, address: match[2] };
+}
@@ -0,0 +1,267 @@
+/**
+ * Minimal mustache-style templates for Telegram HTML messages:
+ * - `{{path}}` / `{{path|format}}` inserts an HTML-escaped value ("N/A" when missing)
+ * - `{{#path}}…{{/path}}` renders its body when the value is set (once per item for arrays, with `{{.}}` as the item)
+ * - `{{^path}}…{{/path}}` renders its body when the value is missing
+ * A section tag alone on its line takes the line with it, and a line left empty by an unset inline section is dropped.
+ */
+
+export class TemplateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TemplateError';
+  }
+}
+
+type TemplateNode =
+  | { type: 'text'; value: string }
+  | { type: 'value'; path: string; format?: string }
+  | { type: 'section'; path: string; inverted: boolean; standalone: boolean; children: TemplateNode[] };
+
+export interface CompiledTemplate {
+  name: string;
+  nodes: TemplateNode[];
+}
+
+export type TemplateFormatter = (value: any, locale?: string) => string;
+
+const MISSING = 'N/A';
+// Marks where an unset inline section was, so its line can be dropped if nothing else is on it
+const EMPTY_SECTION = '\u0000';
+const TAG_PATTERN = /\{\{\s*([#^/]?)\s*([\w.]+)(?:\s*\|\s*(\w+))?\s*\}\}/g;
+
+const FORMATTERS: Record<string, TemplateFormatter> = {
+  number: (value, locale) => Number(value).toLocaleString(locale, { maximumFractionDigits: 0 }),
+  usd: (value, locale) => `$${Number(value).toLocaleString(locale, { maximumFractionDigits: 2 })}`,
+  price: value => `$${Number(value).toPrecision(4)}`,
+  sol: (value, locale) => `${Number(value).toLocaleString(locale, { maximumFractionDigits: 2 })} SOL`,
+  fixed2: value => Number(value).toFixed(2),
+  percent: value => `${Number(value).toFixed(1)}%`,
+  upper: value => String(value).toUpperCase(),
+  date: (value, locale) => new Date(Number(value)).toLocaleString(locale),
+};
+
+// Telegram's HTML subset (https://core.telegram.org/bots/api#html-style) and the attributes each tag accepts
+const ALLOWED_TAGS: Record<string, string[]> = {
+  b: [], strong: [], i: [], em: [], u: [], ins: [], s: [], strike: [], del: [],
+  'tg-spoiler': [], span: ['class'], a: ['href'], 'tg-emoji': ['emoji-id'],
+  code: ['class'], pre: [], blockquote: ['expandable'],
+};
+
+/**
+ * Parses and validates a template; throws a TemplateError naming the problem
+ */
+export function compileTemplate(name: string, source: string, roots: string[]): CompiledTemplate {
+  const nodes = parse(name, source);
+  validateNodes(name, nodes, roots);
+  return { name, nodes };
+}
+
+export function renderTemplate(template: CompiledTemplate, context: Record<string, any>, locale?: string): string {
+  return renderNodes(template.nodes, context, undefined, locale)
+    .replace(new RegExp(`^${EMPTY_SECTION}+(?:\\n|$)`, 'gm'), '')
+    .replace(new RegExp(EMPTY_SECTION, 'g'), '')
+    .trim();
+}
+
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function parse(name: string, source: string): TemplateNode[] {
+  const root: TemplateNode[] = [];
+  const stack: Array<{ path: string; children: TemplateNode[] }> = [{ path: '', children: root }];
+  let position = 0;
+
+  for (const match of source.matchAll(TAG_PATTERN)) {
+    const [tag, kind, path, format] = match;
+    let start = match.index!;
+    let end = start + tag.length;
+
+    // Section tags alone on their line swallow the line
+    let standalone = false;
+    if (kind) {
+      const lineStart = source.lastIndexOf('\n', start - 1) + 1;
+      const lineEnd = source.indexOf('\n', end);
+      const before = source.slice(lineStart, start);
+      const after = source.slice(end, lineEnd === -1 ? source.length : lineEnd);
+      if (lineStart >= position && /^[ \t]*$/.test(before) && /^[ \t]*\r?$/.test(after)) {
+        standalone = true;
+        start = lineStart;
+        end = lineEnd === -1 ? source.length : lineEnd + 1;
+      }
+    }
+
+    const current = stack[stack.length - 1];
+    if (start > position) {
+      current.children.push({ type: 'text', value: source.slice(position, start) });
+    }
+    position = end;
+
+    if (kind === '#' || kind === '^') {
+      const section: TemplateNode = { type: 'section', path, inverted: kind === '^', standalone, children: [] };
+      current.children.push(section);
+      stack.push({ path, children: section.children });
+    } else if (kind === '/') {
+      if (current.path !== path) {
+        throw new TemplateError(`${name}: {{/${path}}} does not close ${current.path ? `{{#${current.path}}}` : 'any section'}`);
+      }
+      stack.pop();
+    } else {
+      current.children.push({ type: 'value', path, format });
+    }
+  }
+
+  if (stack.length > 1) {
+    throw new TemplateError(`${name}: {{#${stack[stack.length - 1].path}}} is never closed`);
+  }
+  if (position < source.length) {
+    root.push({ type: 'text', value: source.slice(position) });
+  }
+  return root;
+}
+
+function validateNodes(name: string, nodes: TemplateNode[], roots: string[]): void {
+  nodes.forEach(node => {
+    if (node.type === 'text') {
+      return;
+    }
+    if (node.path !== '.' && !roots.includes(node.path.split('.')[0])) {
+      throw new TemplateError(`${name}: unknown placeholder {{${node.path}}}`);
+    }
+    if (node.type === 'value' && node.format && !hasOwn(FORMATTERS, node.format)) {
+      throw new TemplateError(`${name}: unknown format "${node.format}" in {{${node.path}|${node.format}}}`);
+    }
+    if (node.type === 'section') {
+      validateNodes(name, node.children, roots);
+    }
+  });
+
+  // Each section must be valid HTML on its own, since any of them may be left out
+  const probe = nodes
+    .map(node => node.type === 'text' ? node.value : node.type === 'value' ? 'x' : '')
+    .join('');
+  const error = validateTelegramHtml(probe);
+  if (error) {
+    throw new TemplateError(`${name}: ${error}`);
+  }
+}
+
+/**
+ * Checks text against Telegram's HTML parse mode rules
+ * @returns The first problem found, or null when Telegram will accept it
+ */
+export function validateTelegramHtml(html: string): string | null {
+  const open: string[] = [];
+  const tagPattern = /<(\/?)([a-zA-Z][\w-]*)((?:\s+[\w-]+(?:="[^"]*")?)*)\s*>/y;
+
+  for (let index = 0; index < html.length; index++) {
+    const char = html[index];
+
+    if (char === '&') {
+      const entity = html.slice(index).match(/^&(?:lt|gt|amp|quot|#\d+|#x[\da-fA-F]+);/);
+      if (!entity) {
+        return `unescaped "&" at position ${index} (use &amp;)`;
+      }
+      index += entity[0].length - 1;
+      continue;
+    }
+
+    if (char === '>') {
+      return `unescaped ">" at position ${index} (use &gt;)`;
+    }
+
+    if (char !== '<') {
+      continue;
+    }
+
+    tagPattern.lastIndex = index;
+    const tag = tagPattern.exec(html);
+    if (!tag) {
+      return `unescaped "<" at position ${index} (use &lt;)`;
+    }
+    const [text, closing, rawName, rawAttributes] = tag;
+    const tagName = rawName.toLowerCase();
+    const allowed = hasOwn(ALLOWED_TAGS, tagName) ? ALLOWED_TAGS[tagName] : undefined;
+    if (!allowed) {
+      return `<${tagName}> is not supported by Telegram`;
+    }
+
+    if (closing) {
+      if (open.pop() !== tagName) {
+        return `</${tagName}> does not match the open tag`;
+      }
+    } else {
+      for (const attribute of rawAttributes.matchAll(/([\w-]+)(?:="([^"]*)")?/g)) {
+        if (!allowed.includes(attribute[1])) {
+          return `<${tagName}> does not support the "${attribute[1]}" attribute`;
+        }
+      }
+      if (tagName === 'a' && !/href="[^"]+"/.test(rawAttributes)) {
+        return '<a> needs an href';
+      }
+      if (tagName === 'span' && !/class="tg-spoiler"/.test(rawAttributes)) {
+        return '<span> is only supported as <span class="tg-spoiler">';
+      }
+      // Nothing can be nested inside code blocks, except <code> directly inside <pre>
+      const parent = open[open.length - 1];
+      if (parent === 'code' || (parent === 'pre' && tagName !== 'code')) {
+        return `<${tagName}> cannot be nested inside <${parent}>`;
+      }
+      open.push(tagName);
+    }
+    index += text.length - 1;
+  }
+
+  if (open.length > 0) {
+    return `<${open[open.length - 1]}> is never closed`;
+  }
+  return null;
+}
+
+function renderNodes(nodes: TemplateNode[], context: Record<string, any>, item: any, locale?: string): string {
+  return nodes.map(node => {
+    if (node.type === 'text') {
+      return node.value;
+    }
+
+    const value = node.path === '.' ? item : resolve(context, node.path);
+    if (node.type === 'value') {
+      if (value === undefined || value === null || value === '') {
+        return MISSING;
+      }
+      return escapeHtml(node.format ? FORMATTERS[node.format](value, locale) : String(value));
+    }
+
+    let rendered = '';
+    if (node.inverted) {
+      rendered = isSet(value) ? '' : renderNodes(node.children, context, item, locale);
+    } else if (Array.isArray(value)) {
+      rendered = value.map(entry => renderNodes(node.children, context, entry, locale)).join('');
+    } else if (isSet(value)) {
+      rendered = renderNodes(node.children, context, item, locale);
+    }
+    return rendered || node.standalone ? rendered : EMPTY_SECTION;
+  }).join('');
+}
+
+function resolve(context: Record<string, any>, path: string): any {
+  return path.split('.').reduce((value, key) => value != null && hasOwn(Object(value), key) ? value[key] : undefined, context as any);
+}
+
+// Missing, empty and zero values count as unset (a zero market cap is as good as unknown)
+function isSet(value: any): boolean {
+  if (Array.isArray(value)) {
+    return value.length > 0;
+  }
+  return value !== undefined && value !== null && value !== false && value !== '' && value !== 0;
+}
+
+// Custom templates may use any name, so only the table's own entries count (not e.g. "toString")
+function hasOwn(object: object, key: string): boolean {
+  return Object.prototype.hasOwnProperty.call(object, key);
+}
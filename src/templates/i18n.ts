@@ -0,0 +1,174 @@
+import { AlertLanguage, RiskFlag, RiskFlagCode, RiskLevel } from '../types';
+
+export interface AlertLabels {
+  // Locale for number and date formatting (undefined = the server's default)
+  locale?: string;
+  title: string;
+  migrated: string;
+  token: string;
+  contract: string;
+  pool: string;
+  poolSeeded: string;
+  organicScore: string;
+  marketCap: string;
+  liquidity: string;
+  holders: string;
+  price: string;
+  fdv: string;
+  priceChange24h: string;
+  volume24h: string;
+  trades24h: string;
+  traders24h: string;
+  dev: string;
+  risk: string;
+  riskLevels: Record<RiskLevel, string>;
+  // "{value}" is replaced with the flag's amount
+  riskFlags: Record<RiskFlagCode, string>;
+  viewTransaction: string;
+  detectedAt: string;
+}
+
+export const LANGUAGE_NAMES: Record<AlertLanguage, string> = {
+  en: 'English',
+  es: 'Español',
+  ru: 'Русский',
+  zh: '中文',
+};
+
+export const TRANSLATIONS: Record<AlertLanguage, AlertLabels> = {
+  en: {
+    title: 'Pump.fun Migration Alert!',
+    migrated: 'migrated',
+    token: 'Token',
+    contract: 'Contract',
+    pool: 'Pool',
+    poolSeeded: 'Pool Seeded',
+    organicScore: 'Organic Score',
+    marketCap: 'Market Cap',
+    liquidity: 'Liquidity',
+    holders: 'Holders',
+    price: 'Price',
+    fdv: 'FDV',
+    priceChange24h: '24h Change',
+    volume24h: '24h Volume',
+    trades24h: '24h Buys / Sells',
+    traders24h: '24h Traders',
+    dev: 'Dev',
+    risk: 'Risk',
+    riskLevels: { low: 'LOW', medium: 'MEDIUM', high: 'HIGH' },
+    riskFlags: {
+      suspicious: 'Flagged as suspicious by Jupiter',
+      mintAuthority: 'Mint authority still enabled',
+      freezeAuthority: 'Freeze authority still enabled',
+      topHolders: 'Top holders own {value}',
+      devBalance: 'Dev holds {value}',
+      devMigrations: 'Dev has {value} prior migrations',
+    },
+    viewTransaction: 'View Transaction on Solscan',
+    detectedAt: 'Migration detected at',
+  },
+  es: {
+    locale: 'es-ES',
+    title: '¡Alerta de migración en Pump.fun!',
+    migrated: 'migró',
+    token: 'Token',
+    contract: 'Contrato',
+    pool: 'Pool',
+    poolSeeded: 'Liquidez inicial',
+    organicScore: 'Puntuación orgánica',
+    marketCap: 'Capitalización',
+    liquidity: 'Liquidez',
+    holders: 'Holders',
+    price: 'Precio',
+    fdv: 'FDV',
+    priceChange24h: 'Cambio 24h',
+    volume24h: 'Volumen 24h',
+    trades24h: 'Compras / ventas 24h',
+    traders24h: 'Traders 24h',
+    dev: 'Dev',
+    risk: 'Riesgo',
+    riskLevels: { low: 'BAJO', medium: 'MEDIO', high: 'ALTO' },
+    riskFlags: {
+      suspicious: 'Marcado como sospechoso por Jupiter',
+      mintAuthority: 'La autoridad de mint sigue activa',
+      freezeAuthority: 'La autoridad de congelación sigue activa',
+      topHolders: 'Los mayores holders tienen el {value}',
+      devBalance: 'El dev tiene el {value}',
+      devMigrations: 'El dev tiene {value} migraciones previas',
+    },
+    viewTransaction: 'Ver transacción en Solscan',
+    detectedAt: 'Migración detectada el',
+  },
+  ru: {
+    locale: 'ru-RU',
+    title: 'Миграция на Pump.fun!',
+    migrated: 'мигрировал',
+    token: 'Токен',
+    contract: 'Контракт',
+    pool: 'Пул',
+    poolSeeded: 'В пул внесено',
+    organicScore: 'Органический рейтинг',
+    marketCap: 'Капитализация',
+    liquidity: 'Ликвидность',
+    holders: 'Холдеры',
+    price: 'Цена',
+    fdv: 'FDV',
+    priceChange24h: 'Изменение за 24ч',
+    volume24h: 'Объём за 24ч',
+    trades24h: 'Покупки / продажи за 24ч',
+    traders24h: 'Трейдеры за 24ч',
+    dev: 'Разработчик',
+    risk: 'Риск',
+    riskLevels: { low: 'НИЗКИЙ', medium: 'СРЕДНИЙ', high: 'ВЫСОКИЙ' },
+    riskFlags: {
+      suspicious: 'Jupiter пометил токен как подозрительный',
+      mintAuthority: 'Право выпуска (mint authority) не отозвано',
+      freezeAuthority: 'Право заморозки (freeze authority) не отозвано',
+      topHolders: 'У крупнейших холдеров {value}',
+      devBalance: 'У разработчика {value}',
+      devMigrations: 'Предыдущих миграций у разработчика: {value}',
+    },
+    viewTransaction: 'Транзакция в Solscan',
+    detectedAt: 'Миграция обнаружена',
+  },
+  zh: {
+    locale: 'zh-CN',
+    title: 'Pump.fun 迁移提醒！',
+    migrated: '已迁移',
+    token: '代币',
+    contract: '合约',
+    pool: '流动池',
+    poolSeeded: '初始注入',
+    organicScore: '有机评分',
+    marketCap: '市值',
+    liquidity: '流动性',
+    holders: '持有人',
+    price: '价格',
+    fdv: '完全稀释估值',
+    priceChange24h: '24小时涨跌',
+    volume24h: '24小时成交量',
+    trades24h: '24小时买入 / 卖出',
+    traders24h: '24小时交易者',
+    dev: '开发者',
+    risk: '风险',
+    riskLevels: { low: '低', medium: '中', high: '高' },
+    riskFlags: {
+      suspicious: '被 Jupiter 标记为可疑',
+      mintAuthority: '铸币权限仍未放弃',
+      freezeAuthority: '冻结权限仍未放弃',
+      topHolders: '前几大持有人持有 {value}',
+      devBalance: '开发者持有 {value}',
+      devMigrations: '开发者此前已迁移 {value} 次',
+    },
+    viewTransaction: '在 Solscan 查看交易',
+    detectedAt: '迁移检测时间',
+  },
+};
+
+export function isAlertLanguage(value: string): value is AlertLanguage {
+  return Object.prototype.hasOwnProperty.call(TRANSLATIONS, value);
+}
+
+export function translateRiskFlag(flag: RiskFlag, labels: AlertLabels): string {
+  return labels.riskFlags[flag.code].replace('{value}', flag.value ?? '');
+}
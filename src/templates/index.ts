@@ -0,0 +1,106 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { JupiterTokenData } from '../detectors/migration';
+import { assessRisk, getRiskEmoji } from '../risk/assessment';
+import { AlertLanguage, AlertLayout, MigrationTransaction, TokenData } from '../types';
+import { CompiledTemplate, TemplateError, compileTemplate, renderTemplate } from './engine';
+import { TRANSLATIONS, translateRiskFlag } from './i18n';
+import { BUILTIN_LAYOUTS } from './layouts';
+
+export { TemplateError, escapeHtml, validateTelegramHtml } from './engine';
+export { LANGUAGE_NAMES, isAlertLanguage } from './i18n';
+
+export const ALERT_LAYOUTS: AlertLayout[] = ['compact', 'standard', 'detailed'];
+
+// Placeholders a template may use: the raw MigrationTransaction, TokenData and JupiterTokenData
+// fields (e.g. {{jupiter.audit.devMigrations}}), labels in the chat's language, and derived values
+const TEMPLATE_ROOTS = ['migration', 'token', 'jupiter', 't', 'risk', 'scoreEmoji', 'poolSeeded', 'volume24h'];
+
+/**
+ * Alert layouts, compiled and validated against Telegram's HTML subset at startup.
+ * A `<layout>.html` file in the templates directory replaces the built-in layout; invalid files are skipped.
+ */
+export class AlertTemplates {
+  private templates = {} as Record<AlertLayout, CompiledTemplate>;
+
+  constructor(templatesDir?: string) {
+    ALERT_LAYOUTS.forEach(layout => {
+      this.templates[layout] = compileTemplate(layout, BUILTIN_LAYOUTS[layout], TEMPLATE_ROOTS);
+      if (templatesDir) {
+        this.loadCustomTemplate(templatesDir, layout);
+      }
+    });
+  }
+
+  render(
+    layout: AlertLayout,
+    language: AlertLanguage,
+    migration: MigrationTransaction,
+    tokenData: TokenData,
+    jupiterData?: JupiterTokenData | null
+  ): string {
+    const labels = TRANSLATIONS[language];
+    const risk = assessRisk(jupiterData);
+    const stats = jupiterData?.stats24h;
+
+    const context = {
+      migration,
+      token: tokenData,
+      jupiter: jupiterData || undefined,
+      t: labels,
+      risk: risk && {
+        emoji: getRiskEmoji(risk.level),
+        level: labels.riskLevels[risk.level],
+        flags: risk.flags.map(flag => translateRiskFlag(flag, labels)),
+      },
+      scoreEmoji: getScoreEmoji(jupiterData?.organicScoreLabel),
+      poolSeeded: formatPoolSeeded(migration, tokenData, labels.locale),
+      volume24h: stats && (stats.buyVolume || 0) + (stats.sellVolume || 0),
+    };
+    return renderTemplate(this.templates[layout], context, labels.locale);
+  }
+
+  private loadCustomTemplate(templatesDir: string, layout: AlertLayout): void {
+    const file = path.join(templatesDir, `${layout}.html`);
+    if (!fs.existsSync(file)) {
+      return;
+    }
+
+    try {
+      this.templates[layout] = compileTemplate(layout, fs.readFileSync(file, 'utf8'), TEMPLATE_ROOTS);
+      console.log(`📝 Loaded custom ${layout} alert template from ${file}`);
+    } catch (error: any) {
+      const reason = error instanceof TemplateError ? error.message : error?.message || error;
+      console.error(`❌ Invalid alert template ${file}, using the built-in ${layout} layout: ${reason}`);
+    }
+  }
+}
+
+export function isAlertLayout(value: string): value is AlertLayout {
+  return (ALERT_LAYOUTS as string[]).includes(value);
+}
+
+export function getScoreEmoji(scoreLabel?: string): string {
+  switch (scoreLabel?.toLowerCase()) {
+    case 'high':
+      return '🟢';
+    case 'medium':
+      return '🟡';
+    case 'low':
+      return '🔴';
+    default:
+      return '📊';
+  }
+}
+
+// Token and SOL amounts deposited into the AMM pool, e.g. "206,900,000 FIX + 84.99 SOL"
+export function formatPoolSeeded(migration: MigrationTransaction, tokenData: TokenData, locale?: string): string | undefined {
+  const seeded: string[] = [];
+  if (migration.poolBaseAmount !== undefined) {
+    seeded.push(`${migration.poolBaseAmount.toLocaleString(locale, { maximumFractionDigits: 0 })} ${tokenData.symbol}`);
+  }
+  if (migration.poolQuoteAmount !== undefined) {
+    seeded.push(`${migration.poolQuoteAmount.toLocaleString(locale, { maximumFractionDigits: 2 })} SOL`);
+  }
+  return seeded.length > 0 ? seeded.join(' + ') : undefined;
+}
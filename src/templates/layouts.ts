@@ -0,0 +1,76 @@
+import { AlertLayout } from '../types';
+
+// Built-in alert layouts. Labels come from `t` (see i18n.ts), so each layout serves every language.
+export const BUILTIN_LAYOUTS: Record<AlertLayout, string> = {
+  compact: `
+🚀 <b>{{token.symbol}}</b> {{t.migrated}} · <code>{{migration.tokenMint}}</code>
+{{#jupiter}}💰 {{jupiter.mcap|usd}} · 💧 {{jupiter.liquidity|usd}} · 👥 {{jupiter.holderCount|number}}{{/jupiter}}
+{{#risk}}{{risk.emoji}} {{t.risk}}: {{risk.level}}{{/risk}}
+🔗 <a href="{{migration.transactionUrl}}">Solscan</a>
+`,
+
+  standard: `
+🚀 <b>{{t.title}}</b>
+
+📊 <b>{{t.token}}:</b> {{token.name}} ({{token.symbol}})
+📍 <b>{{t.contract}}:</b> <code>{{migration.tokenMint}}</code>
+{{#migration.liquidityPool}}🏊 <b>{{t.pool}}:</b> <code>{{migration.liquidityPool}}</code>{{/migration.liquidityPool}}
+{{#poolSeeded}}🌱 <b>{{t.poolSeeded}}:</b> {{poolSeeded}}{{/poolSeeded}}
+{{#jupiter}}
+
+{{scoreEmoji}} <b>{{t.organicScore}}:</b> {{jupiter.organicScore|fixed2}} ({{jupiter.organicScoreLabel}})
+{{#jupiter.mcap}}💰 <b>{{t.marketCap}}:</b> {{jupiter.mcap|usd}}{{/jupiter.mcap}}
+{{#jupiter.liquidity}}💧 <b>{{t.liquidity}}:</b> {{jupiter.liquidity|usd}}{{/jupiter.liquidity}}
+{{#jupiter.holderCount}}👥 <b>{{t.holders}}:</b> {{jupiter.holderCount|number}}{{/jupiter.holderCount}}
+{{#risk}}
+
+{{risk.emoji}} <b>{{t.risk}}:</b> {{risk.level}}
+{{#risk.flags}}
+⚠️ {{.}}
+{{/risk.flags}}
+{{/risk}}
+{{/jupiter}}
+
+🔗 <a href="{{migration.transactionUrl}}">{{t.viewTransaction}}</a>
+
+⏰ {{t.detectedAt}} {{migration.timestamp|date}}
+`,
+
+  detailed: `
+🚀 <b>{{t.title}}</b>
+
+📊 <b>{{t.token}}:</b> {{token.name}} ({{token.symbol}})
+📍 <b>{{t.contract}}:</b> <code>{{migration.tokenMint}}</code>
+{{#jupiter.dev}}👨‍💻 <b>{{t.dev}}:</b> <code>{{jupiter.dev}}</code>{{/jupiter.dev}}
+{{#migration.liquidityPool}}🏊 <b>{{t.pool}}:</b> <code>{{migration.liquidityPool}}</code>{{/migration.liquidityPool}}
+{{#poolSeeded}}🌱 <b>{{t.poolSeeded}}:</b> {{poolSeeded}}{{/poolSeeded}}
+{{#jupiter}}
+
+{{scoreEmoji}} <b>{{t.organicScore}}:</b> {{jupiter.organicScore|fixed2}} ({{jupiter.organicScoreLabel}})
+{{#jupiter.usdPrice}}💵 <b>{{t.price}}:</b> {{jupiter.usdPrice|price}}{{/jupiter.usdPrice}}
+{{#jupiter.mcap}}💰 <b>{{t.marketCap}}:</b> {{jupiter.mcap|usd}}{{/jupiter.mcap}}
+{{#jupiter.fdv}}🏷 <b>{{t.fdv}}:</b> {{jupiter.fdv|usd}}{{/jupiter.fdv}}
+{{#jupiter.liquidity}}💧 <b>{{t.liquidity}}:</b> {{jupiter.liquidity|usd}}{{/jupiter.liquidity}}
+{{#jupiter.holderCount}}👥 <b>{{t.holders}}:</b> {{jupiter.holderCount|number}}{{/jupiter.holderCount}}
+{{#jupiter.stats24h}}
+
+{{#jupiter.stats24h.priceChange}}📈 <b>{{t.priceChange24h}}:</b> {{jupiter.stats24h.priceChange|percent}}{{/jupiter.stats24h.priceChange}}
+{{#volume24h}}📊 <b>{{t.volume24h}}:</b> {{volume24h|usd}}{{/volume24h}}
+{{#jupiter.stats24h.numBuys}}🔁 <b>{{t.trades24h}}:</b> {{jupiter.stats24h.numBuys|number}} / {{jupiter.stats24h.numSells|number}}{{/jupiter.stats24h.numBuys}}
+{{#jupiter.stats24h.numTraders}}🧑‍🤝‍🧑 <b>{{t.traders24h}}:</b> {{jupiter.stats24h.numTraders|number}}{{/jupiter.stats24h.numTraders}}
+{{/jupiter.stats24h}}
+{{#risk}}
+
+{{risk.emoji}} <b>{{t.risk}}:</b> {{risk.level}}
+{{#risk.flags}}
+⚠️ {{.}}
+{{/risk.flags}}
+{{/risk}}
+{{/jupiter}}
+
+🔗 <a href="{{migration.transactionUrl}}">{{t.viewTransaction}}</a>
+🧾 <code>{{migration.signature}}</code>
+
+⏰ {{t.detectedAt}} {{migration.timestamp|date}}
+`,
+};
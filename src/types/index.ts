@@ -6,6 +6,9 @@ export interface MigrationTransaction {
   timestamp: number;
   liquidityPool?: string;
   solAmount?: number;
+  // Base tokens and quote SOL deposited into the AMM pool
+  poolBaseAmount?: number;
+  poolQuoteAmount?: number;
   transactionUrl: string;
 }
 
@@ -20,11 +23,101 @@ export interface TokenData {
   logoUrl?: string;
 }
 
+export type RiskLevel = 'low' | 'medium' | 'high';
+
+export type RiskFlagCode =
+  | 'suspicious'
+  | 'mintAuthority'
+  | 'freezeAuthority'
+  | 'topHolders'
+  | 'devBalance'
+  | 'devMigrations';
+
+export interface RiskFlag {
+  level: RiskLevel;
+  code: RiskFlagCode;
+  // Formatted amount the flag refers to (percentage or count), used by translations
+  value?: string;
+  message: string;
+}
+
+export interface RiskAssessment {
+  level: RiskLevel;
+  flags: RiskFlag[];
+}
+
+export interface AlertFilters {
+  minMcap?: number;
+  minLiquidity?: number;
+  minHolders?: number;
+  minOrganicScore?: number;
+  organicLabel?: 'low' | 'medium' | 'high';
+  maxRisk?: RiskLevel;
+}
+
+export type AlertLayout = 'compact' | 'standard' | 'detailed';
+
+export type AlertLanguage = 'en' | 'es' | 'ru' | 'zh';
+
 export interface AlertMessage {
   text: string;
   chartImage?: Buffer;
 }
 
+export interface PreAlert {
+  tokenMint: string;
+  bondingCurve: string;
+  // Bonding curve progress in percent
+  progress: number;
+  realSolReserves: number;
+  realTokenReserves: number;
+  creator?: string;
+  timestamp: number;
+}
+
+export interface SentAlert {
+  chatId: number;
+  messageId: number;
+}
+
+export type SubscriptionMode = 'logs' | 'transaction';
+
+export type TransactionSourceType = 'helius' | 'rpc' | 'yellowstone';
+
+// How Telegram updates are received: getUpdates long polling, or a webhook on the embedded HTTP server
+export type TelegramMode = 'polling' | 'webhook';
+
+export interface SourceHealth {
+  source: string;
+  endpoint: string;
+  connected: boolean;
+  // Consecutive failed attempts since the last successful subscription
+  reconnectAttempts: number;
+  lastConnectedAt?: number;
+  lastDisconnectedAt?: number;
+  lastEventAt?: number;
+}
+
+// Pipeline stages timed for every migration, in order
+export type LatencyStage =
+  | 'received'
+  | 'dequeued'
+  | 'fetched'
+  | 'detected'
+  | 'jupiterFetched'
+  | 'tokenDataFetched'
+  | 'chartRendered'
+  | 'sent';
+
+export interface LatencyTrace {
+  // On-chain block time (unix ms), when the source or RPC reports it
+  blockTime?: number;
+  // Queued by the gap backfill, so the timings don't reflect live latency
+  backfill?: boolean;
+  // Unix ms at which each stage was reached (pushed transactions skip dequeued/fetched)
+  stages: Partial<Record<LatencyStage, number>>;
+}
+
 export interface HeliusWebSocketMessage {
   jsonrpc: string;
   method?: string;
@@ -34,16 +127,19 @@ export interface HeliusWebSocketMessage {
         transaction?: {
           signatures?: string[];
           message?: {
-            accountKeys?: string[];
+            accountKeys?: any[];
             instructions?: any[];
           };
         };
         meta?: {
+          err?: unknown;
           logMessages?: string[];
           preBalances?: number[];
           postBalances?: number[];
-        };
+        } | null;
+        version?: number | 'legacy';
       };
+      signature?: string;
       slot?: number;
       value?: {
         signature?: string;
@@ -52,6 +148,9 @@ export interface HeliusWebSocketMessage {
     };
     subscription?: number;
   };
+  // Responses to requests (e.g. the subscription id)
+  result?: unknown;
+  error?: { code: number; message: string };
   id?: number;
 }
 
@@ -0,0 +1,18 @@
+export interface BackoffOptions {
+  baseMs: number;
+  maxMs: number;
+}
+
+export const DEFAULT_BACKOFF: BackoffOptions = {
+  baseMs: 1000,
+  maxMs: 60000,
+};
+
+/**
+ * Exponential backoff with jitter for the given (1-based) attempt.
+ * The delay is picked between half and all of min(maxMs, baseMs * 2^(attempt - 1)).
+ */
+export function getBackoffDelay(attempt: number, options: BackoffOptions = DEFAULT_BACKOFF): number {
+  const ceiling = Math.min(options.maxMs, options.baseMs * Math.pow(2, Math.max(0, attempt - 1)));
+  return Math.round(ceiling / 2 + Math.random() * (ceiling / 2));
+}
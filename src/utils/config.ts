@@ -1,58 +1,359 @@
+import * as crypto from 'crypto';
 import * as dotenv from 'dotenv';
+import { AlertFilters, AlertLanguage, AlertLayout, SubscriptionMode, TelegramMode, TransactionSourceType } from '../types';
+import { parseFilterList } from '../filters/alertFilters';
 
 dotenv.config();
 
+// A destination for migration alerts (see notifiers/), with its own filters and retry policy
+export interface NotifierConfig {
+  // Webhook URL, empty when the sink is disabled (Telegram uses the bot instead)
+  url: string;
+  filters: AlertFilters;
+  // Retries after a failed delivery (network errors, 429s and 5xx responses), with exponential backoff from retryDelayMs
+  retries: number;
+  retryDelayMs: number;
+}
+
 export interface Config {
   heliusApiKey: string;
   telegramBotToken: string;
   pumpFunProgramId: string;
   pumpFunAmmProgramId: string;
+  // pump.fun's migration authority, which signs every migrate transaction
+  pumpFunMigrationAccount: string;
   userChatIds: string[];
+  // Users allowed to run admin commands (e.g. /latency) in any chat
+  adminChatIds: string[];
   jupiterApiKey: string;
+  dataDir: string;
+  followUpDelaysMs: number[];
+  // Bonding curve progress (%) that triggers a pre-alert, 0 when disabled
+  preAlertThreshold: number;
+  heliusWsUrl: string;
+  heliusRpcUrl: string;
+  // Where migrations are streamed from: Helius, any Solana RPC WebSocket, or a Yellowstone gRPC endpoint
+  transactionSource: TransactionSourceType;
+  // 'logs' = logsSubscribe + getParsedTransaction, 'transaction' = Helius transactionSubscribe
+  subscriptionMode: SubscriptionMode;
+  solanaRpcUrl: string;
+  solanaWsUrl: string;
+  yellowstoneGrpcUrl: string;
+  yellowstoneXToken: string;
+  // Extra WebSocket/RPC endpoints to rotate to when the primary one fails
+  fallbackWsUrls: string[];
+  fallbackRpcUrls: string[];
+  // Max signatures to backfill after a reconnect, 0 when disabled
+  backfillMaxSignatures: number;
+  // Parallel getParsedTransaction calls and requests per second allowed per upstream API
+  fetchConcurrency: number;
+  rpcRateLimit: number;
+  jupiterRateLimit: number;
+  birdeyeRateLimit: number;
+  dexScreenerRateLimit: number;
+  pumpFunRateLimit: number;
+  // Attach a bonding curve price chart to migration alerts
+  alertCharts: boolean;
+  // Alert layout and language for chats that haven't picked one, and an optional directory of custom layouts
+  defaultTemplate: AlertLayout;
+  defaultLanguage: AlertLanguage;
+  templatesDir: string;
+  // Telegram messages per second across all chats
+  telegramRateLimit: number;
+  // Port for the /metrics and /healthz HTTP server, 0 when disabled
+  httpPort: number;
+  httpHost: string;
+  jupiterApiUrl: string;
+  pumpFunApiUrl: string;
+  telegramApiUrl: string;
+  telegramMode: TelegramMode;
+  // Public HTTPS URL Telegram posts updates to (webhook mode); its path is served on the HTTP server
+  telegramWebhookUrl: string;
+  // Sent by Telegram in the X-Telegram-Bot-Api-Secret-Token header of every webhook request
+  telegramWebhookSecret: string;
+  notifiers: {
+    telegram: NotifierConfig;
+    discord: NotifierConfig;
+    slack: NotifierConfig;
+    webhook: NotifierConfig;
+  };
+  // HMAC-SHA256 key for signing generic webhook deliveries (empty = unsigned)
+  alertWebhookSecret: string;
+  // Keys accepted by the REST API and migration stream, which are only served when at least one is set
+  apiKeys: string[];
+}
+
+export interface LoadConfigOptions {
+  // Offline tools (e.g. replay) can run without some of the API keys
+  requireHelius?: boolean;
+  requireTelegram?: boolean;
+  requireJupiter?: boolean;
 }
 
-export function loadConfig(): Config {
+export function loadConfig(options: LoadConfigOptions = {}): Config {
+  const { requireHelius = true, requireTelegram = true, requireJupiter = true } = options;
   const heliusApiKey = process.env.HELIUS_API_KEY;
   const telegramBotToken = process.env.TELEGRAM_BOT_TOKEN;
   const pumpFunProgramId = process.env.PUMP_FUN_PROGRAM_ID || '6EF8rrecthR5Dkzon8Nwu78hRvfCKubJ14M5uBEwF6P';
-  const pumpFunAmmProgramId = process.env.PUMP_FUN_AMM_PROGRAM_ID || '675kPX9MHTjS2zt1qfr1NYHuzeLXfQM9H24wFSUt1Mp8';
+  const pumpFunAmmProgramId = process.env.PUMP_FUN_AMM_PROGRAM_ID || 'pAMMBay6oceH9fJKBRHGP5D4bD4sWpmSwMn52FMfXEA';
+  const pumpFunMigrationAccount = process.env.PUMP_FUN_MIGRATION_ACCOUNT || '39azUYFWPz3VHgKCf3VChUwbpURdCHRxjWVowf5jUJjg';
   const userChatIdsEnv = process.env.USER_CHAT_IDS || '';
   const jupiterApiKey = process.env.JUPITER_API_KEY;
+  const dataDir = process.env.DATA_DIR || './data';
+  const followUpDelaysEnv = process.env.FOLLOW_UP_DELAYS ?? '5m,15m,1h';
+  const preAlertThresholdEnv = process.env.PRE_ALERT_THRESHOLD || '';
+  const transactionSource = (process.env.TRANSACTION_SOURCE || 'helius').toLowerCase();
+
+  if (transactionSource !== 'helius' && transactionSource !== 'rpc' && transactionSource !== 'yellowstone') {
+    throw new Error('TRANSACTION_SOURCE must be one of "helius", "rpc" or "yellowstone".');
+  }
 
-  if (!heliusApiKey || heliusApiKey.includes('your_') || heliusApiKey.includes('here')) {
+  // Only the Helius source needs a Helius API key
+  if (requireHelius && transactionSource === 'helius' && !isSet(heliusApiKey)) {
     throw new Error(
       'HELIUS_API_KEY is required. Please set it in your .env file.\n' +
       'Get your API key from: https://www.helius.dev/'
     );
   }
 
-  if (!telegramBotToken || telegramBotToken.includes('your_') || telegramBotToken.includes('here')) {
+  if (requireTelegram && !isSet(telegramBotToken)) {
     throw new Error(
       'TELEGRAM_BOT_TOKEN is required. Please set it in your .env file.\n' +
       'Create a bot at: https://t.me/botfather'
     );
   }
 
-  if (!jupiterApiKey || jupiterApiKey.includes('your_') || jupiterApiKey.includes('here')) {
+  if (requireJupiter && !isSet(jupiterApiKey)) {
     throw new Error(
       'JUPITER_API_KEY is required. Please set it in your .env file.\n' +
       'Get your API key from: https://station.jup.ag/'
     );
   }
 
-  const userChatIds = userChatIdsEnv
-    .split(',')
-    .map(id => id.trim())
-    .filter(id => id.length > 0);
+  // Endpoints can be overridden (e.g. to point at local mock servers in tests)
+  const heliusWsUrl = process.env.HELIUS_WS_URL || `wss://mainnet.helius-rpc.com/?api-key=${heliusApiKey}`;
+  const heliusRpcUrl = process.env.HELIUS_RPC_URL || `https://mainnet.helius-rpc.com/?api-key=${heliusApiKey}`;
+  const subscriptionMode = (process.env.SUBSCRIPTION_MODE || 'logs').toLowerCase();
+  const solanaRpcUrl = process.env.SOLANA_RPC_URL || 'https://api.mainnet-beta.solana.com';
+  const solanaWsUrl = process.env.SOLANA_WS_URL || solanaRpcUrl.replace(/^http/, 'ws');
+  const yellowstoneGrpcUrl = process.env.YELLOWSTONE_GRPC_URL || '';
+  const yellowstoneXToken = process.env.YELLOWSTONE_X_TOKEN || '';
+  const fallbackWsUrls = parseList(process.env.FALLBACK_WS_URLS || '');
+  const fallbackRpcUrls = parseList(process.env.FALLBACK_RPC_URLS || '');
+  const backfillMaxSignaturesEnv = process.env.BACKFILL_MAX_SIGNATURES ?? '1000';
+  const fetchConcurrency = parsePositiveNumber(process.env.FETCH_CONCURRENCY, 4, 'FETCH_CONCURRENCY');
+  const rpcRateLimit = parsePositiveNumber(process.env.RPC_RATE_LIMIT, 10, 'RPC_RATE_LIMIT');
+  const jupiterRateLimit = parsePositiveNumber(process.env.JUPITER_RATE_LIMIT, 5, 'JUPITER_RATE_LIMIT');
+  const birdeyeRateLimit = parsePositiveNumber(process.env.BIRDEYE_RATE_LIMIT, 1, 'BIRDEYE_RATE_LIMIT');
+  const dexScreenerRateLimit = parsePositiveNumber(process.env.DEXSCREENER_RATE_LIMIT, 5, 'DEXSCREENER_RATE_LIMIT');
+  const pumpFunRateLimit = parsePositiveNumber(process.env.PUMP_FUN_RATE_LIMIT, 2, 'PUMP_FUN_RATE_LIMIT');
+  const alertCharts = (process.env.ALERT_CHARTS || 'true').toLowerCase() !== 'false';
+  const defaultTemplate = (process.env.DEFAULT_TEMPLATE || 'standard').toLowerCase();
+  const defaultLanguage = (process.env.DEFAULT_LANGUAGE || 'en').toLowerCase();
+  const templatesDir = process.env.TEMPLATES_DIR || '';
+  const telegramRateLimit = parsePositiveNumber(process.env.TELEGRAM_RATE_LIMIT, 30, 'TELEGRAM_RATE_LIMIT');
+  const httpPortEnv = process.env.HTTP_PORT || '';
+  const httpHost = process.env.HTTP_HOST || '0.0.0.0';
+  const jupiterApiUrl = (process.env.JUPITER_API_URL || 'https://api.jup.ag').replace(/\/+$/, '');
+  const pumpFunApiUrl = (process.env.PUMP_FUN_API_URL || 'https://frontend-api-v3.pump.fun').replace(/\/+$/, '');
+  const telegramApiUrl = (process.env.TELEGRAM_API_URL || 'https://api.telegram.org').replace(/\/+$/, '');
+  const telegramMode = (process.env.TELEGRAM_MODE || 'polling').toLowerCase();
+  const telegramWebhookUrl = process.env.TELEGRAM_WEBHOOK_URL || '';
+  // Without a configured secret, a random one is registered on every start
+  const telegramWebhookSecret = process.env.TELEGRAM_WEBHOOK_SECRET || crypto.randomBytes(32).toString('hex');
+  const notifiers = {
+    // Telegram retries each chat in its delivery queue, so only filters apply to the sink as a whole
+    telegram: { url: '', filters: parseFiltersEnv('TELEGRAM_FILTERS'), retries: 0, retryDelayMs: 0 },
+    discord: parseNotifierConfig('DISCORD', process.env.DISCORD_WEBHOOK_URL || ''),
+    slack: parseNotifierConfig('SLACK', process.env.SLACK_WEBHOOK_URL || ''),
+    webhook: parseNotifierConfig('ALERT_WEBHOOK', process.env.ALERT_WEBHOOK_URL || ''),
+  };
+  const alertWebhookSecret = process.env.ALERT_WEBHOOK_SECRET || '';
+  const apiKeys = parseList(process.env.API_KEYS || '');
+
+  if (subscriptionMode !== 'logs' && subscriptionMode !== 'transaction') {
+    throw new Error('SUBSCRIPTION_MODE must be either "logs" or "transaction".');
+  }
+
+  if (defaultTemplate !== 'compact' && defaultTemplate !== 'standard' && defaultTemplate !== 'detailed') {
+    throw new Error('DEFAULT_TEMPLATE must be one of "compact", "standard" or "detailed".');
+  }
+
+  if (defaultLanguage !== 'en' && defaultLanguage !== 'es' && defaultLanguage !== 'ru' && defaultLanguage !== 'zh') {
+    throw new Error('DEFAULT_LANGUAGE must be one of "en", "es", "ru" or "zh".');
+  }
+
+  if (transactionSource === 'yellowstone' && !yellowstoneGrpcUrl) {
+    throw new Error('YELLOWSTONE_GRPC_URL is required when TRANSACTION_SOURCE=yellowstone.');
+  }
+
+  const userChatIds = parseList(userChatIdsEnv);
+  const adminChatIds = parseList(process.env.ADMIN_CHAT_IDS || '');
+
+  const followUpDelaysMs = parseDurationList(followUpDelaysEnv, 'FOLLOW_UP_DELAYS');
+
+  const preAlertThreshold = preAlertThresholdEnv ? parseFloat(preAlertThresholdEnv) : 0;
+  if (isNaN(preAlertThreshold) || preAlertThreshold < 0 || preAlertThreshold >= 100) {
+    throw new Error('PRE_ALERT_THRESHOLD must be a percentage between 0 and 100 (e.g. 90).');
+  }
+
+  const backfillMaxSignatures = backfillMaxSignaturesEnv ? parseInt(backfillMaxSignaturesEnv, 10) : 0;
+  if (isNaN(backfillMaxSignatures) || backfillMaxSignatures < 0) {
+    throw new Error('BACKFILL_MAX_SIGNATURES must be a non-negative number (0 disables the gap backfill).');
+  }
+
+  const httpPort = httpPortEnv ? parseInt(httpPortEnv, 10) : 0;
+  if (isNaN(httpPort) || httpPort < 0 || httpPort > 65535) {
+    throw new Error('HTTP_PORT must be a valid port number (0 disables the HTTP server).');
+  }
+
+  if (telegramMode !== 'polling' && telegramMode !== 'webhook') {
+    throw new Error('TELEGRAM_MODE must be either "polling" or "webhook".');
+  }
+
+  if (telegramMode === 'webhook') {
+    if (!/^https?:\/\/[^/]+/.test(telegramWebhookUrl)) {
+      throw new Error('TELEGRAM_WEBHOOK_URL must be set to the public URL of the webhook when TELEGRAM_MODE is "webhook".');
+    }
+    if (httpPort === 0) {
+      throw new Error('HTTP_PORT must be set when TELEGRAM_MODE is "webhook" (the webhook is served by the HTTP server).');
+    }
+  }
+
+  if (apiKeys.length > 0 && httpPort === 0) {
+    throw new Error('HTTP_PORT must be set when API_KEYS is set (the API is served by the HTTP server).');
+  }
+
+  // Telegram only accepts 1-256 characters from A-Z, a-z, 0-9, _ and -
+  if (!/^[A-Za-z0-9_-]{1,256}$/.test(telegramWebhookSecret)) {
+    throw new Error('TELEGRAM_WEBHOOK_SECRET may only contain letters, digits, "_" and "-" (up to 256 characters).');
+  }
 
   return {
-    heliusApiKey,
-    telegramBotToken,
+    heliusApiKey: heliusApiKey || '',
+    telegramBotToken: telegramBotToken || '',
     pumpFunProgramId,
     pumpFunAmmProgramId,
+    pumpFunMigrationAccount,
     userChatIds,
-    jupiterApiKey,
+    adminChatIds,
+    jupiterApiKey: jupiterApiKey || '',
+    dataDir,
+    followUpDelaysMs,
+    preAlertThreshold,
+    heliusWsUrl,
+    heliusRpcUrl,
+    transactionSource,
+    subscriptionMode,
+    solanaRpcUrl,
+    solanaWsUrl,
+    yellowstoneGrpcUrl,
+    yellowstoneXToken,
+    fallbackWsUrls,
+    fallbackRpcUrls,
+    backfillMaxSignatures,
+    fetchConcurrency,
+    rpcRateLimit,
+    jupiterRateLimit,
+    birdeyeRateLimit,
+    dexScreenerRateLimit,
+    pumpFunRateLimit,
+    alertCharts,
+    defaultTemplate,
+    defaultLanguage,
+    templatesDir,
+    telegramRateLimit,
+    httpPort,
+    httpHost,
+    jupiterApiUrl,
+    pumpFunApiUrl,
+    telegramApiUrl,
+    telegramMode,
+    telegramWebhookUrl,
+    telegramWebhookSecret,
+    notifiers,
+    alertWebhookSecret,
+    apiKeys,
+  };
+}
+
+// HTTP and WebSocket RPC endpoints for the selected provider (Helius, or SOLANA_RPC_URL/SOLANA_WS_URL otherwise),
+// primary first followed by the configured fallbacks
+export function getRpcEndpoints(config: Config): { rpcUrls: string[]; wsUrls: string[] } {
+  const isHelius = config.transactionSource === 'helius';
+  return {
+    rpcUrls: [isHelius ? config.heliusRpcUrl : config.solanaRpcUrl, ...config.fallbackRpcUrls],
+    wsUrls: [isHelius ? config.heliusWsUrl : config.solanaWsUrl, ...config.fallbackWsUrls],
+  };
+}
+
+function isSet(value: string | undefined): value is string {
+  return !!value && !value.includes('your_') && !value.includes('here');
+}
+
+function parseList(value: string): string[] {
+  return value
+    .split(',')
+    .map(item => item.trim())
+    .filter(item => item.length > 0);
+}
+
+// Reads <PREFIX>_FILTERS, <PREFIX>_RETRIES and <PREFIX>_RETRY_DELAY for one notifier sink
+function parseNotifierConfig(prefix: string, url: string): NotifierConfig {
+  if (url && !/^https?:\/\//.test(url)) {
+    throw new Error(`The ${prefix} webhook URL must start with http:// or https://.`);
+  }
+
+  const filters = parseFiltersEnv(`${prefix}_FILTERS`);
+  const retriesEnv = process.env[`${prefix}_RETRIES`] ?? '3';
+  const retries = retriesEnv ? parseInt(retriesEnv, 10) : 0;
+  if (isNaN(retries) || retries < 0) {
+    throw new Error(`${prefix}_RETRIES must be a non-negative number (0 disables retries).`);
+  }
+
+  const [retryDelayMs] = parseDurationList(process.env[`${prefix}_RETRY_DELAY`] || '1s', `${prefix}_RETRY_DELAY`);
+  return { url, filters, retries, retryDelayMs };
+}
+
+function parseFiltersEnv(name: string): AlertFilters {
+  try {
+    return parseFilterList(process.env[name] || '');
+  } catch (error: any) {
+    throw new Error(`${name} is invalid: ${error.message}`);
+  }
+}
+
+function parsePositiveNumber(value: string | undefined, defaultValue: number, name: string): number {
+  if (!value) {
+    return defaultValue;
+  }
+  const parsed = parseFloat(value);
+  if (isNaN(parsed) || parsed <= 0) {
+    throw new Error(`${name} must be a positive number.`);
+  }
+  return parsed;
+}
+
+// Parses a comma-separated list of durations such as "5m,15m,1h" into milliseconds (plain numbers are seconds)
+function parseDurationList(value: string, name: string): number[] {
+  const units: Record<string, number> = {
+    s: 1000,
+    m: 60 * 1000,
+    h: 60 * 60 * 1000,
   };
+
+  return value
+    .split(',')
+    .map(part => part.trim().toLowerCase())
+    .filter(part => part.length > 0)
+    .map(part => {
+      const match = part.match(/^(\d+(?:\.\d+)?)([smh]?)$/);
+      if (!match) {
+        throw new Error(`${name} has an invalid duration "${part}". Use values like 5m, 15m, 1h.`);
+      }
+      return Math.round(parseFloat(match[1]) * units[match[2] || 's']);
+    })
+    .sort((a, b) => a - b);
 }
 
 
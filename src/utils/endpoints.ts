@@ -0,0 +1,33 @@
+/**
+ * Round-robin list of equivalent endpoints (primary first) for failover
+ */
+export class EndpointPool {
+  private urls: string[];
+  private index: number = 0;
+
+  constructor(urls: string[]) {
+    this.urls = Array.from(new Set(urls.filter(url => url.length > 0)));
+    if (this.urls.length === 0) {
+      throw new Error('At least one endpoint is required');
+    }
+  }
+
+  current(): string {
+    return this.urls[this.index];
+  }
+
+  // Moves on to the next endpoint and returns it (stays put when only one is configured)
+  next(): string {
+    this.index = (this.index + 1) % this.urls.length;
+    return this.current();
+  }
+
+  get size(): number {
+    return this.urls.length;
+  }
+}
+
+// Hides API keys in endpoint URLs before logging them
+export function maskUrl(url: string): string {
+  return url.replace(/api-key=[^&]+/, 'api-key=***');
+}
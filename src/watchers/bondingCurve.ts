@@ -0,0 +1,189 @@
+import WebSocket from 'ws';
+import bs58 from 'bs58';
+import { Connection, PublicKey } from '@solana/web3.js';
+import { Config, getRpcEndpoints } from '../utils/config';
+import { getBackoffDelay } from '../utils/backoff';
+import { EndpointPool } from '../utils/endpoints';
+import { PreAlert } from '../types';
+import { PreAlertRepository } from '../storage/preAlerts';
+import {
+  BONDING_CURVE_DISCRIMINATOR,
+  decodeBondingCurve,
+  getBondingCurveProgress,
+} from '../decoders/bondingCurve';
+
+const TOKEN_PROGRAM_ID = new PublicKey('TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA');
+const TOKEN_2022_PROGRAM_ID = new PublicKey('TokenzQdBNbLqP5VEhdkAS6EPFLC1PHnBqCXEpPxuEb');
+
+// Runs an RPC request on the bot's shared connection (rate limited, with endpoint failover)
+export type RpcRunner = <T>(request: (connection: Connection) => Promise<T>) => Promise<T>;
+
+/**
+ * Watches pump.fun bonding-curve accounts over `programSubscribe` and reports
+ * curves that pass the configured progress threshold, once per curve.
+ */
+export class BondingCurveWatcher {
+  private ws: WebSocket | null = null;
+  private config: Config;
+  private repository: PreAlertRepository;
+  private rpc: RpcRunner;
+  private onPreAlert: (alert: PreAlert) => void;
+  private pingInterval: NodeJS.Timeout | null = null;
+  private reconnectTimeout: NodeJS.Timeout | null = null;
+  private pendingCurves: Set<string> = new Set();
+  private isStopped: boolean = false;
+  private endpoints: EndpointPool;
+  private reconnectAttempts: number = 0;
+
+  constructor(config: Config, repository: PreAlertRepository, rpc: RpcRunner, onPreAlert: (alert: PreAlert) => void) {
+    this.config = config;
+    this.repository = repository;
+    this.rpc = rpc;
+    this.endpoints = new EndpointPool(getRpcEndpoints(config).wsUrls);
+    this.onPreAlert = onPreAlert;
+  }
+
+  start(): void {
+    this.isStopped = false;
+    this.ws = new WebSocket(this.endpoints.current());
+
+    this.ws.on('open', () => {
+      this.reconnectAttempts = 0;
+      console.log(`✅ Bonding curve watcher connected (threshold ${this.config.preAlertThreshold}%)`);
+      this.subscribe();
+      this.pingInterval = setInterval(() => {
+        if (this.ws && this.ws.readyState === WebSocket.OPEN) {
+          this.ws.ping();
+        }
+      }, 10000);
+    });
+
+    this.ws.on('message', (data: WebSocket.Data) => {
+      try {
+        this.handleMessage(JSON.parse(data.toString()));
+      } catch (error) {
+        console.error('Error parsing bonding curve message:', error);
+      }
+    });
+
+    this.ws.on('error', (error: any) => {
+      console.error('Bonding curve watcher error:', error.message || error);
+    });
+
+    this.ws.on('close', () => {
+      this.cleanup();
+      if (!this.isStopped) {
+        this.reconnectAttempts++;
+        const delay = getBackoffDelay(this.reconnectAttempts);
+        // Try the next endpoint (if any) after the first failed retry
+        if (this.reconnectAttempts > 1) {
+          this.endpoints.next();
+        }
+        console.log(`Bonding curve watcher closed. Reconnecting in ${(delay / 1000).toFixed(1)}s (attempt ${this.reconnectAttempts})...`);
+        this.reconnectTimeout = setTimeout(() => this.start(), delay);
+      }
+    });
+  }
+
+  stop(): void {
+    this.isStopped = true;
+    this.cleanup();
+    if (this.reconnectTimeout) {
+      clearTimeout(this.reconnectTimeout);
+      this.reconnectTimeout = null;
+    }
+    if (this.ws) {
+      this.ws.close();
+      this.ws = null;
+    }
+  }
+
+  private subscribe(): void {
+    this.ws?.send(JSON.stringify({
+      jsonrpc: '2.0',
+      id: 1,
+      method: 'programSubscribe',
+      params: [
+        this.config.pumpFunProgramId,
+        {
+          encoding: 'base64',
+          commitment: 'confirmed',
+          filters: [{ memcmp: { offset: 0, bytes: bs58.encode(Buffer.from(BONDING_CURVE_DISCRIMINATOR)) } }],
+        },
+      ],
+    }));
+  }
+
+  private handleMessage(message: any): void {
+    if (message.method !== 'programNotification') {
+      return;
+    }
+
+    const value = message.params?.result?.value;
+    const bondingCurve: string | undefined = value?.pubkey;
+    const encoded = value?.account?.data?.[0];
+    if (!bondingCurve || typeof encoded !== 'string') {
+      return;
+    }
+
+    const state = decodeBondingCurve(Buffer.from(encoded, 'base64'));
+    if (!state || state.complete) {
+      return;
+    }
+
+    const progress = getBondingCurveProgress(state);
+    if (progress < this.config.preAlertThreshold) {
+      return;
+    }
+
+    if (this.repository.hasAlerted(bondingCurve) || this.pendingCurves.has(bondingCurve)) {
+      return;
+    }
+
+    this.pendingCurves.add(bondingCurve);
+    this.resolveMint(bondingCurve)
+      .then(tokenMint => {
+        if (!tokenMint) {
+          console.warn(`⚠️  Could not resolve mint for bonding curve ${bondingCurve}`);
+          return;
+        }
+
+        this.repository.markAlerted(bondingCurve);
+        this.onPreAlert({
+          tokenMint,
+          bondingCurve,
+          progress,
+          realSolReserves: Number(state.realSolReserves) / 1e9,
+          realTokenReserves: Number(state.realTokenReserves) / 1e6,
+          creator: state.creator,
+          timestamp: Date.now(),
+        });
+      })
+      .catch(error => {
+        console.error(`❌ Error resolving mint for bonding curve ${bondingCurve}:`, error.message || error);
+      })
+      .finally(() => {
+        this.pendingCurves.delete(bondingCurve);
+      });
+  }
+
+  // The curve account doesn't store its mint, but its associated token account does
+  private async resolveMint(bondingCurve: string): Promise<string | undefined> {
+    const owner = new PublicKey(bondingCurve);
+    for (const programId of [TOKEN_PROGRAM_ID, TOKEN_2022_PROGRAM_ID]) {
+      const { value } = await this.rpc(connection => connection.getParsedTokenAccountsByOwner(owner, { programId }));
+      const mint = value[0]?.account.data.parsed?.info?.mint;
+      if (mint) {
+        return mint;
+      }
+    }
+    return undefined;
+  }
+
+  private cleanup(): void {
+    if (this.pingInterval) {
+      clearInterval(this.pingInterval);
+      this.pingInterval = null;
+    }
+  }
+}
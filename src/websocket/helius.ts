@@ -1,41 +1,73 @@
 import WebSocket from 'ws';
 import { Config } from '../utils/config';
-import { HeliusWebSocketMessage } from '../types';
+import { getBackoffDelay } from '../utils/backoff';
+import { EndpointPool, maskUrl } from '../utils/endpoints';
+import { HeliusWebSocketMessage, SourceHealth, SubscriptionMode } from '../types';
 
+export interface WebSocketClientOptions {
+  // Label used in logs, e.g. "Helius" or "Solana RPC"
+  name?: string;
+  // Endpoints to rotate through on failures, primary first
+  urls?: string[];
+  mode?: SubscriptionMode;
+  // Called when a subscription is re-established after the connection was lost
+  onReconnect?: () => void;
+}
+
+// logsSubscribe is standard Solana RPC, so the client also works against non-Helius endpoints in logs mode
 export class HeliusWebSocketClient {
   private ws: WebSocket | null = null;
   private config: Config;
+  private name: string;
+  private endpoints: EndpointPool;
   private reconnectInterval: NodeJS.Timeout | null = null;
   private pingInterval: NodeJS.Timeout | null = null;
   private subscriptionId: number | null = null;
+  private subscribeRequestId: number | null = null;
+  private activeMode: SubscriptionMode;
   private onTransactionCallback: (message: HeliusWebSocketMessage) => void;
+  private onReconnect?: () => void;
   private reconnectAttempts: number = 0;
-  private maxReconnectAttempts: number = 10;
   private isReconnecting: boolean = false;
+  private isDisconnected: boolean = false;
+  private hasSubscribed: boolean = false;
+  private lastConnectedAt?: number;
+  private lastDisconnectedAt?: number;
+  private lastEventAt?: number;
 
-  constructor(config: Config, onTransaction: (message: HeliusWebSocketMessage) => void) {
+  constructor(
+    config: Config,
+    onTransaction: (message: HeliusWebSocketMessage) => void,
+    options: WebSocketClientOptions = {}
+  ) {
     this.config = config;
     this.onTransactionCallback = onTransaction;
+    this.name = options.name || 'Helius';
+    this.endpoints = new EndpointPool(options.urls || [config.heliusWsUrl]);
+    this.activeMode = options.mode || config.subscriptionMode;
+    this.onReconnect = options.onReconnect;
   }
 
   connect(): void {
-    // Use the same endpoint format as the copy trade bot
-    const wsUrl = `wss://mainnet.helius-rpc.com/?api-key=${this.config.heliusApiKey}`;
-    
-    const maskedUrl = wsUrl.replace(/api-key=[^&]+/, 'api-key=***');
-    console.log(`Connecting to Helius WebSocket: ${maskedUrl}`);
-    console.log(`Using API key: ${this.config.heliusApiKey.substring(0, 8)}...`);
+    const url = this.endpoints.current();
+    console.log(`Connecting to ${this.name} WebSocket: ${maskUrl(url)}`);
+    if (url.includes('api-key=') && this.config.heliusApiKey) {
+      console.log(`Using API key: ${this.config.heliusApiKey.substring(0, 8)}...`);
+    }
     
-    this.ws = new WebSocket(wsUrl);
+    this.isDisconnected = false;
+    this.ws = new WebSocket(url);
 
     this.ws.on('open', () => {
-      console.log('✅ Connected to Helius WebSocket');
-      this.reconnectAttempts = 0;
+      console.log(`✅ Connected to ${this.name} WebSocket`);
       this.startPingInterval();
       this.subscribeToTransactions();
     });
 
     this.ws.on('message', (data: WebSocket.Data) => {
+      if (this.isDisconnected) {
+        return;
+      }
       try {
         const message: HeliusWebSocketMessage = JSON.parse(data.toString());
         this.handleMessage(message);
@@ -48,7 +80,7 @@ export class HeliusWebSocketClient {
       console.error('WebSocket error:', error.message || error);
       
       // Provide helpful error messages
-      if (error.message && error.message.includes('403')) {
+      if (error.message && error.message.includes('403') && this.name === 'Helius') {
         console.error('\n❌ 403 Forbidden Error - Possible causes:');
         console.error('1. Invalid API key - Check your HELIUS_API_KEY in .env');
         console.error('2. API key may not have WebSocket access enabled');
@@ -61,14 +93,23 @@ export class HeliusWebSocketClient {
     this.ws.on('close', (code: number, reason: Buffer) => {
       const reasonStr = reason.toString();
       console.log(`WebSocket connection closed. Code: ${code}, Reason: ${reasonStr || 'none'}`);
+
+      // Closed on purpose via disconnect()
+      if (this.isDisconnected) {
+        return;
+      }
+
+      // First failure since the stream was last healthy
+      if (this.reconnectAttempts === 0) {
+        this.lastDisconnectedAt = Date.now();
+      }
       
-      // Don't reconnect on 403 errors (authentication failure)
-      if (code === 1008 || code === 1003) {
+      // Don't reconnect on 403 errors (authentication failure) unless there's another endpoint to try
+      if ((code === 1008 || code === 1003) && this.endpoints.size === 1) {
         console.error('Authentication failed. Please check your API key.');
         return;
       }
       
-      console.log('Reconnecting in 5 seconds...');
       this.cleanup();
       this.scheduleReconnect();
     });
@@ -86,10 +127,37 @@ export class HeliusWebSocketClient {
         return;
       }
 
-      // Subscribe only to pump.fun program - we'll filter for migrations from all transactions
-      const subscribeMessage = {
+      this.sendSubscribe();
+    }, 1000);
+  }
+
+  private sendSubscribe(): void {
+    this.subscribeRequestId = Math.floor(Date.now() / 1000) + Math.floor(Math.random() * 1000);
+
+    // Subscribe only to pump.fun program - we'll filter for migrations from all transactions
+    const subscribeMessage = this.activeMode === 'transaction'
+      ? {
+        jsonrpc: '2.0',
+        id: this.subscribeRequestId,
+        method: 'transactionSubscribe',
+        params: [
+          {
+            accountInclude: [this.config.pumpFunProgramId],
+            failed: false,
+            vote: false,
+          },
+          {
+            commitment: 'confirmed',
+            encoding: 'jsonParsed',
+            transactionDetails: 'full',
+            showRewards: false,
+            maxSupportedTransactionVersion: 0,
+          },
+        ],
+      }
+      : {
         jsonrpc: '2.0',
-        id: Math.floor(Date.now() / 1000) + Math.floor(Math.random() * 1000),
+        id: this.subscribeRequestId,
         method: 'logsSubscribe',
         params: [
           {
@@ -101,15 +169,26 @@ export class HeliusWebSocketClient {
         ],
       };
 
-      this.ws!.send(JSON.stringify(subscribeMessage));
-      console.log(`Subscribed to pump.fun program logs: ${this.config.pumpFunProgramId.substring(0, 8)}...`);
-    }, 1000);
+    this.ws!.send(JSON.stringify(subscribeMessage));
+    console.log(
+      `Subscribed to pump.fun program ${this.activeMode === 'transaction' ? 'transactions' : 'logs'}: ` +
+      `${this.config.pumpFunProgramId.substring(0, 8)}...`
+    );
   }
 
   private handleMessage(message: HeliusWebSocketMessage): void {
     // Handle errors
-    if ((message as any).error) {
-      const error = (message as any).error;
+    if (message.error) {
+      const error = message.error;
+
+      // transactionSubscribe isn't available on every endpoint/plan - fall back to logs + fetch
+      if (message.id === this.subscribeRequestId && this.activeMode === 'transaction') {
+        console.warn(`⚠️  transactionSubscribe failed (${error.message}), falling back to logsSubscribe`);
+        this.activeMode = 'logs';
+        this.sendSubscribe();
+        return;
+      }
+
       // Only log non-parse errors (parse errors are common with Helius)
       if (error.code !== -32700) {
         console.error(`WebSocket error: ${JSON.stringify(error)}`);
@@ -118,19 +197,36 @@ export class HeliusWebSocketClient {
     }
 
     // Handle subscription confirmation
-    if (message.id && message.params?.result && typeof message.params.result === 'number') {
-      this.subscriptionId = message.params.result;
+    if (message.id && message.id === this.subscribeRequestId && typeof message.result === 'number') {
+      this.subscriptionId = message.result;
       console.log(`✅ Subscription confirmed. ID: ${this.subscriptionId}`);
+
+      const isReconnect = this.hasSubscribed;
+      if (isReconnect && this.lastDisconnectedAt) {
+        const downtime = ((Date.now() - this.lastDisconnectedAt) / 1000).toFixed(1);
+        console.log(`✅ ${this.name} stream restored after ${downtime}s (${this.reconnectAttempts} attempts)`);
+      }
+      this.hasSubscribed = true;
+      this.reconnectAttempts = 0;
+      this.lastConnectedAt = Date.now();
+
+      if (isReconnect) {
+        this.onReconnect?.();
+      }
       return;
     }
 
+    if (message.method) {
+      this.lastEventAt = Date.now();
+    }
+
     // Handle log notifications (from logsSubscribe)
     if (message.method === 'logsNotification') {
       this.onTransactionCallback(message);
       return;
     }
 
-    // Handle transaction notifications (fallback for transactionSubscribe)
+    // Handle transaction notifications (from transactionSubscribe)
     if (message.params?.result?.transaction) {
       this.onTransactionCallback(message);
     }
@@ -154,16 +250,21 @@ export class HeliusWebSocketClient {
       return;
     }
 
-    if (this.reconnectAttempts >= this.maxReconnectAttempts) {
-      console.error('Max reconnection attempts reached. Please check your API key and network connection.');
-      return;
-    }
-
     this.isReconnecting = true;
     this.reconnectAttempts++;
-    const reconnectDelay = 1000; // Fixed 1 second delay (same as copy trade bot)
-    
-    console.log(`Scheduling reconnection attempt ${this.reconnectAttempts}/${this.maxReconnectAttempts} in ${reconnectDelay}ms`);
+    const reconnectDelay = getBackoffDelay(this.reconnectAttempts);
+
+    // Retry the same endpoint once, then rotate through the configured fallbacks
+    if (this.reconnectAttempts > 1) {
+      this.endpoints.next();
+    }
+
+    const downtime = this.lastDisconnectedAt ? ((Date.now() - this.lastDisconnectedAt) / 1000).toFixed(0) : '0';
+    const log = this.reconnectAttempts % 10 === 0 ? console.error : console.warn;
+    log(
+      `⚠️  ${this.name} stream down for ${downtime}s. Reconnection attempt ${this.reconnectAttempts} ` +
+      `in ${(reconnectDelay / 1000).toFixed(1)}s via ${maskUrl(this.endpoints.current())}`
+    );
     
     this.reconnectInterval = setTimeout(() => {
       this.reconnectInterval = null;
@@ -185,7 +286,8 @@ export class HeliusWebSocketClient {
   }
 
   disconnect(): void {
-    console.log('Disconnecting from Helius WebSocket...');
+    console.log(`Disconnecting from ${this.name} WebSocket...`);
+    this.isDisconnected = true;
     this.cleanup();
     if (this.ws) {
       this.ws.close();
@@ -196,6 +298,18 @@ export class HeliusWebSocketClient {
   isConnected(): boolean {
     return this.ws !== null && this.ws.readyState === WebSocket.OPEN;
   }
+
+  getHealth(): SourceHealth {
+    return {
+      source: this.name,
+      endpoint: maskUrl(this.endpoints.current()),
+      connected: this.isConnected() && this.subscriptionId !== null,
+      reconnectAttempts: this.reconnectAttempts,
+      lastConnectedAt: this.lastConnectedAt,
+      lastDisconnectedAt: this.lastDisconnectedAt,
+      lastEventAt: this.lastEventAt,
+    };
+  }
 }
 
 
@@ -0,0 +1,46 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { buildAlertKeyboard, parseAlertCallback } from '../src/telegram/keyboard';
+import { MigrationTransaction } from '../src/types';
+
+const MINT = '5dQ8f8dyYsBhtuV5oLsuVpNoPmhCnumsWNDYQsWppump';
+const POOL = '9vZyeGDeYbMuqNtFLPVyA4CgS3fCBcXhVmYMrk8QdUKs';
+const DEV = '7dGrdJRYtsNR8UYxZ3TnifXGjGc9eRYLq9sELwYpuuUu';
+
+const migration: MigrationTransaction = {
+  signature: 'sig',
+  tokenMint: MINT,
+  timestamp: 0,
+  liquidityPool: POOL,
+  transactionUrl: 'https://solscan.io/tx/sig',
+};
+
+test('links the token and pool and adds the action buttons', () => {
+  const { inline_keyboard: rows } = buildAlertKeyboard(migration, { id: MINT, dev: DEV });
+
+  assert.deepEqual(rows.flat().filter(button => button.url).map(button => button.text), [
+    '📈 DexScreener', '🦅 Birdeye', '💊 pump.fun', '🪐 Jupiter', '🏊 Pool',
+  ]);
+  assert.equal(rows[1][1].url, `https://solscan.io/account/${POOL}`);
+  assert.deepEqual(rows.flat().filter(button => button.callback_data).map(button => button.callback_data), [
+    `watch:${MINT}`, `mute:${DEV}`, `refresh:${MINT}`,
+  ]);
+  // Telegram rejects callback data over 64 bytes
+  rows.flat().forEach(button => assert.ok(Buffer.byteLength(button.callback_data || '') <= 64));
+});
+
+test('omits the pool link and mute button when they are unknown', () => {
+  const { inline_keyboard: rows } = buildAlertKeyboard({ ...migration, liquidityPool: undefined }, null);
+  const buttons = rows.flat();
+
+  assert.equal(buttons.some(button => button.text === '🏊 Pool'), false);
+  assert.equal(buttons.some(button => button.callback_data?.startsWith('mute:')), false);
+});
+
+test('parses callback data and rejects anything else', () => {
+  assert.deepEqual(parseAlertCallback(`mute:${DEV}`), { action: 'mute', address: DEV });
+  assert.deepEqual(parseAlertCallback(`refresh:${MINT}`), { action: 'refresh', address: MINT });
+  assert.equal(parseAlertCallback(`delete:${MINT}`), null);
+  assert.equal(parseAlertCallback('watch:not-an-address'), null);
+  assert.equal(parseAlertCallback(undefined), null);
+});
@@ -0,0 +1,139 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { AlertTemplates, TemplateError, isAlertLanguage, validateTelegramHtml } from '../src/templates';
+import { compileTemplate, renderTemplate } from '../src/templates/engine';
+import { JupiterTokenData } from '../src/detectors/migration';
+import { MigrationTransaction, TokenData } from '../src/types';
+import { silenceConsole } from './helpers/console';
+
+silenceConsole();
+
+const MINT = '5dQ8f8dyYsBhtuV5oLsuVpNoPmhCnumsWNDYQsWppump';
+const POOL = '9vZyeGDeYbMuqNtFLPVyA4CgS3fCBcXhVmYMrk8QdUKs';
+
+const migration: MigrationTransaction = {
+  signature: 'sig',
+  tokenMint: MINT,
+  timestamp: 1700000000000,
+  liquidityPool: POOL,
+  poolBaseAmount: 206900000,
+  poolQuoteAmount: 84.987,
+  transactionUrl: 'https://solscan.io/tx/sig',
+};
+
+const tokenData: TokenData = { mint: MINT, name: 'Fixture <Token>', symbol: 'FIX', decimals: 6 };
+
+const jupiterData: JupiterTokenData = {
+  id: MINT,
+  organicScore: 72.5,
+  organicScoreLabel: 'high',
+  mcap: 65000.123,
+  liquidity: 24000,
+  holderCount: 420,
+  audit: { mintAuthorityDisabled: false, freezeAuthorityDisabled: true, devMigrations: 4 },
+};
+
+test('renders the standard English layout', () => {
+  const text = new AlertTemplates().render('standard', 'en', migration, tokenData, jupiterData);
+
+  assert.equal(text, [
+    '🚀 <b>Pump.fun Migration Alert!</b>',
+    '',
+    '📊 <b>Token:</b> Fixture &lt;Token&gt; (FIX)',
+    `📍 <b>Contract:</b> <code>${MINT}</code>`,
+    `🏊 <b>Pool:</b> <code>${POOL}</code>`,
+    '🌱 <b>Pool Seeded:</b> 206,900,000 FIX + 84.99 SOL',
+    '',
+    '🟢 <b>Organic Score:</b> 72.50 (high)',
+    '💰 <b>Market Cap:</b> $65,000.12',
+    '💧 <b>Liquidity:</b> $24,000',
+    '👥 <b>Holders:</b> 420',
+    '',
+    '🔴 <b>Risk:</b> HIGH',
+    '⚠️ Mint authority still enabled',
+    '⚠️ Dev has 4 prior migrations',
+    '',
+    '🔗 <a href="https://solscan.io/tx/sig">View Transaction on Solscan</a>',
+    '',
+    `⏰ Migration detected at ${new Date(migration.timestamp).toLocaleString()}`,
+  ].join('\n'));
+});
+
+test('leaves out sections for missing data', () => {
+  const text = new AlertTemplates().render('standard', 'en', { ...migration, liquidityPool: undefined, poolBaseAmount: undefined, poolQuoteAmount: undefined }, tokenData, null);
+
+  assert.doesNotMatch(text, /Pool|Organic Score|Risk/);
+  assert.match(text, /<code>5dQ8.*<\/code>\n\n🔗/);
+});
+
+test('translates labels and risk flags', () => {
+  const templates = new AlertTemplates();
+
+  const spanish = templates.render('standard', 'es', migration, tokenData, jupiterData);
+  assert.match(spanish, /¡Alerta de migración en Pump\.fun!/);
+  assert.match(spanish, /Riesgo:<\/b> ALTO/);
+  assert.match(spanish, /El dev tiene 4 migraciones previas/);
+  assert.match(spanish, /Liquidez:<\/b> \$24\.000/);
+
+  const chinese = templates.render('compact', 'zh', migration, tokenData, jupiterData);
+  assert.match(chinese, /^🚀 <b>FIX<\/b> 已迁移/);
+  assert.match(chinese, /风险: 高/);
+
+  assert.equal(isAlertLanguage('ru'), true);
+  assert.equal(isAlertLanguage('constructor'), false);
+});
+
+test('the detailed layout adds price and 24h stats', () => {
+  const text = new AlertTemplates().render('detailed', 'en', migration, tokenData, {
+    ...jupiterData,
+    usdPrice: 0.0000651,
+    stats24h: { priceChange: 12.34, buyVolume: 1500, sellVolume: 500, numBuys: 30, numSells: 10 },
+  });
+
+  assert.match(text, /Price:<\/b> \$0\.00006510/);
+  assert.match(text, /24h Change:<\/b> 12\.3%/);
+  assert.match(text, /24h Volume:<\/b> \$2,000/);
+  assert.match(text, /24h Buys \/ Sells:<\/b> 30 \/ 10/);
+  assert.doesNotMatch(text, /24h Traders/);
+});
+
+test('rejects templates Telegram or the renderer would not accept', () => {
+  const roots = ['token'];
+  const compile = (source: string) => () => compileTemplate('custom', source, roots);
+
+  assert.throws(compile('<b>{{token.name}}'), TemplateError);
+  assert.throws(compile('<div>{{token.name}}</div>'), /<div> is not supported/);
+  assert.throws(compile('{{#token.name}}<b>{{token.name}}{{/token.name}}</b>'), /never closed|does not match/);
+  assert.throws(compile('{{wallet.address}}'), /unknown placeholder \{\{wallet\.address\}\}/);
+  assert.throws(compile('{{token.name|shout}}'), /unknown format "shout"/);
+  assert.throws(compile('{{#token.name}}open'), /\{\{#token\.name\}\} is never closed/);
+  assert.throws(compile('Tom & Jerry'), /unescaped "&"/);
+  assert.throws(compile('<constructor>{{token.name}}</constructor>'), /<constructor> is not supported/);
+  assert.throws(compile('{{token.name|toString}}'), /unknown format "toString"/);
+
+  assert.equal(validateTelegramHtml('<a href="https://x.y">a &amp; b</a> <pre><code class="language-ts">x</code></pre>'), null);
+  assert.match(validateTelegramHtml('<code><b>x</b></code>')!, /cannot be nested/);
+});
+
+test('renders values, sections, lists and inverted sections', () => {
+  const template = compileTemplate('custom', '{{#items}}\n- {{.}}\n{{/items}}\n{{^missing}}none{{/missing}} {{count|number}}\nA{{#missing}}x{{/missing}}\n{{#missing}}x{{/missing}}\nB', ['items', 'missing', 'count']);
+
+  assert.equal(renderTemplate(template, { items: ['<a>', 'b'], count: 1234 }, 'en-US'), '- &lt;a&gt;\n- b\nnone 1,234\nA\nB');
+});
+
+test('custom template files replace built-in layouts unless they are invalid', () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'alert-templates-'));
+  try {
+    fs.writeFileSync(path.join(dir, 'compact.html'), '<b>{{token.symbol}}</b> {{jupiter.mcap|usd}}');
+    fs.writeFileSync(path.join(dir, 'standard.html'), '<b>{{token.symbol}}');
+
+    const templates = new AlertTemplates(dir);
+    assert.equal(templates.render('compact', 'en', migration, tokenData, jupiterData), '<b>FIX</b> $65,000.12');
+    assert.match(templates.render('standard', 'en', migration, tokenData, jupiterData), /^🚀 <b>Pump\.fun Migration Alert!<\/b>/);
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
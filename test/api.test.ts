@@ -0,0 +1,183 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { JupiterTokenData } from '../src/detectors/migration';
+import { NotifierDispatcher } from '../src/notifiers';
+import { registerApiRoutes } from '../src/server/api';
+import { HttpServer } from '../src/server/http';
+import { MigrationStream, toMigrationEvent } from '../src/server/stream';
+import { JsonMigrationRepository, MigrationRecord } from '../src/storage/migrations';
+import { silenceConsole } from './helpers/console';
+
+silenceConsole();
+
+const API_KEY = 'test-key';
+
+function record(name: string, timestamp: number, jupiterData: JupiterTokenData | null): MigrationRecord {
+  const mint = `${name}Mint1111111111111111111111111111111pump`;
+  return {
+    migration: { signature: `${name}Sig`, tokenMint: mint, timestamp, transactionUrl: `https://solscan.io/tx/${name}Sig` },
+    tokenData: { mint, name, symbol: name.toUpperCase(), decimals: 6 },
+    jupiterData,
+    recordedAt: timestamp + 500,
+  };
+}
+
+// Oldest first: low, medium and high risk, then a token without Jupiter data
+const RECORDS = [
+  record('alpha', 1000000, { id: 'alpha', mcap: 20000, audit: {} }),
+  record('beta', 2000000, { id: 'beta', mcap: 80000, audit: { topHoldersPercentage: 35 } }),
+  record('gamma', 3000000, { id: 'gamma', mcap: 150000, audit: { mintAuthorityDisabled: false } }),
+  record('delta', 4000000, null),
+];
+
+async function startApi(records: MigrationRecord[] = RECORDS) {
+  const migrations = new JsonMigrationRepository(fs.mkdtempSync(path.join(os.tmpdir(), 'migration-bot-api-')));
+  records.forEach(item => migrations.save(item));
+  const stream = new MigrationStream(migrations);
+  const server = new HttpServer(0, '127.0.0.1');
+  registerApiRoutes(server, migrations, stream, ['other-key', API_KEY]);
+  return { migrations, stream, server, url: await server.start() };
+}
+
+async function getJson(url: string, headers: Record<string, string> = { 'x-api-key': API_KEY }) {
+  const response = await fetch(url, { headers });
+  return { status: response.status, body: await response.json() as any };
+}
+
+// Reads server-sent events from the stream until `count` migrations arrived
+async function readEvents(response: Response, count: number): Promise<Array<{ id: string; data: any }>> {
+  const reader = response.body!.getReader();
+  const decoder = new TextDecoder();
+  const events: Array<{ id: string; data: any }> = [];
+  let buffer = '';
+  while (events.length < count) {
+    const { value, done } = await reader.read();
+    if (done) {
+      break;
+    }
+    buffer += decoder.decode(value, { stream: true });
+    const blocks = buffer.split('\n\n');
+    buffer = blocks.pop()!;
+    blocks
+      .filter(block => block.startsWith('event: migration'))
+      .forEach(block => {
+        const field = (name: string) => block.split('\n').find(line => line.startsWith(`${name}: `))!.slice(name.length + 2);
+        events.push({ id: field('id'), data: JSON.parse(field('data')) });
+      });
+  }
+  reader.releaseLock();
+  return events;
+}
+
+test('requires an API key on every endpoint', async () => {
+  const { server, url } = await startApi();
+  try {
+    for (const endpoint of ['/migrations', `/migrations/${RECORDS[0].migration.tokenMint}`, '/stream']) {
+      const response = await fetch(`${url}${endpoint}`, { headers: { authorization: 'Bearer wrong-key' } });
+      assert.equal(response.status, 401, endpoint);
+      assert.equal(response.headers.get('www-authenticate'), 'Bearer');
+      assert.equal((await fetch(`${url}${endpoint}`)).status, 401, endpoint);
+    }
+
+    assert.equal((await getJson(`${url}/migrations`, { authorization: `Bearer ${API_KEY}` })).status, 200);
+    assert.equal((await getJson(`${url}/migrations`, { 'x-api-key': 'other-key' })).status, 200);
+    assert.equal((await getJson(`${url}/migrations?api_key=${API_KEY}`, {})).status, 200);
+  } finally {
+    await server.stop();
+  }
+});
+
+test('pages and filters stored migrations, newest first', async () => {
+  const { server, url } = await startApi();
+  try {
+    const firstPage = await getJson(`${url}/migrations?limit=3`);
+    assert.deepEqual(firstPage.body.migrations.map((item: any) => item.token.name), ['delta', 'gamma', 'beta']);
+    assert.deepEqual(firstPage.body.pagination, { total: 4, limit: 3, offset: 0, nextOffset: 3 });
+    const lastPage = await getJson(`${url}/migrations?limit=3&offset=3`);
+    assert.deepEqual(lastPage.body.migrations.map((item: any) => item.token.name), ['alpha']);
+    assert.equal(lastPage.body.pagination.nextOffset, null);
+
+    const [gamma] = firstPage.body.migrations.slice(1);
+    assert.equal(gamma.risk.level, 'high');
+    assert.equal(gamma.jupiter.mcap, 150000);
+    assert.equal(gamma.recordedAt, 3000500);
+    assert.equal(gamma.links[0].url, `https://dexscreener.com/solana/${gamma.migration.tokenMint}`);
+
+    const names = async (query: string) => (await getJson(`${url}/migrations?${query}`)).body.migrations.map((item: any) => item.token.name);
+    assert.deepEqual(await names('since=2000000&until=3000000'), ['gamma', 'beta']);
+    assert.deepEqual(await names(`since=${new Date(3000000).toISOString()}`), ['delta', 'gamma']);
+    assert.deepEqual(await names('min_mcap=50000&max_mcap=100000'), ['beta']);
+    assert.deepEqual(await names('max_risk=medium'), ['beta', 'alpha']);
+    assert.deepEqual(await names('risk=high,low'), ['gamma', 'alpha']);
+
+    assert.deepEqual((await getJson(`${url}/migrations?limit=500`)).body, { error: 'limit must be an integer between 1 and 200.' });
+    assert.equal((await getJson(`${url}/migrations?since=yesterday`)).status, 400);
+    assert.equal((await getJson(`${url}/migrations?max_risk=extreme`)).status, 400);
+    assert.equal((await getJson(`${url}/migrations?max_risk=constructor`)).status, 400);
+    assert.equal((await getJson(`${url}/migrations?risk=low,toString`)).status, 400);
+  } finally {
+    await server.stop();
+  }
+});
+
+test('looks up the latest migration of a mint', async () => {
+  const { server, url } = await startApi();
+  try {
+    const mint = RECORDS[1].migration.tokenMint;
+    const found = await getJson(`${url}/migrations/${mint}`);
+    assert.equal(found.status, 200);
+    assert.equal(found.body.migration.signature, 'betaSig');
+    assert.equal(found.body.risk.level, 'medium');
+
+    const missing = await getJson(`${url}/migrations/UnknownMint`);
+    assert.equal(missing.status, 404);
+    assert.deepEqual(missing.body, { error: 'No migration found for UnknownMint' });
+
+    const malformed = await getJson(`${url}/migrations/%E0%A4%A`);
+    assert.equal(malformed.status, 400);
+    assert.deepEqual(malformed.body, { error: 'Invalid URL encoding' });
+  } finally {
+    await server.stop();
+  }
+});
+
+test('streams dispatched migrations and replays the ones missed since Last-Event-ID', async () => {
+  const { migrations, stream, server, url } = await startApi(RECORDS.slice(0, 2));
+  const dispatcher = new NotifierDispatcher();
+  dispatcher.add(stream);
+  const controller = new AbortController();
+  try {
+    const live = await fetch(`${url}/stream?min_mcap=100000`, { headers: { 'x-api-key': API_KEY }, signal: controller.signal });
+    assert.equal(live.status, 200);
+    assert.equal(live.headers.get('content-type'), 'text/event-stream');
+    assert.equal(stream.getClientCount(), 1);
+
+    // alpha is below the client's min_mcap, so only gamma is pushed
+    for (const item of [RECORDS[0], RECORDS[2]]) {
+      await dispatcher.dispatch(toMigrationEvent(item));
+    }
+    const [event] = await readEvents(live, 1);
+    assert.equal(event.id, 'gammaSig');
+    assert.equal(event.data.token.name, 'gamma');
+    assert.equal(event.data.risk.level, 'high');
+
+    migrations.save(RECORDS[2]);
+    migrations.save(RECORDS[3]);
+    const resumed = await fetch(`${url}/stream`, {
+      headers: { 'x-api-key': API_KEY, 'last-event-id': 'alphaSig' },
+      signal: controller.signal,
+    });
+    assert.deepEqual((await readEvents(resumed, 3)).map(item => item.id), ['betaSig', 'gammaSig', 'deltaSig']);
+
+    // Disconnected clients are dropped
+    controller.abort();
+    await new Promise(resolve => setTimeout(resolve, 100));
+    assert.equal(stream.getClientCount(), 0);
+  } finally {
+    controller.abort();
+    await server.stop();
+  }
+});
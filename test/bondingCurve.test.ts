@@ -0,0 +1,42 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  BONDING_CURVE_DISCRIMINATOR,
+  INITIAL_REAL_TOKEN_RESERVES,
+  decodeBondingCurve,
+  getBondingCurveProgress,
+} from '../src/decoders/bondingCurve';
+
+function encodeCurve(realTokenReserves: bigint, realSolReserves: bigint, complete: boolean = false): Buffer {
+  const data = Buffer.alloc(81);
+  Buffer.from(BONDING_CURVE_DISCRIMINATOR).copy(data, 0);
+  data.writeBigUInt64LE(BigInt('279900000000000') + realTokenReserves, 8);
+  data.writeBigUInt64LE(BigInt('30000000000') + realSolReserves, 16);
+  data.writeBigUInt64LE(realTokenReserves, 24);
+  data.writeBigUInt64LE(realSolReserves, 32);
+  data.writeBigUInt64LE(BigInt('1000000000000000'), 40);
+  data[48] = complete ? 1 : 0;
+  return data;
+}
+
+test('decodes bonding curve reserves', () => {
+  const state = decodeBondingCurve(encodeCurve(BigInt('79310000000000'), BigInt('76000000000')));
+
+  assert.ok(state);
+  assert.equal(state.realTokenReserves, BigInt('79310000000000'));
+  assert.equal(state.realSolReserves, BigInt('76000000000'));
+  assert.equal(state.complete, false);
+  assert.equal(typeof state.creator, 'string');
+});
+
+test('computes progress from sold real tokens', () => {
+  assert.equal(getBondingCurveProgress(decodeBondingCurve(encodeCurve(INITIAL_REAL_TOKEN_RESERVES, BigInt(0)))!), 0);
+  assert.equal(getBondingCurveProgress(decodeBondingCurve(encodeCurve(BigInt('79310000000000'), BigInt(0)))!), 90);
+  assert.equal(getBondingCurveProgress(decodeBondingCurve(encodeCurve(BigInt(0), BigInt(0), true))!), 100);
+});
+
+test('rejects accounts with another discriminator', () => {
+  const data = encodeCurve(BigInt(0), BigInt(0));
+  data[0] = 0;
+  assert.equal(decodeBondingCurve(data), null);
+});
@@ -0,0 +1,495 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { spawn, ChildProcess } from 'child_process';
+import * as fs from 'fs';
+import * as net from 'net';
+import * as os from 'os';
+import * as path from 'path';
+import { MockHeliusServer } from './helpers/mockHeliusServer';
+import { MockHttpServer } from './helpers/mockHttpServer';
+import { createMockJupiterServer, createMockPumpFunServer, createMockRpcServer } from './helpers/mockRpcServer';
+import { BOT_USERNAME, FakeTelegramApi, TelegramCall, messageText } from './helpers/fakeTelegram';
+import { expected, fixtureNames, loadTransaction } from './helpers/fixtures';
+
+const ROOT = path.join(__dirname, '..');
+const SUBSCRIBED_CHAT = 1001;
+const FIXTURE_DEV = '7dGrdJRYtsNR8UYxZ3TnifXGjGc9eRYLq9sELwYpuuUu';
+
+interface Pipeline {
+  helius: MockHeliusServer;
+  rpc: MockHttpServer;
+  telegram: FakeTelegramApi;
+  transactions: Record<string, any>;
+  // Served by the Jupiter mock, keyed by mint; edit to change later responses
+  jupiterTokens: Record<string, any>;
+  dataDir: string;
+  stop: () => Promise<void>;
+}
+
+function startBot(env: Record<string, string>): ChildProcess {
+  const child = spawn(process.execPath, ['--require', 'ts-node/register', path.join(ROOT, 'src', 'index.ts')], {
+    cwd: ROOT,
+    env: { ...process.env, TS_NODE_TRANSPILE_ONLY: 'true', TS_NODE_PROJECT: path.join(ROOT, 'tsconfig.json'), ...env },
+    stdio: ['ignore', 'pipe', 'pipe'],
+  });
+
+  // Surface bot output when debugging a failing run
+  if (process.env.E2E_DEBUG) {
+    child.stdout?.pipe(process.stdout);
+    child.stderr?.pipe(process.stderr);
+  } else {
+    child.stdout?.resume();
+    child.stderr?.resume();
+  }
+
+  return child;
+}
+
+async function stopBot(child: ChildProcess): Promise<void> {
+  if (child.exitCode !== null) {
+    return;
+  }
+  const exited = new Promise(resolve => child.once('exit', resolve));
+  child.kill('SIGTERM');
+  await exited;
+}
+
+// Starts the mocks and the bot's main() pipeline pointed at them
+async function startPipeline(env: Record<string, string> = {}): Promise<Pipeline> {
+  const transactions: Record<string, any> = {};
+  for (const name of fixtureNames()) {
+    transactions[expected[name].signature] = loadTransaction(name);
+  }
+
+  const migrationMint = expected['migration'].tokenMint;
+  const helius = new MockHeliusServer();
+  const rpc = createMockRpcServer(transactions);
+  const jupiterTokens: Record<string, any> = {
+    [migrationMint]: {
+      id: migrationMint,
+      name: 'Fixture Token',
+      symbol: 'FIX',
+      dev: FIXTURE_DEV,
+      organicScore: 72.5,
+      organicScoreLabel: 'high',
+      mcap: 65000,
+      liquidity: 24000,
+      holderCount: 420,
+    },
+  };
+  const jupiter = createMockJupiterServer(jupiterTokens);
+  // Only the top-level migration has bonding curve history, so the CPI one is alerted as text
+  const pumpFun = createMockPumpFunServer({
+    [migrationMint]: Array.from({ length: 30 }, (_, index) => ({
+      timestamp: 1700000000 + index * 60,
+      open: 3e-8 * (1 + index * 0.1),
+      high: 3e-8 * (1 + index * 0.1 + 0.08),
+      low: 3e-8 * (1 + index * 0.1 - 0.03),
+      close: 3e-8 * (1 + (index + 1) * 0.1),
+      volume: 1000,
+    })),
+  });
+  const telegram = new FakeTelegramApi();
+  // Third-party price APIs (Birdeye, DexScreener) are not mocked; the token fetcher falls back when they fail
+  const servers: Array<MockHeliusServer | MockHttpServer | FakeTelegramApi> = [helius, rpc, jupiter, pumpFun, telegram];
+  const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'migration-bot-e2e-'));
+
+  const bot = startBot({
+    HELIUS_API_KEY: 'test-helius-key',
+    TELEGRAM_BOT_TOKEN: '123456:TEST',
+    JUPITER_API_KEY: 'test-jupiter-key',
+    USER_CHAT_IDS: String(SUBSCRIBED_CHAT),
+    DATA_DIR: dataDir,
+    FOLLOW_UP_DELAYS: '',
+    HELIUS_WS_URL: await helius.listening(),
+    HELIUS_RPC_URL: await rpc.listening(),
+    SOLANA_RPC_URL: await rpc.listening(),
+    JUPITER_API_URL: await jupiter.listening(),
+    PUMP_FUN_API_URL: await pumpFun.listening(),
+    TELEGRAM_API_URL: await telegram.listening(),
+    ...env,
+  });
+
+  return {
+    helius,
+    rpc,
+    telegram,
+    transactions,
+    jupiterTokens,
+    dataDir,
+    stop: async () => {
+      await stopBot(bot);
+      await Promise.all(servers.map(server => server.close()));
+      fs.rmSync(dataDir, { recursive: true, force: true });
+    },
+  };
+}
+
+// A port nothing is listening on, for the bot's own HTTP server
+async function freePort(): Promise<number> {
+  const server = net.createServer().listen(0, '127.0.0.1');
+  await new Promise(resolve => server.once('listening', resolve));
+  const { port } = server.address() as net.AddressInfo;
+  await new Promise(resolve => server.close(resolve));
+  return port;
+}
+
+function isAlertFor(chatId: number, mint: string) {
+  return (call: TelegramCall) =>
+    (call.method === 'sendMessage' || call.method === 'sendPhoto') &&
+    call.params.chat_id === String(chatId) &&
+    messageText(call).includes(mint);
+}
+
+function migrationAlertsTo(telegram: FakeTelegramApi, chatId: number): TelegramCall[] {
+  return telegram.messagesTo(chatId).filter(call => messageText(call).includes('Migration Alert'));
+}
+
+test('runs the main() pipeline end to end against local mocks', { timeout: 90000 }, async () => {
+  const { helius, telegram, transactions, dataDir, stop } = await startPipeline();
+  const migrationMint = expected['migration'].tokenMint;
+
+  try {
+    await helius.waitForSubscription();
+
+    // A new user subscribes through the fake Telegram API
+    telegram.sendUserMessage(2002, '/start');
+    await telegram.waitForCall(call => call.method === 'sendMessage' && call.params.chat_id === '2002');
+
+    // Push a notification for every fixture, migrations and false positives alike
+    for (const name of fixtureNames()) {
+      const tx = transactions[expected[name].signature];
+      helius.notifyLogs(expected[name].signature, tx.meta.logMessages, tx.meta.err);
+    }
+
+    const alert = await telegram.waitForCall(isAlertFor(SUBSCRIBED_CHAT, migrationMint), 60000);
+    assert.match(messageText(alert), /Pump\.fun Migration Alert/);
+    assert.match(messageText(alert), /Organic Score:<\/b> 72\.50 \(high\)/);
+    // Sent as the caption of the rendered price chart
+    assert.equal(alert.method, 'sendPhoto');
+    assert.equal(alert.params.parse_mode, 'HTML');
+    assert.deepEqual(alert.params.photo.subarray(0, 8), Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]));
+    await telegram.waitForCall(isAlertFor(2002, migrationMint), 10000);
+    await telegram.waitForCall(isAlertFor(SUBSCRIBED_CHAT, expected['migration-inner'].tokenMint), 60000);
+
+    // Give any false positives time to show up
+    await new Promise(resolve => setTimeout(resolve, 2000));
+
+    const alerts = migrationAlertsTo(telegram, SUBSCRIBED_CHAT);
+    assert.equal(alerts.length, 2);
+
+    for (const name of fixtureNames().filter(fixture => !expected[fixture].isMigration)) {
+      assert.ok(
+        !alerts.some(call => messageText(call).includes(expected[name].tokenMint)),
+        `unexpected alert for ${name}`
+      );
+    }
+
+    // Subscribers and history are persisted
+    const subscribers = JSON.parse(fs.readFileSync(path.join(dataDir, 'subscribers.json'), 'utf8'));
+    assert.deepEqual(
+      subscribers.subscribers.map((record: any) => record.chatId).sort(),
+      [SUBSCRIBED_CHAT, 2002]
+    );
+    const history = JSON.parse(fs.readFileSync(path.join(dataDir, 'migrations.json'), 'utf8'));
+    assert.equal(history.migrations.length, 2);
+
+    // Each record carries its latency trace through to Telegram delivery
+    for (const record of history.migrations) {
+      const { stages, blockTime } = record.trace;
+      assert.ok(stages.received <= stages.dequeued && stages.dequeued <= stages.fetched);
+      assert.ok(stages.fetched <= stages.detected && stages.detected <= stages.sent);
+      assert.ok(stages.jupiterFetched && stages.tokenDataFetched);
+      assert.equal(blockTime, transactions[record.migration.signature].blockTime * 1000);
+    }
+  } finally {
+    await stop();
+  }
+});
+
+test('detects migrations from pushed transactions without fetching them', { timeout: 90000 }, async () => {
+  const { helius, rpc, telegram, transactions, stop } = await startPipeline({ SUBSCRIPTION_MODE: 'transaction' });
+
+  try {
+    await helius.waitForSubscription('transactionSubscribe');
+
+    for (const name of fixtureNames()) {
+      helius.notifyTransaction(transactions[expected[name].signature]);
+    }
+
+    await telegram.waitForCall(isAlertFor(SUBSCRIBED_CHAT, expected['migration'].tokenMint), 60000);
+    await telegram.waitForCall(isAlertFor(SUBSCRIBED_CHAT, expected['migration-inner'].tokenMint), 60000);
+    await new Promise(resolve => setTimeout(resolve, 1000));
+
+    assert.equal(migrationAlertsTo(telegram, SUBSCRIBED_CHAT).length, 2);
+    assert.ok(!rpc.requests.some(request => request.body?.method === 'getTransaction'));
+  } finally {
+    await stop();
+  }
+});
+
+test('backfills migrations missed while the stream was down', { timeout: 90000 }, async () => {
+  const { helius, rpc, telegram, transactions, stop } = await startPipeline();
+
+  try {
+    await helius.waitForSubscription();
+
+    // One live notification marks where the stream was before it dropped
+    const buy = transactions[expected['buy'].signature];
+    helius.notifyLogs(expected['buy'].signature, buy.meta.logMessages);
+    await new Promise(resolve => setTimeout(resolve, 500));
+
+    // The migrations land while the bot is disconnected; only the backfill can find them
+    helius.dropConnections();
+
+    await telegram.waitForCall(isAlertFor(SUBSCRIBED_CHAT, expected['migration'].tokenMint), 60000);
+    await telegram.waitForCall(isAlertFor(SUBSCRIBED_CHAT, expected['migration-inner'].tokenMint), 60000);
+    await new Promise(resolve => setTimeout(resolve, 1000));
+
+    assert.equal(migrationAlertsTo(telegram, SUBSCRIBED_CHAT).length, 2);
+
+    // Only the migration authority's transactions are fetched, not every pump.fun trade in the gap
+    const fixtureBySignature = new Map(fixtureNames().map(name => [expected[name].signature, name]));
+    const fetched = rpc.requests
+      .filter(request => request.body?.method === 'getTransaction')
+      .map(request => fixtureBySignature.get(request.body.params[0]));
+    assert.ok(fetched.length > 0);
+    assert.ok(fetched.every(name => name?.startsWith('migration')), fetched.join(', '));
+  } finally {
+    await stop();
+  }
+});
+
+test('admin commands control delivery and subscribers', { timeout: 90000 }, async () => {
+  const ADMIN_CHAT = 9001;
+  const ADMIN_GROUP = -1009001;
+  const { helius, telegram, transactions, dataDir, stop } = await startPipeline({ ADMIN_CHAT_IDS: `${ADMIN_CHAT},${ADMIN_GROUP}` });
+  const replyTo = (chatId: number, pattern: RegExp) => telegram.waitForCall(call =>
+    call.method === 'sendMessage' && call.params.chat_id === String(chatId) && pattern.test(String(call.params.text))
+  );
+
+  try {
+    await helius.waitForSubscription();
+
+    // Regular users are refused
+    telegram.sendUserMessage(2002, '/stats');
+    await replyTo(2002, /only available to bot admins/);
+
+    // Admin rights belong to users: members of a listed group are refused, listed users are not
+    telegram.sendUserMessage(ADMIN_GROUP, '/users', { chatType: 'supergroup', fromId: 2002 });
+    await replyTo(ADMIN_GROUP, /only available to bot admins/);
+    telegram.sendUserMessage(ADMIN_GROUP, '/users', { chatType: 'supergroup', fromId: ADMIN_CHAT });
+    await replyTo(ADMIN_GROUP, /subscribers/);
+
+    // Paused: the migration is still detected and recorded, but nobody is alerted
+    telegram.sendUserMessage(ADMIN_CHAT, '/pause');
+    await replyTo(ADMIN_CHAT, /Alert delivery paused/);
+    const migration = transactions[expected['migration'].signature];
+    helius.notifyLogs(expected['migration'].signature, migration.meta.logMessages);
+
+    const historyFile = path.join(dataDir, 'migrations.json');
+    const recorded = () => fs.existsSync(historyFile) ? JSON.parse(fs.readFileSync(historyFile, 'utf8')).migrations.length : 0;
+    for (let i = 0; i < 150 && recorded() === 0; i++) {
+      await new Promise(resolve => setTimeout(resolve, 200));
+    }
+    await new Promise(resolve => setTimeout(resolve, 1000));
+    assert.equal(recorded(), 1);
+    assert.equal(migrationAlertsTo(telegram, SUBSCRIBED_CHAT).length, 0);
+
+    telegram.sendUserMessage(ADMIN_CHAT, '/resume');
+    await replyTo(ADMIN_CHAT, /Alert delivery resumed/);
+
+    telegram.sendUserMessage(ADMIN_CHAT, '/stats');
+    const stats = await replyTo(ADMIN_CHAT, /Bot stats/);
+    assert.match(String(stats.params.text), /Subscribers:<\/b> 1 /);
+    assert.match(String(stats.params.text), /Migrations today:<\/b> 1/);
+
+    telegram.sendUserMessage(ADMIN_CHAT, '/users');
+    await replyTo(ADMIN_CHAT, new RegExp(`1 subscribers[\\s\\S]*${SUBSCRIBED_CHAT}`));
+
+    telegram.sendUserMessage(ADMIN_CHAT, '/broadcast Maintenance at 10:00 UTC');
+    await replyTo(SUBSCRIBED_CHAT, /^Maintenance at 10:00 UTC$/);
+    await replyTo(ADMIN_CHAT, /Broadcast sent to 1 chats \(0 failed\)/);
+
+    telegram.sendUserMessage(ADMIN_CHAT, `/kick ${SUBSCRIBED_CHAT}`);
+    await replyTo(ADMIN_CHAT, new RegExp(`Removed ${SUBSCRIBED_CHAT}`));
+    const subscribers = JSON.parse(fs.readFileSync(path.join(dataDir, 'subscribers.json'), 'utf8'));
+    assert.deepEqual(subscribers.subscribers, []);
+  } finally {
+    await stop();
+  }
+});
+
+test('groups, forum topics and channels subscribe with admin-only settings', { timeout: 90000 }, async () => {
+  const GROUP_CHAT = -1002001;
+  const CHANNEL_CHAT = -1003001;
+  const MEMBER = 3001;
+  const GROUP_ADMIN = 3002;
+  const TOPIC = 7;
+  const { helius, telegram, transactions, stop } = await startPipeline();
+  const replyTo = (chatId: number, pattern: RegExp) => telegram.waitForCall(call =>
+    call.method === 'sendMessage' && call.params.chat_id === String(chatId) && pattern.test(String(call.params.text))
+  );
+
+  try {
+    await helius.waitForSubscription();
+    telegram.setChatMember(GROUP_CHAT, GROUP_ADMIN, 'administrator');
+
+    // Members can read settings but not change them
+    telegram.sendUserMessage(GROUP_CHAT, '/start', { chatType: 'supergroup', fromId: MEMBER, threadId: TOPIC });
+    const refused = await replyTo(GROUP_CHAT, /Only group admins/);
+    assert.equal(refused.params.message_thread_id, String(TOPIC));
+
+    telegram.sendUserMessage(GROUP_CHAT, '/start', { chatType: 'supergroup', fromId: GROUP_ADMIN, threadId: TOPIC });
+    await replyTo(GROUP_CHAT, /This topic is now subscribed/);
+
+    telegram.sendUserMessage(GROUP_CHAT, '/filter minmcap 1000', { chatType: 'supergroup', fromId: MEMBER });
+    await telegram.waitForCall(call =>
+      call.method === 'sendMessage' && call !== refused && /Only group admins/.test(String(call.params.text))
+    );
+
+    // Channel admins post commands as the channel
+    telegram.sendChannelPost(CHANNEL_CHAT, '/start');
+    await replyTo(CHANNEL_CHAT, /now subscribed/);
+
+    // Commands for other bots and text that merely mentions one are ignored (the channel still gets the alert below)
+    telegram.sendChannelPost(CHANNEL_CHAT, '/stop@OtherBot');
+    telegram.sendChannelPost(CHANNEL_CHAT, 'Send /stop to unsubscribe');
+    telegram.sendChannelPost(CHANNEL_CHAT, `/status@${BOT_USERNAME}`);
+    await replyTo(CHANNEL_CHAT, /Status: ✅ Subscribed/);
+
+    const migrationMint = expected['migration'].tokenMint;
+    const migration = transactions[expected['migration'].signature];
+    helius.notifyLogs(expected['migration'].signature, migration.meta.logMessages);
+
+    const groupAlert = await telegram.waitForCall(isAlertFor(GROUP_CHAT, migrationMint), 60000);
+    assert.equal(groupAlert.params.message_thread_id, String(TOPIC));
+    const channelAlert = await telegram.waitForCall(isAlertFor(CHANNEL_CHAT, migrationMint), 60000);
+    assert.equal(channelAlert.params.message_thread_id, undefined);
+
+    // Any channel viewer can press alert buttons, but only channel admins change its settings
+    telegram.setChatMember(CHANNEL_CHAT, GROUP_ADMIN, 'creator');
+    const answer = (pattern: RegExp) => telegram.waitForCall(call =>
+      call.method === 'answerCallbackQuery' && pattern.test(String(call.params.text))
+    );
+    const channelMessageId = channelAlert.result!.message_id;
+    telegram.sendCallbackQuery(CHANNEL_CHAT, channelMessageId, `watch:${migrationMint}`, { chatType: 'channel', fromId: MEMBER });
+    await answer(/Only group admins/);
+    telegram.sendCallbackQuery(CHANNEL_CHAT, channelMessageId, `watch:${migrationMint}`, { chatType: 'channel', fromId: GROUP_ADMIN });
+    await answer(/Added to your watchlist/);
+  } finally {
+    await stop();
+  }
+});
+
+test('alert keyboard watches tokens, mutes devs and refreshes metrics', { timeout: 90000 }, async () => {
+  const { helius, telegram, transactions, jupiterTokens, dataDir, stop } = await startPipeline();
+  const migrationMint = expected['migration'].tokenMint;
+  const answer = (pattern: RegExp) => telegram.waitForCall(call =>
+    call.method === 'answerCallbackQuery' && pattern.test(String(call.params.text))
+  );
+  const subscriber = () => JSON.parse(fs.readFileSync(path.join(dataDir, 'subscribers.json'), 'utf8')).subscribers[0];
+
+  try {
+    await helius.waitForSubscription();
+    const migration = transactions[expected['migration'].signature];
+    helius.notifyLogs(expected['migration'].signature, migration.meta.logMessages);
+
+    const alert = await telegram.waitForCall(isAlertFor(SUBSCRIBED_CHAT, migrationMint), 60000);
+    const keyboard = JSON.parse(alert.params.reply_markup).inline_keyboard.flat();
+    assert.ok(keyboard.some((button: any) => button.url === `https://dexscreener.com/solana/${migrationMint}`));
+    assert.ok(keyboard.some((button: any) => button.url === `https://jup.ag/swap/SOL-${migrationMint}`));
+    assert.deepEqual(
+      keyboard.filter((button: any) => button.callback_data).map((button: any) => button.callback_data),
+      [`watch:${migrationMint}`, `mute:${FIXTURE_DEV}`, `refresh:${migrationMint}`]
+    );
+
+    const messageId = alert.result!.message_id;
+    telegram.sendCallbackQuery(SUBSCRIBED_CHAT, messageId, `watch:${migrationMint}`);
+    await answer(/Added to your watchlist/);
+    assert.deepEqual(subscriber().watchlist, [migrationMint]);
+
+    telegram.sendCallbackQuery(SUBSCRIBED_CHAT, messageId, `mute:${FIXTURE_DEV}`);
+    await answer(/Muted this dev/);
+    assert.deepEqual(subscriber().mutedDevs, [FIXTURE_DEV]);
+
+    // Refresh edits the alert's chart caption in place with the current Jupiter numbers
+    jupiterTokens[migrationMint] = { ...jupiterTokens[migrationMint], mcap: 123456 };
+    telegram.sendCallbackQuery(SUBSCRIBED_CHAT, messageId, `refresh:${migrationMint}`);
+    await answer(/Metrics refreshed/);
+    const edit = telegram.calls.find(call => call.method === 'editMessageCaption')!;
+    assert.equal(edit.params.chat_id, String(SUBSCRIBED_CHAT));
+    assert.equal(edit.params.message_id, String(messageId));
+    assert.match(messageText(edit), /Market Cap:<\/b> \$123,456/);
+
+    telegram.sendUserMessage(SUBSCRIBED_CHAT, '/unmute all');
+    await telegram.waitForCall(call => call.method === 'sendMessage' && /Unmuted all devs/.test(String(call.params.text)));
+    assert.deepEqual(subscriber().mutedDevs, []);
+  } finally {
+    await stop();
+  }
+});
+
+test('chats pick their alert layout and language', { timeout: 90000 }, async () => {
+  const { helius, telegram, transactions, dataDir, stop } = await startPipeline();
+  const migrationMint = expected['migration'].tokenMint;
+  const subscriber = () => JSON.parse(fs.readFileSync(path.join(dataDir, 'subscribers.json'), 'utf8')).subscribers[0];
+
+  try {
+    await helius.waitForSubscription();
+
+    telegram.sendUserMessage(SUBSCRIBED_CHAT, '/template detailed');
+    await telegram.waitForCall(call => call.method === 'sendMessage' && /Alert layout set to detailed/.test(String(call.params.text)));
+    telegram.sendUserMessage(SUBSCRIBED_CHAT, '/lang es');
+    await telegram.waitForCall(call => call.method === 'sendMessage' && /Alert language set to Español/.test(String(call.params.text)));
+    assert.equal(subscriber().template, 'detailed');
+    assert.equal(subscriber().language, 'es');
+
+    const migration = transactions[expected['migration'].signature];
+    helius.notifyLogs(expected['migration'].signature, migration.meta.logMessages);
+    const alert = messageText(await telegram.waitForCall(isAlertFor(SUBSCRIBED_CHAT, migrationMint), 60000));
+    assert.match(alert, /¡Alerta de migración en Pump\.fun!/);
+    assert.match(alert, /Capitalización:<\/b> \$65\.000/);
+    assert.match(alert, new RegExp(`Dev:</b> <code>${FIXTURE_DEV}</code>`));
+
+    telegram.sendUserMessage(SUBSCRIBED_CHAT, '/status');
+    await telegram.waitForCall(call => call.method === 'sendMessage' && /Alert layout: detailed \(\/template\), language: Español/.test(String(call.params.text)));
+  } finally {
+    await stop();
+  }
+});
+
+test('webhook mode receives updates over HTTP and removes the webhook on shutdown', { timeout: 90000 }, async () => {
+  const port = await freePort();
+  const webhookUrl = `http://127.0.0.1:${port}/telegram/webhook`;
+  const { telegram, stop } = await startPipeline({
+    TELEGRAM_MODE: 'webhook',
+    TELEGRAM_WEBHOOK_URL: webhookUrl,
+    TELEGRAM_WEBHOOK_SECRET: 'test-secret',
+    HTTP_PORT: String(port),
+    HTTP_HOST: '127.0.0.1',
+  });
+  let stopped = false;
+
+  try {
+    const setWebhook = await telegram.waitForCall(call => call.method === 'setWebHook', 60000);
+    assert.equal(setWebhook.params.url, webhookUrl);
+    assert.equal(setWebhook.params.secret_token, 'test-secret');
+
+    telegram.sendUserMessage(SUBSCRIBED_CHAT, '/status');
+    await telegram.waitForCall(call => call.method === 'sendMessage' && /Status: ✅ Subscribed/.test(String(call.params.text)));
+
+    const update = { update_id: 1000, message: { message_id: 1000, date: 0, chat: { id: SUBSCRIBED_CHAT, type: 'private' }, text: '/stop' } };
+    assert.equal(await telegram.postWebhookUpdate(update, 'wrong-secret'), 401);
+    assert.equal(await telegram.postWebhookUpdate(update, ''), 401);
+
+    await stop();
+    stopped = true;
+    assert.ok(telegram.calls.some(call => call.method === 'deleteWebhook'));
+    assert.equal(telegram.calls.some(call => /unsubscribed/.test(String(call.params.text))), false);
+  } finally {
+    if (!stopped) {
+      await stop();
+    }
+  }
+});
@@ -0,0 +1,110 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Connection } from '@solana/web3.js';
+import { HeliusWebSocketClient } from '../src/websocket/helius';
+import { fetchSignaturesSinceSlot } from '../src/sources/backfill';
+import { getBackoffDelay } from '../src/utils/backoff';
+import { EndpointPool } from '../src/utils/endpoints';
+import { Config } from '../src/utils/config';
+import { MockHeliusServer } from './helpers/mockHeliusServer';
+import { createMockRpcServer } from './helpers/mockRpcServer';
+import { expected, fixtureNames, loadTransaction } from './helpers/fixtures';
+import { silenceConsole } from './helpers/console';
+
+silenceConsole();
+
+const PUMP_FUN_PROGRAM_ID = '6EF8rrecthR5Dkzon8Nwu78hRvfCKubJ14M5uBEwF6P';
+const PUMP_FUN_MIGRATION_ACCOUNT = '39azUYFWPz3VHgKCf3VChUwbpURdCHRxjWVowf5jUJjg';
+
+test('backs off exponentially with jitter up to the cap', () => {
+  const options = { baseMs: 1000, maxMs: 8000 };
+  for (let i = 0; i < 50; i++) {
+    const first = getBackoffDelay(1, options);
+    assert.ok(first >= 500 && first <= 1000, `attempt 1 delay ${first}`);
+    const third = getBackoffDelay(3, options);
+    assert.ok(third >= 2000 && third <= 4000, `attempt 3 delay ${third}`);
+    const capped = getBackoffDelay(20, options);
+    assert.ok(capped >= 4000 && capped <= 8000, `attempt 20 delay ${capped}`);
+  }
+});
+
+test('rotates through unique endpoints', () => {
+  const pool = new EndpointPool(['ws://a', 'ws://b', 'ws://a', '']);
+  assert.equal(pool.size, 2);
+  assert.equal(pool.current(), 'ws://a');
+  assert.equal(pool.next(), 'ws://b');
+  assert.equal(pool.next(), 'ws://a');
+  assert.throws(() => new EndpointPool([]));
+});
+
+test('fails over to the next WebSocket endpoint and reports the reconnect', { timeout: 20000 }, async () => {
+  const primary = new MockHeliusServer();
+  const fallback = new MockHeliusServer();
+  const config = {
+    pumpFunProgramId: PUMP_FUN_PROGRAM_ID,
+    subscriptionMode: 'logs',
+  } as Config;
+
+  let reconnects = 0;
+  const client = new HeliusWebSocketClient(config, () => undefined, {
+    name: 'Test',
+    urls: [await primary.listening(), await fallback.listening()],
+    onReconnect: () => reconnects++,
+  });
+
+  try {
+    client.connect();
+    await primary.waitForSubscription();
+    await new Promise(resolve => setTimeout(resolve, 100));
+    assert.equal(client.getHealth().connected, true);
+    assert.equal(reconnects, 0);
+
+    // Primary goes away for good: the first retry hits it again, the second moves to the fallback
+    await primary.close();
+    await fallback.waitForSubscription();
+    await new Promise(resolve => setTimeout(resolve, 100));
+
+    const health = client.getHealth();
+    assert.equal(reconnects, 1);
+    assert.equal(health.connected, true);
+    assert.equal(health.endpoint, await fallback.listening());
+    assert.equal(health.reconnectAttempts, 0);
+    assert.ok(health.lastDisconnectedAt! <= health.lastConnectedAt!);
+  } finally {
+    client.disconnect();
+    await Promise.all([primary.close(), fallback.close()]);
+  }
+});
+
+test('lists program signatures back to a slot, oldest first', async () => {
+  const transactions: Record<string, any> = {};
+  for (const name of fixtureNames()) {
+    transactions[expected[name].signature] = loadTransaction(name);
+  }
+  const rpc = createMockRpcServer(transactions);
+
+  try {
+    const connection = new Connection(await rpc.listening(), 'confirmed');
+    const fromSlot = transactions[expected['migration-inner'].signature].slot;
+    const signatures = await fetchSignaturesSinceSlot(connection, PUMP_FUN_PROGRAM_ID, fromSlot, 1000);
+
+    const expectedSignatures = Object.keys(transactions)
+      .filter(signature => transactions[signature].slot >= fromSlot)
+      .sort((a, b) => transactions[a].slot - transactions[b].slot);
+    assert.deepEqual(signatures, expectedSignatures);
+    assert.ok(!signatures.includes(expected['migration'].signature));
+
+    // The cap keeps the newest signatures
+    const capped = await fetchSignaturesSinceSlot(connection, PUMP_FUN_PROGRAM_ID, fromSlot, 2);
+    assert.deepEqual(capped, expectedSignatures.slice(-2));
+
+    // The migration authority only signs migrations, so trades and fee claims are never listed
+    const migrations = await fetchSignaturesSinceSlot(connection, PUMP_FUN_MIGRATION_ACCOUNT, 0, 1000);
+    assert.deepEqual(
+      [...migrations].sort(),
+      [expected['migration'].signature, expected['migration-failed'].signature, expected['migration-inner'].signature].sort()
+    );
+  } finally {
+    await rpc.close();
+  }
+});
@@ -0,0 +1,149 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  FetchScheduler,
+  RateLimitError,
+  StaleTaskError,
+  createRpcConnection,
+  isRateLimitError,
+  parseRetryAfter,
+} from '../src/fetchers/scheduler';
+import { MockHttpServer } from './helpers/mockHttpServer';
+import { silenceConsole } from './helpers/console';
+
+silenceConsole();
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+test('never runs more tasks than the concurrency limit', async () => {
+  const scheduler = new FetchScheduler({ name: 'test', concurrency: 2, ratePerSecond: 1000 });
+  let running = 0;
+  let peak = 0;
+
+  await Promise.all(Array.from({ length: 6 }, () => scheduler.schedule(async () => {
+    running++;
+    peak = Math.max(peak, running);
+    await sleep(20);
+    running--;
+  })));
+
+  assert.equal(peak, 2);
+  assert.equal(scheduler.getStats().completed, 6);
+});
+
+test('spaces requests by the token bucket rate', async () => {
+  const scheduler = new FetchScheduler({ name: 'test', concurrency: 10, ratePerSecond: 20, burst: 1 });
+  const startedAt: number[] = [];
+
+  await Promise.all(Array.from({ length: 4 }, () => scheduler.schedule(async () => {
+    startedAt.push(Date.now());
+  })));
+
+  // One token up front, then one every 50ms
+  assert.ok(startedAt[3] - startedAt[0] >= 140, `spread ${startedAt[3] - startedAt[0]}ms`);
+});
+
+test('runs higher priority tasks first, FIFO within a priority', async () => {
+  const scheduler = new FetchScheduler({ name: 'test', concurrency: 1, ratePerSecond: 1000 });
+  const order: string[] = [];
+  const record = (name: string) => async () => {
+    order.push(name);
+    await sleep(5);
+  };
+
+  await Promise.all([
+    scheduler.schedule(record('first')),
+    scheduler.schedule(record('backfill-1'), { priority: 0 }),
+    scheduler.schedule(record('backfill-2'), { priority: 0 }),
+    scheduler.schedule(record('live'), { priority: 1 }),
+  ]);
+
+  assert.deepEqual(order, ['first', 'live', 'backfill-1', 'backfill-2']);
+});
+
+test('retries rate limited tasks after Retry-After', async () => {
+  const scheduler = new FetchScheduler({ name: 'test', concurrency: 1, ratePerSecond: 1000 });
+  let attempts = 0;
+  const startedAt = Date.now();
+
+  const result = await scheduler.schedule(async () => {
+    attempts++;
+    if (attempts === 1) {
+      throw new RateLimitError('429 Too Many Requests', 150);
+    }
+    return 'ok';
+  });
+
+  assert.equal(result, 'ok');
+  assert.ok(Date.now() - startedAt >= 150);
+  assert.equal(scheduler.getStats().retried, 1);
+  assert.equal(scheduler.getStats().rateLimited, 1);
+});
+
+test('fails fast on errors that are not worth retrying', async () => {
+  const scheduler = new FetchScheduler({ name: 'test', concurrency: 1, ratePerSecond: 1000 });
+  let attempts = 0;
+
+  await assert.rejects(scheduler.schedule(async () => {
+    attempts++;
+    throw new Error('invalid param');
+  }), /invalid param/);
+
+  assert.equal(attempts, 1);
+  assert.equal(scheduler.getStats().failed, 1);
+});
+
+test('drops and counts tasks that waited past their stale limit', async () => {
+  const scheduler = new FetchScheduler({ name: 'test', concurrency: 1, ratePerSecond: 1000, staleAfterMs: 30 });
+
+  const slow = scheduler.schedule(() => sleep(80));
+  const live = scheduler.schedule(async () => 'live');
+  const backfill = scheduler.schedule(async () => 'backfill', { staleAfterMs: 0 });
+
+  await slow;
+  await assert.rejects(live, StaleTaskError);
+  assert.equal(await backfill, 'backfill');
+  assert.equal(scheduler.getStats().droppedStale, 1);
+});
+
+test('parses Retry-After seconds and HTTP dates', () => {
+  assert.equal(parseRetryAfter('2'), 2000);
+  assert.equal(parseRetryAfter(null), undefined);
+  assert.equal(parseRetryAfter('soon'), undefined);
+  const date = parseRetryAfter(new Date(Date.now() + 5000).toUTCString())!;
+  assert.ok(date > 3000 && date <= 5000, `date delay ${date}`);
+});
+
+test('recognizes rate limit errors without matching "429" elsewhere in the message', () => {
+  assert.equal(isRateLimitError(new RateLimitError('rate limited')), true);
+  assert.equal(isRateLimitError({ message: 'Request failed', response: { status: 429 } }), true);
+  assert.equal(isRateLimitError(new Error('429 Too Many Requests: {"jsonrpc":"2.0"}')), true);
+  assert.equal(isRateLimitError(new Error('Server responded with Too Many Requests')), true);
+
+  assert.equal(isRateLimitError(new Error('Transaction 4295xQvK not found')), false);
+  assert.equal(isRateLimitError(new Error('Slot 370042951 was skipped')), false);
+  assert.equal(isRateLimitError(new Error('500 Internal Server Error')), false);
+});
+
+test('RPC connections surface 429s to the scheduler with Retry-After', async () => {
+  let requests = 0;
+  const rpc = new MockHttpServer(({ body }) => {
+    requests++;
+    if (requests === 1) {
+      return { status: 429, headers: { 'retry-after': '0' }, body: { error: 'rate limited' } };
+    }
+    return { body: { jsonrpc: '2.0', id: body.id, result: 123 } };
+  });
+  const scheduler = new FetchScheduler({ name: 'rpc', concurrency: 1, ratePerSecond: 1000 });
+
+  try {
+    const connection = createRpcConnection(await rpc.listening());
+    const slot = await scheduler.schedule(() => connection.getSlot());
+
+    assert.equal(slot, 123);
+    assert.equal(requests, 2);
+    assert.equal(scheduler.getStats().rateLimited, 1);
+  } finally {
+    await rpc.close();
+  }
+});
@@ -0,0 +1,141 @@
+import { mock, test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { FollowUpScheduler } from '../src/followups/scheduler';
+import { FollowUpRecord, JsonFollowUpRepository, MetricsSnapshot } from '../src/storage/followUps';
+import { SentAlert } from '../src/types';
+import { silenceConsole } from './helpers/console';
+
+silenceConsole();
+
+const NOW = 1700000000000;
+const MINT = '5dQ8f8dyYsBhtuV5oLsuVpNoPmhCnumsWNDYQsWppump';
+const ALERTS: SentAlert[] = [{ chatId: 1001, messageId: 11 }, { chatId: 1002, messageId: 12 }];
+// Pending follow-ups are checked every 10s
+const CHECK_INTERVAL_MS = 10000;
+
+// Stands in for TelegramBotHandler: records follow-ups and fails the chats queued in `failing`
+function fakeBot() {
+  return {
+    paused: false,
+    failing: [] as number[],
+    sent: [] as Array<{ followUp: FollowUpRecord; current: MetricsSnapshot }>,
+    isPaused() {
+      return this.paused;
+    },
+    async sendFollowUp(followUp: FollowUpRecord, current: MetricsSnapshot): Promise<SentAlert[]> {
+      this.sent.push({ followUp, current });
+      return followUp.alerts.filter(alert => this.failing.includes(alert.chatId));
+    },
+  };
+}
+
+function createScheduler(dataDir: string, bot: ReturnType<typeof fakeBot>, delaysMs = [60000]) {
+  const repository = new JsonFollowUpRepository(dataDir);
+  const detector = { fetchTokenOrganicScore: async () => ({ id: MINT, usdPrice: 0.002, mcap: 2000000, liquidity: 90000 }) };
+  const scheduler = new FollowUpScheduler(repository, detector as any, {} as any, bot as any, delaysMs);
+  return { repository, scheduler };
+}
+
+function scheduleMigration(scheduler: FollowUpScheduler, alerts: SentAlert[] = ALERTS): void {
+  scheduler.schedule(
+    { signature: 'sig', tokenMint: MINT, timestamp: NOW, transactionUrl: 'https://solscan.io/tx/sig' },
+    { mint: MINT, name: 'Fixture', symbol: 'FIX', decimals: 6, marketCap: 1000000 },
+    null,
+    alerts
+  );
+}
+
+// Advances the clock by whole check intervals and lets the due follow-ups finish sending
+async function advance(ms: number): Promise<void> {
+  for (let elapsed = 0; elapsed < ms; elapsed += CHECK_INTERVAL_MS) {
+    mock.timers.tick(CHECK_INTERVAL_MS);
+    await new Promise(resolve => setImmediate(resolve));
+  }
+}
+
+function withFakeClock(run: (dataDir: string) => Promise<void>): () => Promise<void> {
+  return async () => {
+    mock.timers.enable({ apis: ['setInterval', 'Date'], now: NOW });
+    try {
+      await run(fs.mkdtempSync(path.join(os.tmpdir(), 'migration-bot-followups-')));
+    } finally {
+      mock.timers.reset();
+    }
+  };
+}
+
+test('sends follow-ups restored after a restart once they are due', withFakeClock(async (dataDir) => {
+  scheduleMigration(createScheduler(dataDir, fakeBot()).scheduler);
+
+  const bot = fakeBot();
+  const { repository, scheduler } = createScheduler(dataDir, bot);
+  assert.equal(repository.list().length, 1);
+  scheduler.start();
+  try {
+    await advance(50000);
+    assert.equal(bot.sent.length, 0);
+
+    await advance(10000);
+    assert.equal(bot.sent.length, 1);
+    assert.equal(bot.sent[0].followUp.tokenSymbol, 'FIX');
+    assert.deepEqual(bot.sent[0].followUp.baseline, { marketCap: 1000000 });
+    assert.deepEqual(bot.sent[0].current, { price: 0.002, marketCap: 2000000, liquidity: 90000 });
+    assert.equal(repository.list().length, 0);
+    assert.equal(new JsonFollowUpRepository(dataDir).list().length, 0);
+  } finally {
+    scheduler.stop();
+  }
+}));
+
+test('retries the chats a follow-up failed in with backoff, then drops it', withFakeClock(async (dataDir) => {
+  const bot = fakeBot();
+  bot.failing = [1002];
+  const { repository, scheduler } = createScheduler(dataDir, bot);
+  scheduleMigration(scheduler);
+  scheduler.start();
+  try {
+    await advance(60000);
+    assert.equal(bot.sent.length, 1);
+    const [retry] = repository.list();
+    assert.deepEqual(retry.alerts, [ALERTS[1]]);
+    assert.equal(retry.attempts, 1);
+    // The first retry waits 30-60s
+    assert.ok(retry.dueAt >= Date.now() + 30000 && retry.dueAt <= Date.now() + 60000, String(retry.dueAt - Date.now()));
+
+    await advance(60000);
+    assert.equal(bot.sent.length, 2);
+    assert.deepEqual(bot.sent[1].followUp.alerts, [ALERTS[1]]);
+    assert.equal(repository.list()[0].attempts, 2);
+
+    // The third failure is the last attempt
+    await advance(120000);
+    assert.equal(bot.sent.length, 3);
+    assert.equal(repository.list().length, 0);
+  } finally {
+    scheduler.stop();
+  }
+}));
+
+test('keeps due follow-ups while delivery is paused', withFakeClock(async (dataDir) => {
+  const bot = fakeBot();
+  bot.paused = true;
+  const { repository, scheduler } = createScheduler(dataDir, bot);
+  scheduleMigration(scheduler);
+  scheduler.start();
+  try {
+    await advance(120000);
+    assert.equal(bot.sent.length, 0);
+    assert.equal(repository.list().length, 1);
+    assert.equal(repository.list()[0].attempts, undefined);
+
+    bot.paused = false;
+    await advance(10000);
+    assert.equal(bot.sent.length, 1);
+    assert.equal(repository.list().length, 0);
+  } finally {
+    scheduler.stop();
+  }
+}));
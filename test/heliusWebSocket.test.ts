@@ -0,0 +1,89 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { HeliusWebSocketClient } from '../src/websocket/helius';
+import { Config } from '../src/utils/config';
+import { HeliusWebSocketMessage } from '../src/types';
+import { MockHeliusServer } from './helpers/mockHeliusServer';
+import { expected, loadTransaction } from './helpers/fixtures';
+import { silenceConsole } from './helpers/console';
+
+silenceConsole();
+
+async function createConfig(server: MockHeliusServer, subscriptionMode: Config['subscriptionMode']): Promise<Config> {
+  return {
+    heliusApiKey: 'test-api-key',
+    heliusWsUrl: await server.listening(),
+    pumpFunProgramId: '6EF8rrecthR5Dkzon8Nwu78hRvfCKubJ14M5uBEwF6P',
+    subscriptionMode,
+  } as Config;
+}
+
+test('subscribes to pump.fun logs and forwards notifications', async () => {
+  const server = new MockHeliusServer();
+  const config = await createConfig(server, 'logs');
+
+  const received: HeliusWebSocketMessage[] = [];
+  const client = new HeliusWebSocketClient(config, message => received.push(message));
+
+  try {
+    client.connect();
+    await server.waitForSubscription();
+
+    const subscribe = server.requests.find(request => request.method === 'logsSubscribe');
+    assert.deepEqual(subscribe.params[0], { mentions: [config.pumpFunProgramId] });
+    assert.equal(client.isConnected(), true);
+
+    server.notifyLogs('test-signature', ['Program log: Instruction: Migrate']);
+    await new Promise(resolve => setTimeout(resolve, 100));
+
+    assert.equal(received.length, 1);
+    assert.equal(received[0].method, 'logsNotification');
+    assert.equal(received[0].params?.result?.value?.signature, 'test-signature');
+  } finally {
+    client.disconnect();
+    await server.close();
+  }
+});
+
+test('forwards full transactions in transaction mode', async () => {
+  const server = new MockHeliusServer();
+  const config = await createConfig(server, 'transaction');
+
+  const received: HeliusWebSocketMessage[] = [];
+  const client = new HeliusWebSocketClient(config, message => received.push(message));
+
+  try {
+    client.connect();
+    await server.waitForSubscription('transactionSubscribe');
+
+    const subscribe = server.requests.find(request => request.method === 'transactionSubscribe');
+    assert.deepEqual(subscribe.params[0].accountInclude, [config.pumpFunProgramId]);
+    assert.equal(subscribe.params[1].transactionDetails, 'full');
+
+    server.notifyTransaction(loadTransaction('migration'));
+    await new Promise(resolve => setTimeout(resolve, 100));
+
+    assert.equal(received.length, 1);
+    assert.equal(received[0].params?.result?.signature, expected['migration'].signature);
+    assert.ok(received[0].params?.result?.transaction?.meta);
+  } finally {
+    client.disconnect();
+    await server.close();
+  }
+});
+
+test('falls back to logsSubscribe when transactionSubscribe is not supported', async () => {
+  const server = new MockHeliusServer({ supportsTransactionSubscribe: false });
+  const config = await createConfig(server, 'transaction');
+  const client = new HeliusWebSocketClient(config, () => undefined);
+
+  try {
+    client.connect();
+    await server.waitForSubscription('logsSubscribe');
+
+    assert.deepEqual(server.requests.map(request => request.method), ['transactionSubscribe', 'logsSubscribe']);
+  } finally {
+    client.disconnect();
+    await server.close();
+  }
+});
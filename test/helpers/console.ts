@@ -0,0 +1,8 @@
+import { mock } from 'node:test';
+
+// Keeps the bot's console output out of the test reporter stream
+export function silenceConsole(): void {
+  mock.method(console, 'log', () => undefined);
+  mock.method(console, 'warn', () => undefined);
+  mock.method(console, 'error', () => undefined);
+}
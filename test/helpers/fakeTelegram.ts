@@ -0,0 +1,245 @@
+import { MockHttpServer, MockRequest } from './mockHttpServer';
+
+export interface TelegramCall {
+  method: string;
+  params: Record<string, any>;
+  // Message returned by send* calls
+  result?: Record<string, any>;
+}
+
+export interface TelegramFailure {
+  status: number;
+  description: string;
+  retryAfter?: number;
+  // How many sends fail before the chat works again (default: all of them)
+  times?: number;
+}
+
+export interface UserMessageOptions {
+  chatType?: string;
+  // Sender, when it differs from the chat (groups)
+  fromId?: number;
+  // Forum topic the message was posted in
+  threadId?: number;
+}
+
+// Username getMe reports for the bot
+export const BOT_USERNAME = 'MigrationAlertTestBot';
+
+// Text of a sent message, or the caption of a photo
+export function messageText(call: TelegramCall): string {
+  return String(call.params.text ?? call.params.caption);
+}
+
+/**
+ * Fake Telegram Bot API. Records every call and serves queued updates to getUpdates,
+ * or posts them to the webhook once one is set.
+ */
+export class FakeTelegramApi {
+  readonly calls: TelegramCall[] = [];
+  private server: MockHttpServer;
+  private updates: any[] = [];
+  private webhook?: { url: string; secret?: string };
+  private nextUpdateId = 1;
+  private nextMessageId = 1;
+  private failures = new Map<string, TelegramFailure>();
+  private memberStatuses = new Map<string, string>();
+  private sentMessages = new Map<number, Record<string, any>>();
+  private waiters: Array<{ predicate: (call: TelegramCall) => boolean; resolve: (call: TelegramCall) => void }> = [];
+
+  constructor() {
+    this.server = new MockHttpServer(request => this.handle(request));
+  }
+
+  listening(): Promise<string> {
+    return this.server.listening();
+  }
+
+  close(): Promise<void> {
+    return this.server.close();
+  }
+
+  // Queues an incoming text message, as if a user typed it
+  sendUserMessage(chatId: number, text: string, options: UserMessageOptions = {}): void {
+    const { chatType = 'private', fromId = chatId, threadId } = options;
+    this.queueUpdate({
+      update_id: this.nextUpdateId++,
+      message: {
+        ...this.textMessage(chatId, chatType, text),
+        from: { id: fromId, is_bot: false, first_name: 'Test' },
+        ...(threadId ? { message_thread_id: threadId, is_topic_message: true } : {}),
+      },
+    });
+  }
+
+  // Queues a post in a channel the bot administers (channel posts have no sender)
+  sendChannelPost(chatId: number, text: string): void {
+    this.queueUpdate({
+      update_id: this.nextUpdateId++,
+      channel_post: this.textMessage(chatId, 'channel', text),
+    });
+  }
+
+  // Queues a tap on an inline keyboard button under a message the bot sent
+  sendCallbackQuery(chatId: number, messageId: number, data: string, options: UserMessageOptions = {}): void {
+    const { chatType = 'private', fromId = chatId } = options;
+    const message = {
+      ...(this.sentMessages.get(messageId) || { message_id: messageId, date: Math.floor(Date.now() / 1000) }),
+      chat: { id: chatId, type: chatType },
+    };
+    this.queueUpdate({
+      update_id: this.nextUpdateId++,
+      callback_query: {
+        id: String(this.nextUpdateId),
+        from: { id: fromId, is_bot: false, first_name: 'Test' },
+        message,
+        chat_instance: String(chatId),
+        data,
+      },
+    });
+  }
+
+  // Posts an update to the webhook, as Telegram would; resolves with the bot's HTTP status
+  async postWebhookUpdate(update: any, secret = this.webhook?.secret): Promise<number> {
+    const response = await fetch(this.webhook!.url, {
+      method: 'POST',
+      headers: { 'content-type': 'application/json', ...(secret ? { 'x-telegram-bot-api-secret-token': secret } : {}) },
+      body: JSON.stringify(update),
+    });
+    return response.status;
+  }
+
+  // Sets what getChatMember reports for a user (default: "member")
+  setChatMember(chatId: number, userId: number, status: string): void {
+    this.memberStatuses.set(`${chatId}:${userId}`, status);
+  }
+
+  // Makes send* calls to a chat fail with a Telegram API error
+  failSends(chatId: number, failure: TelegramFailure): void {
+    this.failures.set(String(chatId), { ...failure });
+  }
+
+  // Text messages and photos sent to a chat
+  messagesTo(chatId: number): TelegramCall[] {
+    return this.calls.filter(call =>
+      (call.method === 'sendMessage' || call.method === 'sendPhoto') && String(call.params.chat_id) === String(chatId)
+    );
+  }
+
+  waitForCall(predicate: (call: TelegramCall) => boolean, timeoutMs: number = 20000): Promise<TelegramCall> {
+    const existing = this.calls.find(predicate);
+    if (existing) {
+      return Promise.resolve(existing);
+    }
+
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => reject(new Error('Timed out waiting for Telegram call')), timeoutMs);
+      this.waiters.push({
+        predicate,
+        resolve: (call) => {
+          clearTimeout(timer);
+          resolve(call);
+        },
+      });
+    });
+  }
+
+  private queueUpdate(update: any): void {
+    if (!this.webhook) {
+      this.updates.push(update);
+      return;
+    }
+    this.postWebhookUpdate(update).catch(() => undefined);
+  }
+
+  private textMessage(chatId: number, chatType: string, text: string) {
+    return {
+      message_id: this.nextMessageId++,
+      date: Math.floor(Date.now() / 1000),
+      chat: { id: chatId, type: chatType },
+      text,
+      entities: text.startsWith('/') ? [{ type: 'bot_command', offset: 0, length: text.split(' ')[0].length }] : undefined,
+    };
+  }
+
+  private async handle(request: MockRequest): Promise<{ status?: number; body: unknown }> {
+    const match = request.url.pathname.match(/^\/bot[^/]+\/(\w+)$/);
+    if (!match) {
+      return { status: 404, body: { ok: false, error_code: 404, description: 'Not Found' } };
+    }
+
+    const method = match[1];
+    // File uploads are multipart, with the other parameters in the query string
+    const params = {
+      ...Object.fromEntries(request.url.searchParams),
+      ...(typeof request.body === 'object' ? request.body : {}),
+    };
+
+    if (method === 'getUpdates') {
+      // Short long-poll so the bot does not spin
+      if (this.updates.length === 0) {
+        await new Promise(resolve => setTimeout(resolve, 200));
+      }
+      const offset = Number(params.offset || 0);
+      const updates = this.updates.filter(update => update.update_id >= offset);
+      this.updates = updates;
+      return { body: { ok: true, result: updates } };
+    }
+
+    const call: TelegramCall = { method, params };
+    this.calls.push(call);
+    this.waiters = this.waiters.filter(waiter => {
+      if (waiter.predicate(call)) {
+        waiter.resolve(call);
+        return false;
+      }
+      return true;
+    });
+
+    const failure = this.failures.get(String(params.chat_id));
+    if (method.startsWith('send') && failure && (failure.times === undefined || failure.times-- > 0)) {
+      return {
+        status: failure.status,
+        body: {
+          ok: false,
+          error_code: failure.status,
+          description: failure.description,
+          ...(failure.retryAfter !== undefined ? { parameters: { retry_after: failure.retryAfter } } : {}),
+        },
+      };
+    }
+
+    if (method === 'setWebHook') {
+      this.webhook = { url: params.url, secret: params.secret_token };
+      const pending = this.updates.splice(0);
+      pending.forEach(update => this.queueUpdate(update));
+    } else if (method === 'deleteWebhook') {
+      this.webhook = undefined;
+    }
+
+    if (method.startsWith('send')) {
+      call.result = {
+        message_id: this.nextMessageId++,
+        date: Math.floor(Date.now() / 1000),
+        chat: { id: Number(params.chat_id), type: 'private' },
+        ...(method === 'sendPhoto'
+          ? { caption: params.caption, photo: [{ file_id: `photo-${this.nextMessageId}`, width: 800, height: 400 }] }
+          : { text: params.text }),
+        ...(params.reply_markup ? { reply_markup: JSON.parse(params.reply_markup) } : {}),
+      };
+      this.sentMessages.set(call.result.message_id, call.result);
+      return { body: { ok: true, result: call.result } };
+    }
+
+    if (method === 'getMe') {
+      return { body: { ok: true, result: { id: 1, is_bot: true, first_name: 'Migration Alert Bot', username: BOT_USERNAME } } };
+    }
+
+    if (method === 'getChatMember') {
+      const status = this.memberStatuses.get(`${params.chat_id}:${params.user_id}`) || 'member';
+      return { body: { ok: true, result: { status, user: { id: Number(params.user_id), is_bot: false, first_name: 'Test' } } } };
+    }
+
+    return { body: { ok: true, result: true } };
+  }
+}
@@ -0,0 +1,30 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { ParsedTransactionWithMeta } from '@solana/web3.js';
+
+const FIXTURES_DIR = path.join(__dirname, '..', 'fixtures');
+
+export interface FixtureExpectation {
+  signature: string;
+  isMigration: boolean;
+  tokenMint: string;
+  bondingCurve?: string;
+  pool?: string;
+  user?: string;
+  baseAmount?: string;
+  quoteAmount?: string;
+}
+
+export const TRANSACTIONS_DIR = path.join(FIXTURES_DIR, 'transactions');
+
+export const expected: Record<string, FixtureExpectation> = JSON.parse(
+  fs.readFileSync(path.join(FIXTURES_DIR, 'expected.json'), 'utf8')
+);
+
+export function loadTransaction(name: string): ParsedTransactionWithMeta {
+  return JSON.parse(fs.readFileSync(path.join(TRANSACTIONS_DIR, `${name}.json`), 'utf8'));
+}
+
+export function fixtureNames(): string[] {
+  return Object.keys(expected);
+}
@@ -0,0 +1,132 @@
+import { AddressInfo } from 'net';
+import { WebSocketServer, WebSocket } from 'ws';
+
+/**
+ * Local WebSocket server that speaks the `logsSubscribe` / `logsNotification`
+ * protocol the HeliusWebSocketClient expects, plus Helius' enhanced
+ * `transactionSubscribe` / `transactionNotification`.
+ */
+export class MockHeliusServer {
+  private server: WebSocketServer;
+  private subscriptions: Map<WebSocket, { id: number; method: string }> = new Map();
+  private nextSubscriptionId = 1;
+  private slot = 370000000;
+  private subscriptionWaiters: Array<{ method?: string; resolve: () => void }> = [];
+  readonly requests: any[] = [];
+  private supportsTransactionSubscribe: boolean;
+
+  constructor(options: { supportsTransactionSubscribe?: boolean } = {}) {
+    this.supportsTransactionSubscribe = options.supportsTransactionSubscribe ?? true;
+    this.server = new WebSocketServer({ host: '127.0.0.1', port: 0 });
+    this.server.on('connection', (socket) => {
+      socket.on('message', (data) => this.handleMessage(socket, data.toString()));
+      socket.on('close', () => this.subscriptions.delete(socket));
+    });
+  }
+
+  async listening(): Promise<string> {
+    if (!this.server.address()) {
+      await new Promise(resolve => this.server.once('listening', resolve));
+    }
+    const { port } = this.server.address() as AddressInfo;
+    return `ws://127.0.0.1:${port}`;
+  }
+
+  waitForSubscription(method?: string): Promise<void> {
+    const isMatch = (subscription: { method: string }) => !method || subscription.method === method;
+    if (Array.from(this.subscriptions.values()).some(isMatch)) {
+      return Promise.resolve();
+    }
+    return new Promise(resolve => this.subscriptionWaiters.push({ method, resolve }));
+  }
+
+  notifyLogs(signature: string, logs: string[], err: unknown = null): void {
+    this.slot++;
+    this.subscriptionsFor('logsSubscribe').forEach(([socket, subscription]) => {
+      socket.send(JSON.stringify({
+        jsonrpc: '2.0',
+        method: 'logsNotification',
+        params: {
+          result: {
+            context: { slot: this.slot },
+            value: { signature, err, logs },
+          },
+          subscription,
+        },
+      }));
+    });
+  }
+
+  // Pushes a full jsonParsed transaction (as returned by getParsedTransaction) to transactionSubscribe clients
+  notifyTransaction(tx: any): void {
+    this.slot++;
+    this.subscriptionsFor('transactionSubscribe').forEach(([socket, subscription]) => {
+      socket.send(JSON.stringify({
+        jsonrpc: '2.0',
+        method: 'transactionNotification',
+        params: {
+          result: {
+            transaction: {
+              transaction: tx.transaction,
+              meta: tx.meta,
+              version: tx.version,
+            },
+            signature: tx.transaction.signatures[0],
+            slot: this.slot,
+          },
+          subscription,
+        },
+      }));
+    });
+  }
+
+  // Drops every client connection, e.g. to exercise reconnects
+  dropConnections(): void {
+    this.server.clients.forEach(client => client.terminate());
+    this.subscriptions.clear();
+  }
+
+  async close(): Promise<void> {
+    this.server.clients.forEach(client => client.terminate());
+    await new Promise(resolve => this.server.close(resolve));
+  }
+
+  private subscriptionsFor(method: string): Array<[WebSocket, number]> {
+    return Array.from(this.subscriptions.entries())
+      .filter(([, subscription]) => subscription.method === method)
+      .map(([socket, subscription]) => [socket, subscription.id]);
+  }
+
+  private handleMessage(socket: WebSocket, raw: string): void {
+    let request: any;
+    try {
+      request = JSON.parse(raw);
+    } catch {
+      socket.send(JSON.stringify({ jsonrpc: '2.0', error: { code: -32700, message: 'Parse error' }, id: null }));
+      return;
+    }
+    this.requests.push(request);
+
+    const isSupported = request.method === 'logsSubscribe' ||
+      (request.method === 'transactionSubscribe' && this.supportsTransactionSubscribe);
+    if (isSupported) {
+      const subscriptionId = this.nextSubscriptionId++;
+      this.subscriptions.set(socket, { id: subscriptionId, method: request.method });
+      socket.send(JSON.stringify({ jsonrpc: '2.0', result: subscriptionId, id: request.id }));
+      this.subscriptionWaiters = this.subscriptionWaiters.filter(waiter => {
+        if (!waiter.method || waiter.method === request.method) {
+          waiter.resolve();
+          return false;
+        }
+        return true;
+      });
+      return;
+    }
+
+    socket.send(JSON.stringify({
+      jsonrpc: '2.0',
+      error: { code: -32601, message: 'Method not found' },
+      id: request.id,
+    }));
+  }
+}
@@ -0,0 +1,113 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { URL } from 'url';
+
+export interface MockRequest {
+  method: string;
+  url: URL;
+  headers: http.IncomingHttpHeaders;
+  body: any;
+  // Undecoded body, e.g. for verifying signatures
+  rawBody: Buffer;
+}
+
+export interface MockResponse {
+  status?: number;
+  headers?: Record<string, string>;
+  body: unknown;
+}
+
+export type MockHandler = (request: MockRequest) => Promise<MockResponse> | MockResponse;
+
+/**
+ * Minimal HTTP server used as a stand-in for the RPC, Jupiter and Telegram APIs.
+ * Request bodies are decoded from JSON, form encoding or multipart (file parts as Buffers).
+ */
+export class MockHttpServer {
+  private server: http.Server;
+  readonly requests: MockRequest[] = [];
+
+  constructor(handler: MockHandler) {
+    this.server = http.createServer((req, res) => {
+      const chunks: Buffer[] = [];
+      req.on('data', chunk => chunks.push(chunk));
+      req.on('end', async () => {
+        const rawBody = Buffer.concat(chunks);
+        const request: MockRequest = {
+          method: req.method || 'GET',
+          url: new URL(req.url || '/', 'http://127.0.0.1'),
+          headers: req.headers,
+          body: decodeBody(rawBody, req.headers['content-type']),
+          rawBody,
+        };
+        this.requests.push(request);
+
+        try {
+          const response = await handler(request);
+          res.writeHead(response.status || 200, { 'content-type': 'application/json', ...response.headers });
+          res.end(JSON.stringify(response.body));
+        } catch (error: any) {
+          res.writeHead(500, { 'content-type': 'application/json' });
+          res.end(JSON.stringify({ error: error.message }));
+        }
+      });
+    });
+    this.server.listen(0, '127.0.0.1');
+  }
+
+  async listening(): Promise<string> {
+    if (!this.server.listening) {
+      await new Promise(resolve => this.server.once('listening', resolve));
+    }
+    const { port } = this.server.address() as AddressInfo;
+    return `http://127.0.0.1:${port}`;
+  }
+
+  async close(): Promise<void> {
+    this.server.closeAllConnections();
+    await new Promise(resolve => this.server.close(resolve));
+  }
+}
+
+function decodeBody(body: Buffer, contentType?: string): any {
+  if (body.length === 0) {
+    return {};
+  }
+  const boundary = contentType?.match(/multipart\/form-data;.*boundary=(?:"([^"]+)"|([^;]+))/);
+  if (boundary) {
+    return decodeMultipart(body, boundary[1] || boundary[2]);
+  }
+
+  const raw = body.toString();
+  if (contentType?.includes('application/json')) {
+    return JSON.parse(raw);
+  }
+  if (contentType?.includes('application/x-www-form-urlencoded')) {
+    return Object.fromEntries(new URLSearchParams(raw));
+  }
+  return raw;
+}
+
+function decodeMultipart(body: Buffer, boundary: string): Record<string, string | Buffer> {
+  const fields: Record<string, string | Buffer> = {};
+  const delimiter = Buffer.from(`--${boundary}`);
+  let start = body.indexOf(delimiter);
+
+  while (start !== -1) {
+    const next = body.indexOf(delimiter, start + delimiter.length);
+    if (next === -1) {
+      break;
+    }
+    // Each part is "\r\n<headers>\r\n\r\n<content>\r\n"
+    const part = body.subarray(start + delimiter.length + 2, next - 2);
+    const headerEnd = part.indexOf('\r\n\r\n');
+    const headers = part.subarray(0, headerEnd).toString();
+    const content = part.subarray(headerEnd + 4);
+    const name = headers.match(/name="([^"]+)"/)?.[1];
+    if (name) {
+      fields[name] = /filename="/.test(headers) ? Buffer.from(content) : content.toString();
+    }
+    start = next;
+  }
+  return fields;
+}
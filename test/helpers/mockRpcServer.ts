@@ -0,0 +1,75 @@
+import { MockHttpServer } from './mockHttpServer';
+
+/**
+ * JSON-RPC stand-in for the Solana/Helius HTTP endpoint.
+ * `getParsedTransaction` answers from the given transactions, keyed by signature.
+ */
+export function createMockRpcServer(transactions: Record<string, unknown>): MockHttpServer {
+  return new MockHttpServer(({ body }) => {
+    const requests = Array.isArray(body) ? body : [body];
+    const responses = requests.map((request: any) => ({
+      jsonrpc: '2.0',
+      id: request.id,
+      result: handleRpc(request.method, request.params || [], transactions),
+    }));
+    return { body: Array.isArray(body) ? responses : responses[0] };
+  });
+}
+
+function handleRpc(method: string, params: any[], transactions: Record<string, unknown>): unknown {
+  switch (method) {
+    case 'getTransaction':
+      return transactions[params[0]] ?? null;
+    case 'getAccountInfo':
+      return { context: { slot: 370000000 }, value: null };
+    case 'getSignaturesForAddress': {
+      // Transactions touching the address, newest first, paged with `before`/`limit` like the real RPC
+      const options = params[1] || {};
+      const signatures = Object.keys(transactions)
+        .filter(signature => getAccountKeys(transactions[signature]).includes(params[0]))
+        .map(signature => ({
+          signature,
+          slot: (transactions[signature] as any)?.slot ?? 0,
+          err: null,
+          memo: null,
+          blockTime: (transactions[signature] as any)?.blockTime ?? null,
+          confirmationStatus: 'confirmed',
+        }))
+        .sort((a, b) => b.slot - a.slot);
+      const start = options.before ? signatures.findIndex(info => info.signature === options.before) + 1 : 0;
+      return signatures.slice(start, start + (options.limit || 1000));
+    }
+    default:
+      return null;
+  }
+}
+
+// Account keys of a fixture transaction (strings, or `{ pubkey }` in jsonParsed ones)
+function getAccountKeys(transaction: any): string[] {
+  const keys: any[] = transaction?.transaction?.message?.accountKeys || [];
+  return keys.map(key => typeof key === 'string' ? key : key.pubkey);
+}
+
+/**
+ * Stand-in for the Jupiter token search API (`/tokens/v2/search`).
+ */
+// Serves pump.fun `/candlesticks/<mint>` from a map of mint -> candles
+export function createMockPumpFunServer(candles: Record<string, unknown[]>): MockHttpServer {
+  return new MockHttpServer(({ url }) => {
+    const match = url.pathname.match(/^\/candlesticks\/(\w+)$/);
+    if (!match) {
+      return { status: 404, body: { error: 'Not found' } };
+    }
+    return { body: candles[match[1]] || [] };
+  });
+}
+
+export function createMockJupiterServer(tokens: Record<string, unknown>): MockHttpServer {
+  return new MockHttpServer(({ url }) => {
+    if (url.pathname !== '/tokens/v2/search') {
+      return { status: 404, body: { error: 'Not found' } };
+    }
+    const token = tokens[url.searchParams.get('query') || ''];
+    return { body: token ? [token] : [] };
+  });
+}
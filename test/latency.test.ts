@@ -0,0 +1,59 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { getStageDurations, markStage, percentile, startTrace, summarizeLatency } from '../src/metrics/latency';
+import { LatencyTrace } from '../src/types';
+
+function trace(stages: LatencyTrace['stages'], extra: Partial<LatencyTrace> = {}): LatencyTrace {
+  return { stages, ...extra };
+}
+
+test('keeps the first time a stage is reached', () => {
+  const item = startTrace();
+  markStage(item, 'dequeued', 1000);
+  markStage(item, 'dequeued', 5000);
+  assert.equal(item.stages.dequeued, 1000);
+  assert.ok(item.stages.received);
+  assert.equal(startTrace(true).backfill, true);
+});
+
+test('measures each stage from the previous recorded one', () => {
+  const durations = getStageDurations(trace({
+    received: 10000,
+    detected: 10050,
+    jupiterFetched: 10300,
+    tokenDataFetched: 10900,
+    sent: 11000,
+  }, { blockTime: 9000 }));
+
+  // Pushed transactions skip dequeued/fetched, so detection is timed from the notification
+  assert.deepEqual(durations, {
+    detected: 50,
+    jupiterFetched: 250,
+    tokenDataFetched: 600,
+    sent: 100,
+    chain: 1000,
+    total: 1000,
+  });
+});
+
+test('reports nearest-rank percentiles per stage, ignoring backfilled traces', () => {
+  const traces = Array.from({ length: 100 }, (_, index) => trace({
+    received: 0,
+    dequeued: index + 1,
+    sent: 1000,
+  }));
+  traces.push(trace({ received: 0, dequeued: 60000, sent: 60000 }, { backfill: true }));
+
+  const summary = summarizeLatency(traces);
+  assert.deepEqual(summary.map(item => item.segment), ['dequeued', 'sent', 'total']);
+
+  const dequeued = summary[0];
+  assert.equal(dequeued.count, 100);
+  assert.equal(dequeued.p50, 50);
+  assert.equal(dequeued.p90, 90);
+  assert.equal(dequeued.p99, 99);
+  assert.equal(summary[2].p99, 1000);
+
+  assert.equal(percentile([], 50), 0);
+  assert.equal(percentile([7], 99), 7);
+});
@@ -0,0 +1,106 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { MetricsRegistry } from '../src/metrics/registry';
+import { createBotMetrics, registerRuntimeMetrics } from '../src/metrics';
+import { FetchScheduler, FetchSchedulers } from '../src/fetchers/scheduler';
+import { HttpServer } from '../src/server/http';
+import { registerHealthRoutes } from '../src/server/health';
+import { TransactionSource } from '../src/sources';
+import { SourceHealth } from '../src/types';
+import { silenceConsole } from './helpers/console';
+
+silenceConsole();
+
+function createSource(connected: boolean): TransactionSource {
+  const health: SourceHealth = { source: 'Test', endpoint: 'ws://test', connected, reconnectAttempts: connected ? 0 : 3 };
+  return {
+    name: 'Test',
+    rpcUrls: [],
+    connect: () => undefined,
+    disconnect: () => undefined,
+    isConnected: () => connected,
+    getHealth: () => health,
+  };
+}
+
+function createSchedulers(): FetchSchedulers {
+  const scheduler = (name: string) => new FetchScheduler({ name, concurrency: 1, ratePerSecond: 1 });
+  return {
+    rpc: scheduler('rpc'),
+    jupiter: scheduler('jupiter'),
+    birdeye: scheduler('birdeye'),
+    dexScreener: scheduler('dexscreener'),
+    pumpFun: scheduler('pumpfun'),
+  };
+}
+
+test('renders counters, gauges and histograms in Prometheus text format', () => {
+  const registry = new MetricsRegistry();
+  const alerts = registry.counter('alerts_total', 'Alerts');
+  const latency = registry.histogram('latency_seconds', 'Latency', [1, 5]);
+  registry.gauge('connected', 'Connected', () => [{ value: 1 }]);
+
+  alerts.inc({ chat_id: 42, status: 'sent' });
+  alerts.inc({ status: 'sent', chat_id: 42 });
+  alerts.inc({ chat_id: 7, status: 'failed' });
+  latency.observe({ stage: 'alerted' }, 0.5);
+  latency.observe({ stage: 'alerted' }, 3);
+
+  const text = registry.render();
+  assert.match(text, /# TYPE alerts_total counter\n/);
+  assert.match(text, /alerts_total\{chat_id="42",status="sent"\} 2\n/);
+  assert.match(text, /alerts_total\{chat_id="7",status="failed"\} 1\n/);
+  assert.match(text, /latency_seconds_bucket\{stage="alerted",le="1"\} 1\n/);
+  assert.match(text, /latency_seconds_bucket\{stage="alerted",le="5"\} 2\n/);
+  assert.match(text, /latency_seconds_bucket\{stage="alerted",le="\+Inf"\} 2\n/);
+  assert.match(text, /latency_seconds_sum\{stage="alerted"\} 3.5\n/);
+  assert.match(text, /latency_seconds_count\{stage="alerted"\} 2\n/);
+  assert.match(text, /connected 1\n/);
+  assert.throws(() => registry.counter('alerts_total', 'Duplicate'));
+});
+
+test('serves /metrics and /healthz', async () => {
+  const metrics = createBotMetrics();
+  const source = createSource(true);
+  registerRuntimeMetrics(metrics, source, createSchedulers());
+  metrics.migrationsDetected.inc();
+
+  const server = new HttpServer(0, '127.0.0.1');
+  registerHealthRoutes(server, metrics, source);
+
+  try {
+    const url = await server.start();
+
+    const metricsResponse = await fetch(`${url}/metrics`);
+    assert.equal(metricsResponse.status, 200);
+    assert.match(metricsResponse.headers.get('content-type') || '', /^text\/plain/);
+    const text = await metricsResponse.text();
+    assert.match(text, /pump_bot_migrations_detected_total 1\n/);
+    assert.match(text, /pump_bot_source_connected\{source="Test"\} 1\n/);
+    assert.match(text, /pump_bot_fetch_queue_depth\{scheduler="rpc"\} 0\n/);
+
+    const healthResponse = await fetch(`${url}/healthz`);
+    assert.equal(healthResponse.status, 200);
+    const health = await healthResponse.json() as any;
+    assert.equal(health.status, 'ok');
+    assert.equal(health.source.endpoint, 'ws://test');
+
+    assert.equal((await fetch(`${url}/nope`)).status, 404);
+  } finally {
+    await server.stop();
+  }
+});
+
+test('reports unhealthy while the source is disconnected', async () => {
+  const server = new HttpServer(0, '127.0.0.1');
+  registerHealthRoutes(server, createBotMetrics(), createSource(false));
+
+  try {
+    const url = await server.start();
+    const response = await fetch(`${url}/healthz`);
+    assert.equal(response.status, 503);
+    assert.equal((await response.json() as any).status, 'disconnected');
+  } finally {
+    await server.stop();
+  }
+});
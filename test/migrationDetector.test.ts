@@ -0,0 +1,63 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { MigrationDetector } from '../src/detectors/migration';
+import { TransactionParser } from '../src/parsers/transaction';
+import { Config } from '../src/utils/config';
+import { expected, fixtureNames, loadTransaction } from './helpers/fixtures';
+
+const config = {
+  pumpFunProgramId: '6EF8rrecthR5Dkzon8Nwu78hRvfCKubJ14M5uBEwF6P',
+  pumpFunAmmProgramId: 'pAMMBay6oceH9fJKBRHGP5D4bD4sWpmSwMn52FMfXEA',
+} as Config;
+
+const detector = new MigrationDetector(config);
+const parser = new TransactionParser(config.pumpFunAmmProgramId);
+
+for (const name of fixtureNames()) {
+  const fixture = expected[name];
+
+  test(`detects ${name} as ${fixture.isMigration ? 'a migration' : 'not a migration'}`, () => {
+    const tx = loadTransaction(name);
+    const result = detector.detectMigrationFromTransaction(tx, fixture.signature);
+
+    assert.equal(result.isMigration, fixture.isMigration);
+    if (fixture.isMigration) {
+      assert.equal(result.tokenMint, fixture.tokenMint);
+      assert.equal(result.accounts?.bondingCurve, fixture.bondingCurve);
+    }
+  });
+}
+
+test('log pre-filter matches only the exact Migrate instruction log', () => {
+  assert.equal(detector.hasMigrationIndicators(loadTransaction('migration').meta?.logMessages || []), true);
+  assert.equal(detector.hasMigrationIndicators(loadTransaction('migrate-bonding-curve-creator').meta?.logMessages || []), false);
+});
+
+test('log pre-filter rejects unrelated pump.fun instructions', () => {
+  const tx = loadTransaction('buy');
+  assert.equal(detector.hasMigrationIndicators(tx.meta?.logMessages || []), false);
+});
+
+test('parses a migration transaction', async () => {
+  const fixture = expected['migration'];
+  const tx = loadTransaction('migration');
+  const detection = detector.detectMigrationFromTransaction(tx, fixture.signature);
+  const migration = await parser.parseMigrationTransactionFromParsed(tx, detection.tokenMint, fixture.signature);
+
+  assert.ok(migration);
+  assert.equal(migration.tokenMint, fixture.tokenMint);
+  assert.equal(migration.signature, fixture.signature);
+  assert.equal(migration.transactionUrl, `https://solscan.io/tx/${fixture.signature}`);
+  assert.equal(migration.liquidityPool, fixture.pool);
+  assert.equal(migration.poolBaseAmount, Number(fixture.baseAmount) / 1e6);
+  assert.equal(migration.poolQuoteAmount, Number(fixture.quoteAmount) / 1e9);
+  assert.equal(migration.solAmount, migration.poolQuoteAmount);
+});
+
+test('parses the pool of a migration invoked through CPI', async () => {
+  const fixture = expected['migration-inner'];
+  const tx = loadTransaction('migration-inner');
+  const migration = await parser.parseMigrationTransactionFromParsed(tx, fixture.tokenMint, fixture.signature);
+
+  assert.equal(migration?.liquidityPool, fixture.pool);
+});
@@ -0,0 +1,192 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as crypto from 'crypto';
+import { MigrationEvent, Notifier, NotifierDispatcher } from '../src/notifiers';
+import { DiscordNotifier } from '../src/notifiers/discord';
+import { SlackNotifier } from '../src/notifiers/slack';
+import { HttpWebhookNotifier, signWebhookPayload } from '../src/notifiers/webhook';
+import { parseFilterList } from '../src/filters/alertFilters';
+import { createBotMetrics } from '../src/metrics';
+import { NotifierConfig } from '../src/utils/config';
+import { MockHttpServer } from './helpers/mockHttpServer';
+import { silenceConsole } from './helpers/console';
+
+silenceConsole();
+
+const MINT = '5dQ8f8dyYsBhtuV5oLsuVpNoPmhCnumsWNDYQsWppump';
+const POOL = '9vZyeGDeYbMuqNtFLPVyA4CgS3fCBcXhVmYMrk8QdUKs';
+
+const event: MigrationEvent = {
+  migration: {
+    signature: 'sig',
+    tokenMint: MINT,
+    timestamp: 1700000000000,
+    liquidityPool: POOL,
+    transactionUrl: 'https://solscan.io/tx/sig',
+  },
+  tokenData: { mint: MINT, name: 'Fixture <Token>', symbol: 'FIX', decimals: 6 },
+  jupiterData: {
+    id: MINT,
+    organicScore: 72.5,
+    organicScoreLabel: 'high',
+    mcap: 65000,
+    liquidity: 24000,
+    holderCount: 420,
+    audit: { mintAuthorityDisabled: false },
+  },
+};
+
+function sinkConfig(overrides: Partial<NotifierConfig> = {}): NotifierConfig {
+  return { url: '', filters: {}, retries: 2, retryDelayMs: 1, ...overrides };
+}
+
+// A notifier that fails with the given errors before succeeding
+function flakyNotifier(name: string, errors: any[]): Notifier & { attempts: number } {
+  return {
+    name,
+    attempts: 0,
+    async notify() {
+      this.attempts++;
+      const error = errors.shift();
+      if (error) {
+        throw error;
+      }
+    },
+  };
+}
+
+// Records requests and answers with the queued statuses, then 204
+function webhookServer(statuses: number[] = []): MockHttpServer {
+  return new MockHttpServer(() => {
+    const status = statuses.shift() || 204;
+    const headers: Record<string, string> = status === 429 ? { 'retry-after': '0' } : {};
+    return { status, headers, body: {} };
+  });
+}
+
+test('applies each sink\'s filters and retries only transient failures', async () => {
+  const metrics = createBotMetrics();
+  const dispatcher = new NotifierDispatcher(metrics);
+  const retried = flakyNotifier('retried', [{ response: { status: 503 } }, { response: { status: 429, headers: { 'retry-after': '0' } } }]);
+  const rejected = flakyNotifier('rejected', [{ response: { status: 400 } }]);
+  const exhausted = flakyNotifier('exhausted', [{ code: 'ECONNREFUSED' }, { code: 'ECONNREFUSED' }]);
+  const filtered = flakyNotifier('filtered', []);
+
+  dispatcher.add(retried, sinkConfig());
+  dispatcher.add(rejected, sinkConfig());
+  dispatcher.add(exhausted, sinkConfig({ retries: 1 }));
+  dispatcher.add(filtered, sinkConfig({ filters: parseFilterList('min_mcap=100000') }));
+  await dispatcher.dispatch(event);
+
+  assert.equal(retried.attempts, 3);
+  assert.equal(rejected.attempts, 1);
+  assert.equal(exhausted.attempts, 2);
+  assert.equal(filtered.attempts, 0);
+  assert.deepEqual(dispatcher.getNames(), ['retried', 'rejected', 'exhausted', 'filtered']);
+
+  const total = (notifier: string, status: string) => metrics.registry.total('pump_bot_notifier_deliveries_total', { notifier, status });
+  assert.equal(total('retried', 'sent'), 1);
+  assert.equal(total('rejected', 'failed'), 1);
+  assert.equal(total('exhausted', 'failed'), 1);
+  assert.equal(total('filtered', 'filtered'), 1);
+});
+
+test('reports each sink as done without waiting for slower sinks', async () => {
+  const dispatcher = new NotifierDispatcher();
+  let release = () => {};
+  const slow: Notifier = { name: 'slow', notify: () => new Promise<void>(resolve => { release = resolve; }) };
+  const done: string[] = [];
+
+  dispatcher.add(slow);
+  dispatcher.add(flakyNotifier('fast', []));
+  const dispatched = dispatcher.dispatch(event, name => done.push(name));
+  await new Promise(resolve => setImmediate(resolve));
+  assert.deepEqual(done, ['fast']);
+
+  release();
+  await dispatched;
+  assert.deepEqual(done, ['fast', 'slow']);
+});
+
+test('parses sink filters written as name=value lists', () => {
+  assert.deepEqual(parseFilterList('min_mcap=50000, max_risk = medium'), { minMcap: 50000, maxRisk: 'medium' });
+  assert.deepEqual(parseFilterList('min_liquidity=10000,organic_label=high'), { minLiquidity: 10000, organicLabel: 'high' });
+  assert.deepEqual(parseFilterList(''), {});
+  assert.throws(() => parseFilterList('min_mcap'), /Missing value for filter "min_mcap"/);
+  assert.throws(() => parseFilterList('max_risk=extreme'), /max_risk must be one of/);
+  assert.throws(() => parseFilterList('min_age=5'), /Unknown filter "min_age"/);
+  // Inherited object keys are not filter names or values
+  assert.throws(() => parseFilterList('max_risk=constructor'), /max_risk must be one of/);
+  assert.throws(() => parseFilterList('organic_label=toString'), /organic_label must be one of/);
+  assert.throws(() => parseFilterList('constructor=5'), /Unknown filter "constructor"/);
+});
+
+test('posts a Discord embed, uploading the chart as its image', async () => {
+  const server = webhookServer();
+  try {
+    const notifier = new DiscordNotifier(`${await server.listening()}/api/webhooks/1/token`);
+    await notifier.notify(event);
+    await notifier.notify({ ...event, chartImage: Buffer.from('png-bytes') });
+
+    const [embed] = server.requests[0].body.embeds;
+    assert.equal(embed.title, '🚀 Fixture <Token> (FIX) migrated');
+    assert.equal(embed.url, 'https://solscan.io/tx/sig');
+    assert.equal(embed.color, 0xe74c3c);
+    assert.deepEqual(server.requests[0].body.allowed_mentions, { parse: [] });
+    assert.deepEqual(embed.fields.find((field: any) => field.name === '💰 Market Cap'), { name: '💰 Market Cap', value: '$65,000', inline: true });
+    assert.deepEqual(embed.fields.find((field: any) => field.name === '🔴 Risk: HIGH'), {
+      name: '🔴 Risk: HIGH', value: '⚠️ Mint authority still enabled', inline: false,
+    });
+    assert.match(embed.description, new RegExp(`\\[📈 DexScreener\\]\\(https://dexscreener.com/solana/${MINT}\\)`));
+    assert.equal(embed.image, undefined);
+
+    const upload = server.requests[1].body;
+    assert.deepEqual(upload['files[0]'], Buffer.from('png-bytes'));
+    assert.equal(JSON.parse(upload.payload_json).embeds[0].image.url, 'attachment://chart.png');
+  } finally {
+    await server.close();
+  }
+});
+
+test('posts a Slack Block Kit message with escaped fallback text', async () => {
+  const server = webhookServer();
+  try {
+    await new SlackNotifier(await server.listening()).notify(event);
+
+    const { text, blocks } = server.requests[0].body;
+    assert.equal(text, '🚀 Fixture &lt;Token&gt; (FIX) migrated on pump.fun');
+    assert.deepEqual(blocks.map((block: any) => block.type), ['header', 'section', 'section', 'section', 'context']);
+    assert.equal(blocks[1].text.text, `*Contract:* \`${MINT}\``);
+    assert.deepEqual(blocks[1].fields[1], { type: 'mrkdwn', text: '*💰 Market Cap*\n$65,000' });
+    assert.equal(blocks[2].text.text, `*🏊 Pool*\n\`${POOL}\``);
+    assert.match(blocks[4].elements[0].text, /<https:\/\/solscan\.io\/tx\/sig\|🔗 Solscan>$/);
+  } finally {
+    await server.close();
+  }
+});
+
+test('signs generic webhook deliveries with HMAC-SHA256 and is retried by the dispatcher', async () => {
+  const server = webhookServer([500, 429]);
+  try {
+    const dispatcher = new NotifierDispatcher();
+    dispatcher.add(new HttpWebhookNotifier(`${await server.listening()}/hooks/migrations`, 'shh'), sinkConfig());
+    await dispatcher.dispatch(event);
+
+    assert.equal(server.requests.length, 3);
+    const { headers, rawBody, body, url } = server.requests[2];
+    assert.equal(url.pathname, '/hooks/migrations');
+    assert.equal(headers['x-webhook-id'], 'sig');
+    const timestamp = String(headers['x-webhook-timestamp']);
+    const expected = `sha256=${crypto.createHmac('sha256', 'shh').update(`${timestamp}.${rawBody.toString()}`).digest('hex')}`;
+    assert.equal(headers['x-webhook-signature'], expected);
+    assert.equal(signWebhookPayload('shh', timestamp, rawBody.toString()), expected);
+
+    assert.equal(body.event, 'migration');
+    assert.equal(body.migration.tokenMint, MINT);
+    assert.equal(body.token.symbol, 'FIX');
+    assert.equal(body.risk.level, 'high');
+    assert.equal(body.links[0].url, `https://dexscreener.com/solana/${MINT}`);
+  } finally {
+    await server.close();
+  }
+});
@@ -0,0 +1,91 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as zlib from 'zlib';
+import { renderPriceChart, resampleCandles } from '../src/charts/priceChart';
+import { PriceCandle, PriceHistoryFetcher } from '../src/fetchers/priceHistory';
+import { FetchScheduler } from '../src/fetchers/scheduler';
+import { createMockPumpFunServer } from './helpers/mockRpcServer';
+import { silenceConsole } from './helpers/console';
+
+silenceConsole();
+
+const MINT = '5dQ8f8dyYsBhtuV5oLsuVpNoPmhCnumsWNDYQsWppump';
+
+function candles(count: number): PriceCandle[] {
+  return Array.from({ length: count }, (_, index) => ({
+    timestamp: index * 60000,
+    open: 1 + index,
+    high: 2.5 + index,
+    low: 0.5 + index,
+    // Every third candle closes down
+    close: index % 3 === 2 ? 0.8 + index : 2 + index,
+    volume: 10,
+  }));
+}
+
+// Reads back the RGBA pixels of a PNG written by encodePng (single IDAT, filter type 0)
+function decodePng(png: Buffer): { width: number; height: number; pixel: (x: number, y: number) => number[] } {
+  assert.deepEqual(png.subarray(0, 8), Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]));
+  const width = png.readUInt32BE(16);
+  const height = png.readUInt32BE(20);
+  const idatAt = png.indexOf('IDAT');
+  const raw = zlib.inflateSync(png.subarray(idatAt + 4, idatAt + 4 + png.readUInt32BE(idatAt - 4)));
+
+  return {
+    width,
+    height,
+    pixel: (x, y) => Array.from(raw.subarray(y * (width * 4 + 1) + 1 + x * 4, y * (width * 4 + 1) + 1 + x * 4 + 4)),
+  };
+}
+
+test('renders up and down candles and the migration marker to a PNG', () => {
+  const image = decodePng(renderPriceChart(candles(30), { width: 400, height: 200 })!);
+  assert.equal(image.width, 400);
+  assert.equal(image.height, 200);
+
+  const colors = new Set<string>();
+  for (let y = 0; y < image.height; y++) {
+    for (let x = 0; x < image.width; x++) {
+      colors.add(image.pixel(x, y).join(','));
+    }
+  }
+  assert.ok(colors.has('19,23,34,255'), 'background');
+  assert.ok(colors.has('38,166,154,255'), 'up candles');
+  assert.ok(colors.has('239,83,80,255'), 'down candles');
+  assert.ok(colors.has('255,193,7,255'), 'migration marker');
+});
+
+test('needs at least two candles', () => {
+  assert.equal(renderPriceChart([]), null);
+  assert.equal(renderPriceChart(candles(1)), null);
+});
+
+test('merges candles down to the available bars', () => {
+  const merged = resampleCandles(candles(10), 4);
+
+  assert.equal(merged.length, 4);
+  assert.deepEqual(merged[0], { timestamp: 0, open: 1, high: 4.5, low: 0.5, close: 2.8, volume: 30 });
+  assert.equal(merged[3].close, 11);
+  assert.equal(resampleCandles(candles(3), 4).length, 3);
+});
+
+test('fetches pump.fun candles oldest first, in milliseconds, skipping bad rows', async () => {
+  const server = createMockPumpFunServer({
+    [MINT]: [
+      { timestamp: 1700000060, open: 2, high: 3, low: 1, close: 2.5, volume: 5 },
+      { timestamp: 1700000000, open: 1, high: 2, low: 0.5, close: 2, volume: 7 },
+      { timestamp: 1700000120, open: 0, high: 0, low: 0, close: 0, volume: 0 },
+    ],
+  });
+
+  try {
+    const fetcher = new PriceHistoryFetcher(await server.listening(), new FetchScheduler({ name: 'pumpfun', concurrency: 1, ratePerSecond: 10 }));
+    const history = await fetcher.fetchCandles(MINT);
+
+    assert.deepEqual(history.map(candle => candle.timestamp), [1700000000000, 1700000060000]);
+    assert.equal(history[0].volume, 7);
+    assert.deepEqual(await fetcher.fetchCandles('unknown'), []);
+  } finally {
+    await server.close();
+  }
+});
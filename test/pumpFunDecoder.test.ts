@@ -0,0 +1,56 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { decodeMigrateInstructions } from '../src/decoders/pumpFun';
+import { expected, loadTransaction } from './helpers/fixtures';
+
+const PUMP_FUN_PROGRAM_ID = '6EF8rrecthR5Dkzon8Nwu78hRvfCKubJ14M5uBEwF6P';
+
+test('decodes a top-level migrate instruction with named accounts', () => {
+  const fixture = expected['migration'];
+  const [migrate, ...rest] = decodeMigrateInstructions(loadTransaction('migration'), PUMP_FUN_PROGRAM_ID);
+
+  assert.equal(rest.length, 0);
+  assert.equal(migrate.innerIndex, undefined);
+  assert.equal(migrate.accounts.mint, fixture.tokenMint);
+  assert.equal(migrate.accounts.bondingCurve, fixture.bondingCurve);
+  assert.equal(migrate.accounts.pool, fixture.pool);
+  assert.equal(migrate.accounts.user, fixture.user);
+});
+
+test('decodes a migrate instruction invoked through CPI', () => {
+  const fixture = expected['migration-inner'];
+  const [migrate] = decodeMigrateInstructions(loadTransaction('migration-inner'), PUMP_FUN_PROGRAM_ID);
+
+  assert.ok(migrate);
+  assert.equal(migrate.outerIndex, 1);
+  assert.equal(migrate.innerIndex, 0);
+  assert.equal(migrate.accounts.mint, fixture.tokenMint);
+});
+
+test('ignores other pump.fun instructions', () => {
+  for (const name of ['buy', 'collect-creator-fee', 'migrate-bonding-curve-creator', 'distribute-creator-fees']) {
+    assert.deepEqual(decodeMigrateInstructions(loadTransaction(name), PUMP_FUN_PROGRAM_ID), [], name);
+  }
+});
+
+test('resolves account indexes in raw (non-parsed) transactions', () => {
+  const parsed: any = loadTransaction('migration');
+  const keys: string[] = parsed.transaction.message.accountKeys.map((key: any) => key.pubkey);
+  const raw = {
+    ...parsed,
+    transaction: {
+      ...parsed.transaction,
+      message: {
+        accountKeys: keys,
+        instructions: parsed.transaction.message.instructions.map((ix: any) => ({
+          programIdIndex: keys.indexOf(ix.programId),
+          accounts: ix.accounts.map((account: string) => keys.indexOf(account)),
+          data: ix.data,
+        })),
+      },
+    },
+  };
+
+  const [migrate] = decodeMigrateInstructions(raw, PUMP_FUN_PROGRAM_ID);
+  assert.equal(migrate.accounts.mint, expected['migration'].tokenMint);
+});
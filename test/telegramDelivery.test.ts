@@ -0,0 +1,125 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import TelegramBot from 'node-telegram-bot-api';
+import { TelegramDeliveryQueue } from '../src/telegram/delivery';
+import { JsonSubscriberRepository } from '../src/storage/subscribers';
+import { FakeTelegramApi } from './helpers/fakeTelegram';
+import { silenceConsole } from './helpers/console';
+
+silenceConsole();
+
+async function setup() {
+  const telegram = new FakeTelegramApi();
+  const bot = new TelegramBot('123456:TEST', { polling: false, baseApiUrl: await telegram.listening() });
+  const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'migration-bot-delivery-'));
+  const subscribers = new JsonSubscriberRepository(dataDir);
+  const queue = new TelegramDeliveryQueue(subscribers);
+  const send = (chatId: number, text: string) => queue.send(chatId, () => bot.sendMessage(chatId, text));
+
+  return {
+    telegram,
+    subscribers,
+    queue,
+    send,
+    dataDir,
+    cleanup: async () => {
+      await telegram.close();
+      subscribers.flush();
+      fs.rmSync(dataDir, { recursive: true, force: true });
+    },
+  };
+}
+
+test('retries 429s after retry_after and records the delivery', { timeout: 20000 }, async () => {
+  const { telegram, subscribers, queue, send, cleanup } = await setup();
+  try {
+    subscribers.add(1001);
+    telegram.failSends(1001, { status: 429, description: 'Too Many Requests: retry after 1', retryAfter: 1, times: 1 });
+
+    const startedAt = Date.now();
+    const message = await send(1001, 'hello');
+
+    assert.equal(message.text, 'hello');
+    assert.ok(Date.now() - startedAt >= 1000);
+    assert.equal(telegram.messagesTo(1001).length, 2);
+    assert.equal(subscribers.get(1001)?.lastDeliveryStatus, 'ok');
+    assert.equal(queue.getStats().rateLimited, 1);
+  } finally {
+    await cleanup();
+  }
+});
+
+test('retries Telegram server errors with backoff', { timeout: 20000 }, async () => {
+  const { telegram, subscribers, queue, send, cleanup } = await setup();
+  try {
+    subscribers.add(1001);
+    telegram.failSends(1001, { status: 502, description: 'Bad Gateway', times: 2 });
+
+    const message = await send(1001, 'hello');
+
+    assert.equal(message.text, 'hello');
+    assert.equal(telegram.messagesTo(1001).length, 3);
+    assert.equal(subscribers.get(1001)?.lastDeliveryStatus, 'ok');
+    assert.equal(queue.getStats().retried, 2);
+  } finally {
+    await cleanup();
+  }
+});
+
+test('saves delivery statuses in one write instead of one per message', { timeout: 20000 }, async () => {
+  const { subscribers, send, dataDir, cleanup } = await setup();
+  const saved = () => JSON.parse(fs.readFileSync(path.join(dataDir, 'subscribers.json'), 'utf8')).subscribers;
+  try {
+    [1001, 1002, 1003].forEach(chatId => subscribers.add(chatId));
+    await Promise.all([1001, 1002, 1003].map(chatId => send(chatId, 'hello')));
+
+    assert.ok(saved().every((record: any) => record.lastDeliveryStatus === undefined));
+    subscribers.flush();
+    assert.deepEqual(saved().map((record: any) => record.lastDeliveryStatus), ['ok', 'ok', 'ok']);
+  } finally {
+    await cleanup();
+  }
+});
+
+test('unsubscribes chats that blocked the bot or no longer exist', { timeout: 20000 }, async () => {
+  const { telegram, subscribers, send, cleanup } = await setup();
+  try {
+    [1001, 1002, -1003].forEach(chatId => subscribers.add(chatId));
+    telegram.failSends(1001, { status: 403, description: 'Forbidden: bot was blocked by the user' });
+    telegram.failSends(-1003, { status: 400, description: 'Bad Request: chat not found' });
+    telegram.failSends(1002, { status: 400, description: 'Bad Request: message is too long' });
+
+    await assert.rejects(send(1001, 'hello'));
+    await assert.rejects(send(-1003, 'hello'));
+    await assert.rejects(send(1002, 'hello'));
+
+    assert.equal(subscribers.has(1001), false);
+    assert.equal(subscribers.has(-1003), false);
+    // Other errors keep the chat, with the failure recorded
+    assert.equal(subscribers.get(1002)?.lastDeliveryStatus, 'failed');
+    assert.match(subscribers.get(1002)?.lastDeliveryError || '', /message is too long/);
+    // Not retried
+    assert.equal(telegram.messagesTo(1001).length, 1);
+  } finally {
+    await cleanup();
+  }
+});
+
+test('spaces messages to the same chat but not across chats', { timeout: 20000 }, async () => {
+  const { telegram, send, cleanup } = await setup();
+  try {
+    const startedAt = Date.now();
+    await Promise.all([send(1001, 'first'), send(1002, 'other chat')]);
+    const parallel = Date.now() - startedAt;
+    await send(1001, 'second');
+
+    assert.ok(parallel < 1000, `different chats took ${parallel}ms`);
+    assert.ok(Date.now() - startedAt >= 1000);
+    assert.deepEqual(telegram.messagesTo(1001).map(call => call.params.text), ['first', 'second']);
+  } finally {
+    await cleanup();
+  }
+});
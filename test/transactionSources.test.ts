@@ -0,0 +1,141 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import bs58 from 'bs58';
+import { createTransactionSource, TransactionSourceHandlers } from '../src/sources';
+import { HeliusSource } from '../src/sources/helius';
+import { SolanaRpcSource } from '../src/sources/solanaRpc';
+import { YellowstoneSource, toParsedTransaction } from '../src/sources/yellowstone';
+import { MigrationDetector } from '../src/detectors/migration';
+import { PUMP_FUN_MIGRATE_ACCOUNTS, PUMP_FUN_MIGRATE_DISCRIMINATOR } from '../src/decoders/pumpFun';
+import { Config } from '../src/utils/config';
+import { MockHeliusServer } from './helpers/mockHeliusServer';
+import { silenceConsole } from './helpers/console';
+
+silenceConsole();
+
+const PUMP_FUN_PROGRAM_ID = '6EF8rrecthR5Dkzon8Nwu78hRvfCKubJ14M5uBEwF6P';
+
+function createConfig(overrides: Partial<Config>): Config {
+  return {
+    heliusApiKey: 'test-api-key',
+    heliusWsUrl: 'ws://helius.invalid',
+    heliusRpcUrl: 'http://helius.invalid',
+    solanaWsUrl: 'ws://rpc.invalid',
+    solanaRpcUrl: 'http://rpc.invalid',
+    yellowstoneGrpcUrl: 'http://yellowstone.invalid',
+    yellowstoneXToken: '',
+    fallbackWsUrls: [],
+    fallbackRpcUrls: ['http://fallback.invalid'],
+    pumpFunProgramId: PUMP_FUN_PROGRAM_ID,
+    subscriptionMode: 'logs',
+    transactionSource: 'helius',
+    ...overrides,
+  } as Config;
+}
+
+const noopHandlers: TransactionSourceHandlers = {
+  onSignature: () => undefined,
+  onTransaction: () => undefined,
+};
+
+test('selects the source and fetch RPC from config', () => {
+  const helius = createTransactionSource(createConfig({ transactionSource: 'helius' }), noopHandlers);
+  assert.ok(helius instanceof HeliusSource);
+  assert.deepEqual(helius.rpcUrls, ['http://helius.invalid', 'http://fallback.invalid']);
+
+  const rpc = createTransactionSource(createConfig({ transactionSource: 'rpc' }), noopHandlers);
+  assert.ok(rpc instanceof SolanaRpcSource);
+  assert.deepEqual(rpc.rpcUrls, ['http://rpc.invalid', 'http://fallback.invalid']);
+
+  const yellowstone = createTransactionSource(createConfig({ transactionSource: 'yellowstone' }), noopHandlers);
+  assert.ok(yellowstone instanceof YellowstoneSource);
+  assert.deepEqual(yellowstone.rpcUrls, ['http://rpc.invalid', 'http://fallback.invalid']);
+});
+
+test('uses logsSubscribe on a generic Solana RPC WebSocket', async () => {
+  const server = new MockHeliusServer({ supportsTransactionSubscribe: false });
+  // transactionSubscribe is Helius-only, so SUBSCRIPTION_MODE is ignored here
+  const config = createConfig({
+    transactionSource: 'rpc',
+    subscriptionMode: 'transaction',
+    solanaWsUrl: await server.listening(),
+  });
+
+  const received: Array<{ signature: string; logs: string[] }> = [];
+  const source = createTransactionSource(config, {
+    ...noopHandlers,
+    onSignature: (signature, logs, slot) => {
+      assert.ok(slot > 0);
+      received.push({ signature, logs });
+    },
+  });
+
+  try {
+    source.connect();
+    await server.waitForSubscription('logsSubscribe');
+    assert.ok(!server.requests.some(request => request.method === 'transactionSubscribe'));
+
+    server.notifyLogs('rpc-signature', ['Program log: Instruction: Migrate']);
+    await new Promise(resolve => setTimeout(resolve, 100));
+
+    assert.deepEqual(received, [{ signature: 'rpc-signature', logs: ['Program log: Instruction: Migrate'] }]);
+  } finally {
+    source.disconnect();
+    await server.close();
+  }
+});
+
+test('converts Yellowstone transaction updates for the migration detector', () => {
+  // Distinct fake accounts for every migrate account slot, followed by the pump.fun program
+  const accountKeys: Uint8Array[] = PUMP_FUN_MIGRATE_ACCOUNTS.map((_, index) => new Uint8Array(32).fill(index + 1));
+  accountKeys.push(bs58.decode(PUMP_FUN_PROGRAM_ID));
+  const signature = new Uint8Array(64).fill(7);
+
+  const tx = toParsedTransaction({
+    slot: '370000000',
+    transaction: {
+      signature,
+      isVote: false,
+      index: '0',
+      transaction: {
+        signatures: [signature],
+        message: {
+          header: { numRequiredSignatures: 1, numReadonlySignedAccounts: 0, numReadonlyUnsignedAccounts: 1 },
+          accountKeys,
+          recentBlockhash: new Uint8Array(32).fill(9),
+          instructions: [{
+            programIdIndex: accountKeys.length - 1,
+            accounts: new Uint8Array(PUMP_FUN_MIGRATE_ACCOUNTS.map((_, index) => index)),
+            data: new Uint8Array(PUMP_FUN_MIGRATE_DISCRIMINATOR),
+          }],
+          versioned: false,
+          addressTableLookups: [],
+        },
+      },
+      meta: {
+        fee: '5000',
+        preBalances: accountKeys.map(() => '0'),
+        postBalances: accountKeys.map(() => '0'),
+        innerInstructions: [],
+        innerInstructionsNone: false,
+        logMessages: ['Program log: Instruction: Migrate'],
+        logMessagesNone: false,
+        preTokenBalances: [],
+        postTokenBalances: [],
+        rewards: [],
+        loadedWritableAddresses: [],
+        loadedReadonlyAddresses: [],
+        returnDataNone: true,
+      },
+    },
+  } as any);
+
+  assert.ok(tx);
+  assert.equal(tx.slot, 370000000);
+  assert.equal(tx.transaction.signatures[0], bs58.encode(signature));
+
+  const detector = new MigrationDetector(createConfig({}));
+  const detection = detector.detectMigrationFromTransaction(tx, bs58.encode(signature));
+  assert.equal(detection.isMigration, true);
+  assert.equal(detection.tokenMint, bs58.encode(accountKeys[PUMP_FUN_MIGRATE_ACCOUNTS.indexOf('mint')]));
+});